@@ -5,27 +5,119 @@ import {
   DEFAULT_KERF_INCHES,
   DEFAULT_MAX_BOARD_LENGTH_INCHES,
 } from "./lib/stock-profiles";
-import { mergeScrapEntries, type ScrapEntry } from "./lib/optimizer";
+import {
+  OPTIMIZATION_OBJECTIVE_OPTIONS,
+  SEARCH_EFFORT_OPTIONS,
+  mergeScrapEntries,
+  type OptimizationObjective,
+  type ScrapEntry,
+  type SearchEffort,
+} from "./lib/optimizer";
 import {
   createBoardGroup,
   createDefaultGroup,
+  createSheetGroup,
   type MaterialGroup,
 } from "./lib/material-groups";
 import {
+  getAppStorage,
+  onStorageChange,
+  onStorageError,
+  parseStoredGroups,
   saveGroupsToStorage,
   loadGroupsFromStorage,
-  parseGroupsFromJSON,
-  serializeGroups,
+  type StorageChange,
+  type StorageWriteFailure,
 } from "./lib/persistence";
 import {
-  generateProjectResult,
-  type ProjectResult,
+  createImportReport,
+  hasImportIssues,
+  type ImportReport,
+} from "./lib/import-report";
+import {
+  PROJECT_FORMAT_VERSION,
+  createProjectFile,
+  parseProjectFile,
+  projectFileName,
+  readProjectFormatVersion,
+  type Project,
+  type ProjectMeta,
+} from "./lib/project-file";
+import {
+  createShareLink,
+  decodeSharePayload,
+  readSharePayload,
+} from "./lib/share-link";
+import {
+  PROJECT_LIBRARY_STORAGE_KEY,
+  addProjectToLibrary,
+  createLibraryEntry,
+  duplicateProjectName,
+  getActiveProject,
+  loadOrCreateProjectLibrary,
+  loadProjectLibraryFromStorage,
+  loadProjectResultFromStorage,
+  projectGroupsStorageKey,
+  projectResultStorageKey,
+  removeProjectDataFromStorage,
+  removeProjectFromLibrary,
+  saveProjectLibraryToStorage,
+  saveProjectResultToStorage,
+  updateProjectInLibrary,
+  type ProjectLibrary,
+  type ProjectLibraryEntry,
+} from "./lib/project-library";
+import type {
+  OptimizationProgress,
+  ProjectResult,
 } from "./lib/project-result";
+import { runOptimization } from "./lib/run-optimization";
+import { collectOffcuts } from "./lib/offcuts";
+import {
+  SCRAP_LEDGER_STORAGE_KEY,
+  createScrapTransactionId,
+  diffScrapInventories,
+  isScrapTransactionInEffect,
+  loadScrapHistoryFromStorage,
+  mergeScrapLedgers,
+  parseStoredScrapHistory,
+  parseScrapEntryFromUnknown,
+  recordScrapTransaction,
+  redoScrapTransaction,
+  revertScrapTransaction,
+  saveScrapHistoryToStorage,
+  undoScrapTransaction,
+  type ScrapLedgerState,
+} from "./lib/scrap-ledger";
+import {
+  commitPlan,
+  countScrap,
+  findConsumedScrap,
+} from "./lib/scrap-accounting";
+import {
+  assignScrapPieceIds,
+  untrackScrapPieces,
+  usedPieceIds,
+} from "./lib/scrap-pieces";
+import {
+  PRICES_STORAGE_KEY,
+  loadPriceTableFromStorage,
+  savePriceTableToStorage,
+  type PriceTable,
+} from "./lib/pricing";
 import { MaterialGroupSection } from "./components/MaterialGroupSection";
 import { ScrapInventoryModal } from "./components/ScrapInventoryModal";
+import { StockPricesModal } from "./components/StockPricesModal";
 import { UnifiedResultsView } from "./components/UnifiedResultsView";
+import { ImportReportNotice } from "./components/ImportReportNotice";
+import { ProjectPicker } from "./components/ProjectPicker";
+import { SharedProjectNotice } from "./components/SharedProjectNotice";
+import { CsvImportModal } from "./components/CsvImportModal";
+import { SyncConflictNotice } from "./components/SyncConflictNotice";
+import { fieldClassName } from "./components/uiClasses";
 
 const SCRAP_STORAGE_KEY = "cut-optimizer-scrap";
+const SCRAP_TRACKING_STORAGE_KEY = "cut-optimizer-scrap-track-pieces";
 const THEME_STORAGE_KEY = "cut-optimizer-theme";
 type ThemeMode = "light" | "dark";
 
@@ -42,12 +134,8 @@ function detectSystemTheme(): ThemeMode {
 }
 
 function readStoredTheme(): ThemeMode | null {
-  try {
-    const raw = localStorage.getItem(THEME_STORAGE_KEY);
-    return raw === "light" || raw === "dark" ? raw : null;
-  } catch {
-    return null;
-  }
+  const raw = getAppStorage().getItem(THEME_STORAGE_KEY);
+  return raw === "light" || raw === "dark" ? raw : null;
 }
 
 function getInitialTheme(): ThemeMode {
@@ -55,90 +143,101 @@ function getInitialTheme(): ThemeMode {
 }
 
 function loadScrapFromStorage(): ScrapEntry[] {
+  return parseStoredScrap(getAppStorage().getItem(SCRAP_STORAGE_KEY));
+}
+
+/** Parse the inventory as saveScrapToStorage writes it; [] for null or invalid data. */
+function parseStoredScrap(raw: string | null): ScrapEntry[] {
   try {
-    const raw = localStorage.getItem(SCRAP_STORAGE_KEY);
     if (!raw) return [];
     const parsed = JSON.parse(raw) as unknown;
     if (!Array.isArray(parsed)) return [];
-    const asEntries = parsed
-      .map((x): ScrapEntry | null => {
-        if (typeof x !== "object" || x === null) return null;
-        const candidate = x as Record<string, unknown>;
-        if (
-          candidate.materialType === "board" &&
-          typeof candidate.nominalSizeId === "string" &&
-          typeof candidate.stockLength === "number" &&
-          typeof candidate.quantity === "number"
-        ) {
-          return {
-            materialType: "board",
-            nominalSizeId: candidate.nominalSizeId,
-            stockLength: candidate.stockLength,
-            quantity: candidate.quantity,
-          };
-        }
-        if (
-          candidate.materialType === "sheet" &&
-          typeof candidate.width === "number" &&
-          typeof candidate.height === "number" &&
-          typeof candidate.thickness === "string" &&
-          typeof candidate.quantity === "number"
-        ) {
-          return {
-            materialType: "sheet",
-            width: candidate.width,
-            height: candidate.height,
-            thickness: candidate.thickness,
-            quantity: candidate.quantity,
-          };
-        }
-        if (
-          typeof candidate.stockLength === "number" &&
-          typeof candidate.quantity === "number"
-        ) {
-          return {
-            materialType: "board",
-            nominalSizeId: STOCK_PROFILES[0]?.id ?? "2x4",
-            stockLength: candidate.stockLength,
-            quantity: candidate.quantity,
-          };
-        }
-        return null;
-      })
-      .filter((x): x is ScrapEntry => x !== null);
-    return mergeScrapEntries(asEntries);
+    return mergeScrapEntries(
+      parsed
+        .map(parseScrapEntryFromUnknown)
+        .filter((x): x is ScrapEntry => x !== null),
+    );
   } catch {
     return [];
   }
 }
 
 function saveScrapToStorage(scrap: ScrapEntry[]) {
-  try {
-    localStorage.setItem(SCRAP_STORAGE_KEY, JSON.stringify(scrap));
-  } catch {
-    // ignore
-  }
+  getAppStorage().setItem(SCRAP_STORAGE_KEY, JSON.stringify(scrap));
+}
+
+function loadScrapTrackingFromStorage(): boolean {
+  return getAppStorage().getItem(SCRAP_TRACKING_STORAGE_KEY) === "true";
+}
+
+function saveScrapTrackingToStorage(enabled: boolean) {
+  getAppStorage().setItem(SCRAP_TRACKING_STORAGE_KEY, String(enabled));
+}
+
+/** Short description of a scrap entry for notes, e.g. `2 × 6 ft 2x4 (AB12)`. */
+function describeScrapEntry(entry: ScrapEntry): string {
+  const size =
+    entry.materialType === "board"
+      ? `${formatStockLength(entry.stockLength)} ${entry.nominalSizeId}${entry.pieceId ? ` (${entry.pieceId})` : ""}`
+      : `${entry.width}" × ${entry.height}" ${entry.thickness} sheet`;
+  return entry.quantity > 1 ? `${entry.quantity} × ${size}` : size;
 }
 
 function App() {
+  // ── Project library ─────────────────────────────────────────────────────
+  const [library, setLibraryState] = useState<ProjectLibrary>(() =>
+    loadOrCreateProjectLibrary(),
+  );
+  const projectMeta = getActiveProject(library);
+  const activeProjectId = projectMeta.id;
+
+  /** Update the project library and persist it. */
+  const setLibrary = useCallback(
+    (next: ProjectLibrary | ((prev: ProjectLibrary) => ProjectLibrary)) => {
+      setLibraryState((prev) => {
+        const value = typeof next === "function" ? next(prev) : next;
+        saveProjectLibraryToStorage(value);
+        return value;
+      });
+    },
+    [],
+  );
+
+  /** Update the open project's name and timestamps, and persist them. */
+  const setProjectMeta = useCallback(
+    (update: (prev: ProjectMeta) => ProjectMeta) => {
+      setLibrary((prev) =>
+        updateProjectInLibrary(prev, getActiveProject(prev).id, update),
+      );
+    },
+    [setLibrary],
+  );
+
   // ── Groups state with undo/redo ─────────────────────────────────────────
   const [groups, setGroupsRaw] = useState<MaterialGroup[]>(
-    () => loadGroupsFromStorage() ?? [createDefaultGroup()]
+    () =>
+      loadGroupsFromStorage(projectGroupsStorageKey(activeProjectId)) ?? [
+        createDefaultGroup(),
+      ],
   );
   const [undoPast, setUndoPast] = useState<MaterialGroup[][]>([]);
   const [undoFuture, setUndoFuture] = useState<MaterialGroup[][]>([]);
 
-  /** Update groups, persist, and clear redo stack. */
+  /** Update groups, persist, mark the project modified, and clear redo stack. */
   const setGroups = useCallback(
     (next: MaterialGroup[] | ((prev: MaterialGroup[]) => MaterialGroup[])) => {
       setGroupsRaw((prev) => {
         const value = typeof next === "function" ? next(prev) : next;
-        saveGroupsToStorage(value);
+        saveGroupsToStorage(value, projectGroupsStorageKey(activeProjectId));
         return value;
       });
+      setProjectMeta((prev) => ({
+        ...prev,
+        modifiedAt: new Date().toISOString(),
+      }));
       setUndoFuture([]);
     },
-    []
+    [setProjectMeta, activeProjectId]
   );
 
   /** Snapshot the current groups into the undo stack before a destructive action. */
@@ -156,8 +255,8 @@ function App() {
     setUndoPast((p) => p.slice(0, -1));
     setUndoFuture((f) => [groups, ...f]);
     setGroupsRaw(previous);
-    saveGroupsToStorage(previous);
-  }, [undoPast, groups]);
+    saveGroupsToStorage(previous, projectGroupsStorageKey(activeProjectId));
+  }, [undoPast, groups, activeProjectId]);
 
   const redo = useCallback(() => {
     if (undoFuture.length === 0) return;
@@ -165,8 +264,8 @@ function App() {
     setUndoFuture((f) => f.slice(1));
     setUndoPast((p) => [...p, groups]);
     setGroupsRaw(next);
-    saveGroupsToStorage(next);
-  }, [undoFuture, groups]);
+    saveGroupsToStorage(next, projectGroupsStorageKey(activeProjectId));
+  }, [undoFuture, groups, activeProjectId]);
 
   // Keep refs so keyboard handler never goes stale
   const undoRef = useRef(undo);
@@ -192,24 +291,144 @@ function App() {
 
   // ── Group CRUD ───────────────────────────────────────────────────────────
   const [projectResult, setProjectResult] = useState<ProjectResult | null>(
-    null,
+    () => loadProjectResultFromStorage(activeProjectId),
+  );
+  const [scrapLedger, setScrapLedgerState] = useState<ScrapLedgerState>(
+    () => ({
+      inventory: loadScrapFromStorage(),
+      history: loadScrapHistoryFromStorage(),
+      redo: [],
+    }),
   );
-  const [scrapInventory, setScrapInventoryState] = useState<ScrapEntry[]>(() =>
-    loadScrapFromStorage(),
+  const scrapInventory = scrapLedger.inventory;
+  const [trackScrapPieces, setTrackScrapPieces] = useState(() =>
+    loadScrapTrackingFromStorage(),
   );
   const [useScrapWhenGenerating, setUseScrapWhenGenerating] = useState(true);
   const [scrapModalOpen, setScrapModalOpen] = useState(false);
+  const [priceTable, setPriceTableState] = useState<PriceTable>(() =>
+    loadPriceTableFromStorage(),
+  );
+  const [pricesModalOpen, setPricesModalOpen] = useState(false);
+  const [optimizationGoal, setOptimizationGoal] =
+    useState<OptimizationObjective>("boards");
+  const [searchEffort, setSearchEffort] = useState<SearchEffort>("standard");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generationProgress, setGenerationProgress] =
+    useState<OptimizationProgress | null>(null);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [theme, setTheme] = useState<ThemeMode>(() => getInitialTheme());
   const [lastRunScrapNote, setLastRunScrapNote] = useState<string | null>(null);
+  const [proposedOffcuts, setProposedOffcuts] = useState<ScrapEntry[]>(() =>
+    projectResult ? collectOffcuts(projectResult) : [],
+  );
+  /** Ledger transaction of the last plan committed in this session. */
+  const [lastCommitId, setLastCommitId] = useState<string | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  const [importReport, setImportReport] = useState<{
+    fileName: string;
+    report: ImportReport;
+    failed: boolean;
+  } | null>(null);
   const importInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [csvImport, setCsvImport] = useState<{
+    fileName: string;
+    text: string;
+  } | null>(null);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  const [sharedLink, setSharedLink] = useState<{
+    project: Project | null;
+    report: ImportReport;
+  } | null>(null);
+  const [storageFailure, setStorageFailure] =
+    useState<StorageWriteFailure | null>(null);
+  /** The open project's groups as another tab saved them over this tab's changes. */
+  const [syncConflict, setSyncConflict] = useState<MaterialGroup[] | null>(
+    null,
+  );
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+
+  useEffect(() => onStorageError(setStorageFailure), []);
 
+  /**
+   * The latest scrap ledger, ahead of the next render. Updates are computed from it rather than
+   * in a state updater: they record random ids and timestamps and save to storage, which must
+   * happen once even when React runs updaters twice.
+   */
+  const scrapLedgerRef = useRef(scrapLedger);
+
+  /** Replace the scrap ledger without saving it, e.g. with what another tab saved. */
+  const adoptScrapLedger = (value: ScrapLedgerState) => {
+    scrapLedgerRef.current = value;
+    setScrapLedgerState(value);
+  };
+
+  /** Update the scrap ledger and persist inventory and history. */
+  const updateScrapLedger = (
+    update: (prev: ScrapLedgerState) => ScrapLedgerState,
+  ) => {
+    const prev = scrapLedgerRef.current;
+    const value = update(prev);
+    if (value === prev) return;
+    adoptScrapLedger(value);
+    saveScrapToStorage(value.inventory);
+    saveScrapHistoryToStorage(value.history);
+  };
+
+  /**
+   * Replace the inventory, recording the difference as one ledger transaction.
+   * While pieces are tracked, new boards are split into labelled pieces.
+   */
   const setScrapInventory = (
     next: ScrapEntry[] | ((prev: ScrapEntry[]) => ScrapEntry[]),
+    details?: { note?: string },
   ) => {
-    setScrapInventoryState((prev) => {
+    updateScrapLedger((prev) => {
+      const value = typeof next === "function" ? next(prev.inventory) : next;
+      const tracked = trackScrapPieces
+        ? assignScrapPieceIds(value, new Date(), usedPieceIds(prev))
+        : value;
+      return recordScrapTransaction(
+        prev,
+        diffScrapInventories(prev.inventory, tracked),
+        details,
+      );
+    });
+  };
+
+  const setScrapTracking = (enabled: boolean) => {
+    setTrackScrapPieces(enabled);
+    saveScrapTrackingToStorage(enabled);
+    updateScrapLedger((prev) =>
+      recordScrapTransaction(
+        prev,
+        diffScrapInventories(
+          prev.inventory,
+          enabled
+            ? assignScrapPieceIds(
+                prev.inventory,
+                new Date(),
+                usedPieceIds(prev),
+              )
+            : untrackScrapPieces(prev.inventory),
+        ),
+        {
+          note: enabled
+            ? "Labelled individual pieces"
+            : "Merged pieces back into counts",
+        },
+      ),
+    );
+  };
+
+  const setPriceTable = (
+    next: PriceTable | ((prev: PriceTable) => PriceTable),
+  ) => {
+    setPriceTableState((prev) => {
       const value = typeof next === "function" ? next(prev) : next;
-      saveScrapToStorage(value);
+      savePriceTableToStorage(value);
       return value;
     });
   };
@@ -225,20 +444,245 @@ function App() {
     setGroups((prev) => [...prev, createBoardGroup()]);
   };
 
+  const addSheetGroup = () => {
+    setGroups((prev) => [...prev, createSheetGroup()]);
+  };
+
   const removeGroup = (id: string) => {
     if (groups.length <= 1) return;
     snapshotForUndo();
     setGroups((prev) => prev.filter((g) => g.id !== id));
   };
 
+  // ── Projects ─────────────────────────────────────────────────────────────
+  /** Replace the per-project state on screen with another project's groups and result. */
+  const showProject = (
+    projectGroups: MaterialGroup[],
+    result: ProjectResult | null,
+  ) => {
+    // A run belongs to the project it was started for
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    setIsGenerating(false);
+    setGenerationProgress(null);
+    setGenerationError(null);
+    setGroupsRaw(projectGroups);
+    setUndoPast([]);
+    setUndoFuture([]);
+    setProjectResult(result);
+    setProposedOffcuts(result ? collectOffcuts(result) : []);
+    setLastRunScrapNote(null);
+    setSyncConflict(null);
+  };
+
+  /** Save a new project's groups and result, add it to the library and open it. */
+  const addProject = (
+    entry: ProjectLibraryEntry,
+    projectGroups: MaterialGroup[],
+    result: ProjectResult | null = null,
+  ) => {
+    saveGroupsToStorage(projectGroups, projectGroupsStorageKey(entry.id));
+    saveProjectResultToStorage(entry.id, result);
+    setLibrary((prev) => addProjectToLibrary(prev, entry));
+    showProject(projectGroups, result);
+  };
+
+  const openProject = (id: string) => {
+    if (id === activeProjectId) return;
+    showProject(
+      loadGroupsFromStorage(projectGroupsStorageKey(id)) ?? [
+        createDefaultGroup(),
+      ],
+      loadProjectResultFromStorage(id),
+    );
+    setLibrary((prev) => ({ ...prev, activeId: id }));
+  };
+
+  const createProject = () => {
+    addProject(createLibraryEntry(), [createDefaultGroup()]);
+  };
+
+  const duplicateProject = () => {
+    const name = duplicateProjectName(
+      projectMeta.name,
+      library.projects.map((p) => p.name),
+    );
+    addProject(createLibraryEntry(name), groups, projectResult);
+  };
+
+  const deleteProject = () => {
+    if (library.projects.length <= 1) return;
+    if (
+      !window.confirm(
+        `Delete "${projectMeta.name}"? Its groups and last result are removed; the scrap inventory is kept.`,
+      )
+    ) {
+      return;
+    }
+    const next = removeProjectFromLibrary(library, activeProjectId);
+    removeProjectDataFromStorage(activeProjectId);
+    showProject(
+      loadGroupsFromStorage(projectGroupsStorageKey(next.activeId)) ?? [
+        createDefaultGroup(),
+      ],
+      loadProjectResultFromStorage(next.activeId),
+    );
+    setLibrary(next);
+  };
+
+  // ── Other tabs ───────────────────────────────────────────────────────────
+  /**
+   * Follow what another tab saved. The open project's groups are adopted unless this tab's
+   * copy had changed too, in which case the user picks a version. Scrap ledgers saved at the
+   * same time are merged so consumption recorded in either tab counts.
+   */
+  const handleStorageChange = (change: StorageChange) => {
+    if (change.key === PROJECT_LIBRARY_STORAGE_KEY) {
+      const stored = loadProjectLibraryFromStorage();
+      if (!stored) return;
+      const ids = new Set(stored.projects.map((p) => p.id));
+      // Projects this tab added while the other tab saved its own list are kept
+      const projects = change.diverged
+        ? [
+            ...stored.projects,
+            ...library.projects.filter((p) => !ids.has(p.id)),
+          ]
+        : stored.projects;
+      if (projects.some((p) => p.id === activeProjectId)) {
+        const next = { activeId: activeProjectId, projects };
+        if (change.diverged) setLibrary(next);
+        else setLibraryState(next);
+        return;
+      }
+      setSyncNotice(
+        `"${projectMeta.name}" was deleted in another tab, so "${getActiveProject(stored).name}" is open instead.`,
+      );
+      showProject(
+        loadGroupsFromStorage(projectGroupsStorageKey(stored.activeId)) ?? [
+          createDefaultGroup(),
+        ],
+        loadProjectResultFromStorage(stored.activeId),
+      );
+      setLibraryState(stored);
+    } else if (change.key === projectGroupsStorageKey(activeProjectId)) {
+      // With localStorage, storage may already hold this tab's own later write
+      const stored = parseStoredGroups(change.value);
+      if (!stored) return;
+      if (change.diverged || syncConflict) {
+        setSyncConflict(stored);
+        return;
+      }
+      // Keep half-typed cuts and pieces; drafts are never saved
+      const drafts = new Map(groups.map((g) => [g.id, g]));
+      setUndoPast((prev) => [...prev, groups]);
+      setUndoFuture([]);
+      setGroupsRaw(
+        stored.map((g) => {
+          const local = drafts.get(g.id);
+          return local
+            ? {
+                ...g,
+                draftCut: local.draftCut,
+                draftSheetPiece: local.draftSheetPiece,
+              }
+            : g;
+        }),
+      );
+    } else if (change.key === projectResultStorageKey(activeProjectId)) {
+      const result = loadProjectResultFromStorage(activeProjectId);
+      setProjectResult(result);
+      setProposedOffcuts(result ? collectOffcuts(result) : []);
+    } else if (change.key === SCRAP_STORAGE_KEY) {
+      otherTabScrapRef.current = change.value;
+    } else if (change.key === SCRAP_LEDGER_STORAGE_KEY) {
+      // The other tab saves its inventory just before its history. Use the values it sent:
+      // with localStorage, storage may already hold this tab's own later write.
+      const stored = {
+        inventory:
+          otherTabScrapRef.current === undefined
+            ? loadScrapFromStorage()
+            : parseStoredScrap(otherTabScrapRef.current),
+        history: parseStoredScrapHistory(change.value),
+      };
+      otherTabScrapRef.current = undefined;
+      if (change.diverged) {
+        updateScrapLedger((prev) => mergeScrapLedgers(prev, stored));
+      } else {
+        adoptScrapLedger({ ...stored, redo: [] });
+      }
+    } else if (change.key === SCRAP_TRACKING_STORAGE_KEY) {
+      setTrackScrapPieces(change.value === "true");
+    } else if (change.key === PRICES_STORAGE_KEY) {
+      setPriceTableState(loadPriceTableFromStorage());
+    }
+  };
+
+  /** The scrap inventory another tab just saved, until its history arrives. */
+  const otherTabScrapRef = useRef<string | null | undefined>(undefined);
+  const storageChangeRef = useRef(handleStorageChange);
+  storageChangeRef.current = handleStorageChange;
+
+  useEffect(
+    () => onStorageChange((change) => storageChangeRef.current(change)),
+    [],
+  );
+
+  /** Settle a sync conflict by saving the chosen version, which the other tab then adopts. */
+  const resolveSyncConflict = (keep: MaterialGroup[]) => {
+    if (keep !== groups) {
+      snapshotForUndo();
+      setGroupsRaw(keep);
+    }
+    saveGroupsToStorage(keep, projectGroupsStorageKey(activeProjectId));
+    setSyncConflict(null);
+  };
+
   // ── Import / Export ──────────────────────────────────────────────────────
+  /** The open project with the current run settings, as exported and shared. */
+  const currentProject = (): Project => ({
+    ...projectMeta,
+    groups,
+    settings: {
+      objective: optimizationGoal,
+      useScrap: useScrapWhenGenerating,
+    },
+  });
+
+  /**
+   * Open an imported or shared project as a new project, so the open one is never overwritten.
+   * Its settings replace the current ones and any scrap it carries joins the inventory.
+   */
+  const openImportedProject = (imported: Project) => {
+    addProject(
+      {
+        ...createLibraryEntry(imported.name),
+        createdAt: imported.createdAt,
+        modifiedAt: imported.modifiedAt,
+      },
+      imported.groups,
+    );
+    if (imported.settings?.objective) {
+      setOptimizationGoal(imported.settings.objective);
+    }
+    if (imported.settings?.useScrap !== undefined) {
+      setUseScrapWhenGenerating(imported.settings.useScrap);
+    }
+    if (imported.scrap) {
+      const scrap = imported.scrap;
+      setScrapInventory((prev) => mergeScrapEntries([...prev, ...scrap]), {
+        note: `Imported with ${imported.name}`,
+      });
+    }
+  };
+
   const exportProject = () => {
-    const json = JSON.stringify(serializeGroups(groups), null, 2);
+    const file = createProjectFile(currentProject());
+    const json = JSON.stringify(file, null, 2);
     const blob = new Blob([json], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = "cut-plan.json";
+    a.download = projectFileName(projectMeta.name);
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -248,14 +692,30 @@ function App() {
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (ev) => {
+      const report = createImportReport();
+      const showReport = (failed: boolean) =>
+        setImportReport(
+          hasImportIssues(report)
+            ? { fileName: file.name, report, failed }
+            : null,
+        );
       try {
         const text = ev.target?.result;
         if (typeof text !== "string") throw new Error("Could not read file.");
         const parsed = JSON.parse(text) as unknown;
-        const imported = parseGroupsFromJSON(parsed);
-        if (!imported) throw new Error("File does not contain valid project data.");
-        snapshotForUndo();
-        setGroups(imported);
+        const version = readProjectFormatVersion(parsed);
+        if (version !== null && version > PROJECT_FORMAT_VERSION) {
+          throw new Error(
+            "This file was saved by a newer version of the app. Update the app to open it.",
+          );
+        }
+        const imported = parseProjectFile(parsed, new Date(), report);
+        if (!imported) {
+          showReport(true);
+          throw new Error("File does not contain valid project data.");
+        }
+        showReport(false);
+        openImportedProject(imported);
         setImportError(null);
       } catch (err) {
         setImportError(err instanceof Error ? err.message : "Import failed.");
@@ -266,8 +726,90 @@ function App() {
     e.target.value = "";
   };
 
-  const hasCuts = groups.some(
-    (g) => g.materialType === "board" && g.cuts.length > 0,
+  const handleCsvFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      const text = ev.target?.result;
+      if (typeof text !== "string") {
+        setImportError("Could not read file.");
+        return;
+      }
+      setImportError(null);
+      setCsvImport({ fileName: file.name, text });
+    };
+    reader.readAsText(file);
+    // Reset so the same file can be re-imported
+    e.target.value = "";
+  };
+
+  /** Open the groups from a CSV cut list as a new project named after the file. */
+  const importCsvGroups = (csvGroups: MaterialGroup[]) => {
+    if (!csvImport) return;
+    const name = csvImport.fileName.replace(/\.[^.]+$/, "");
+    addProject(createLibraryEntry(name || undefined), csvGroups);
+    setCsvImport(null);
+  };
+
+  // ── Share links ──────────────────────────────────────────────────────────
+  const copyShareLink = async () => {
+    try {
+      const link = await createShareLink(
+        currentProject(),
+        window.location.href,
+      );
+      await navigator.clipboard.writeText(link);
+      setShareStatus("Share link copied.");
+    } catch {
+      setShareStatus(
+        "Could not copy the share link. Export the project instead.",
+      );
+    }
+  };
+
+  // Offer projects arriving in the URL fragment, on load and when a link is pasted into this tab
+  useEffect(() => {
+    const checkFragment = () => {
+      const payload = readSharePayload(window.location.hash);
+      if (!payload) return;
+      const report = createImportReport();
+      void decodeSharePayload(payload, new Date(), report).then((project) =>
+        setSharedLink({ project, report }),
+      );
+    };
+    checkFragment();
+    window.addEventListener("hashchange", checkFragment);
+    return () => window.removeEventListener("hashchange", checkFragment);
+  }, []);
+
+  /** Forget the shared link and drop it from the address bar so a reload doesn't offer it again. */
+  const closeSharedLink = () => {
+    setSharedLink(null);
+    window.history.replaceState(
+      null,
+      "",
+      window.location.pathname + window.location.search,
+    );
+  };
+
+  const openSharedProject = () => {
+    if (!sharedLink?.project) return;
+    openImportedProject(sharedLink.project);
+    setImportReport(
+      hasImportIssues(sharedLink.report)
+        ? {
+            fileName: "the shared link",
+            report: sharedLink.report,
+            failed: false,
+          }
+        : null,
+    );
+    closeSharedLink();
+  };
+
+  const hasCuts = groups.some((g) =>
+    g.materialType === "sheet" ? g.sheetPieces.length > 0 : g.cuts.length > 0,
   );
   const everyGroupHasValidBoardSpec = groups.every(
     (g) =>
@@ -275,9 +817,14 @@ function App() {
       (g.boardSpecId && STOCK_PROFILES.some((p) => p.id === g.boardSpecId)),
   );
   const canGenerate = hasCuts && everyGroupHasValidBoardSpec;
+  const wantsLowestCost = groups.some(
+    (g) =>
+      g.materialType === "board" &&
+      (g.optimizationGoal ?? optimizationGoal) === "cost",
+  );
   const generationErrors: string[] = [];
   if (!hasCuts)
-    generationErrors.push("Add at least one cut to generate a plan.");
+    generationErrors.push("Add at least one cut or sheet piece to generate a plan.");
   if (!everyGroupHasValidBoardSpec)
     generationErrors.push("Select a board spec for every material group.");
 
@@ -305,80 +852,201 @@ function App() {
   const toggleTheme = () => {
     setTheme((prev) => {
       const next = prev === "dark" ? "light" : "dark";
-      try {
-        localStorage.setItem(THEME_STORAGE_KEY, next);
-      } catch {
-        // ignore
-      }
+      getAppStorage().setItem(THEME_STORAGE_KEY, next);
       return next;
     });
   };
 
-  const handleGenerate = () => {
-    const result = generateProjectResult(groups, {
-      scrap: useScrapWhenGenerating ? scrapInventory : [],
-    });
+  const cancelGenerate = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const handleGenerate = async () => {
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setIsGenerating(true);
+    setGenerationProgress(null);
+    setGenerationError(null);
+
+    let result: ProjectResult | null;
+    try {
+      result = await runOptimization(groups, {
+        scrap: useScrapWhenGenerating ? scrapInventory : [],
+        priceTable,
+        objective: optimizationGoal,
+        exactSearch:
+          SEARCH_EFFORT_OPTIONS.find((o) => o.id === searchEffort)
+            ?.exactSearch ?? {},
+        onProgress: setGenerationProgress,
+        signal: controller.signal,
+      });
+    } catch (err) {
+      result = null;
+      setGenerationError(
+        err instanceof Error ? err.message : "Optimization failed.",
+      );
+    }
+    // A newer run (or cancel) owns the UI state now
+    if (generationAbortRef.current !== controller) return;
+    generationAbortRef.current = null;
+    setIsGenerating(false);
+    setGenerationProgress(null);
+    if (!result) return;
+
     setProjectResult(result);
+    saveProjectResultToStorage(activeProjectId, result);
+    setProposedOffcuts(collectOffcuts(result));
 
+    // Preview only: the inventory changes when the plan is committed
     if (!useScrapWhenGenerating) {
       setLastRunScrapNote("Scrap inventory was not used for this run.");
       return;
     }
-
-    const boardScrap = scrapInventory.filter(
-      (s): s is Extract<ScrapEntry, { materialType: "board" }> =>
-        s.materialType === "board",
-    );
-    const nonBoardScrap = scrapInventory.filter(
-      (s) => s.materialType !== "board",
+    const usedCount = countScrap(findConsumedScrap(result));
+    setLastRunScrapNote(
+      usedCount === 0
+        ? "No stored scrap is used by this plan."
+        : `This plan uses ${usedCount} scrap piece${usedCount === 1 ? "" : "s"} from inventory. Commit the plan to take ${usedCount === 1 ? "it" : "them"} out.`,
     );
-    const usedFromScrap = new Map<string, number>();
-
-    for (const diagram of result.diagrams) {
-      if (diagram.materialType !== "board" || !diagram.boardSpecId) continue;
-      for (const board of diagram.boards) {
-        if (board.source === "scrap") {
-          const key = `${diagram.boardSpecId}:${board.stockLength}`;
-          usedFromScrap.set(key, (usedFromScrap.get(key) ?? 0) + 1);
-        }
-      }
-    }
-
-    const remainingBoardScrap = boardScrap
-      .map((entry) => {
-        const key = `${entry.nominalSizeId}:${entry.stockLength}`;
-        const usedQty = usedFromScrap.get(key) ?? 0;
-        const nextQty = entry.quantity - usedQty;
-        return nextQty > 0 ? { ...entry, quantity: nextQty } : null;
-      })
-      .filter(
-        (entry): entry is Extract<ScrapEntry, { materialType: "board" }> =>
-          entry !== null,
-      );
+  };
 
-    const nextScrap = mergeScrapEntries([
-      ...nonBoardScrap,
-      ...remainingBoardScrap,
-    ]);
-    setScrapInventory(nextScrap);
+  const isPlanCommitted =
+    projectResult?.commitTransactionId !== undefined &&
+    isScrapTransactionInEffect(scrapLedger, projectResult.commitTransactionId);
+  /**
+   * The commit Roll back reverts: the last one made here while it is still in effect (not undone
+   * or rolled back in the ledger), else the shown plan's own commit.
+   */
+  const rollbackTransactionId =
+    lastCommitId !== null &&
+    isScrapTransactionInEffect(scrapLedger, lastCommitId)
+      ? lastCommitId
+      : isPlanCommitted
+        ? projectResult.commitTransactionId
+        : undefined;
 
-    const usedCount = [...usedFromScrap.values()].reduce(
-      (sum, n) => sum + n,
-      0,
+  const commitCurrentPlan = () => {
+    if (!projectResult || isPlanCommitted) return;
+    const produced = trackScrapPieces
+      ? assignScrapPieceIds(
+          proposedOffcuts,
+          new Date(),
+          usedPieceIds(scrapLedger),
+        )
+      : proposedOffcuts;
+    const { commit, missing } = commitPlan(
+      scrapInventory,
+      projectResult,
+      produced,
     );
-    if (usedCount === 0) {
-      setLastRunScrapNote("No stored scrap was consumed in this run.");
-      return;
-    }
+    const planLabel = projectResult.diagrams
+      .map((d) => d.groupLabel)
+      .join(", ");
+    const transactionId = createScrapTransactionId();
+    updateScrapLedger((prev) =>
+      recordScrapTransaction(
+        prev,
+        [
+          ...commit.consumed.map((entry) => ({
+            kind: "consumed" as const,
+            entry,
+          })),
+          ...commit.produced.map((entry) => ({
+            kind: "produced" as const,
+            entry,
+          })),
+        ],
+        { id: transactionId, planLabel },
+      ),
+    );
+    // Saved with the result, so the plan stays committed after a reload or in another tab
+    const committed = { ...projectResult, commitTransactionId: transactionId };
+    setProjectResult(committed);
+    saveProjectResultToStorage(activeProjectId, committed);
+    setLastCommitId(transactionId);
+    const used = countScrap(commit.consumed);
+    const added = countScrap(commit.produced);
+    const short = countScrap(missing);
+    // The plan cuts from scrap the inventory no longer holds (used or removed since it was made)
+    const mismatch =
+      short > 0
+        ? ` ${short} scrap piece${short === 1 ? "" : "s"} the plan cuts from ${short === 1 ? "was" : "were"} not in inventory: ${missing.map(describeScrapEntry).join(", ")}. Regenerate the plan before cutting.`
+        : "";
     setLastRunScrapNote(
-      `Used ${usedCount} scrap board${usedCount === 1 ? "" : "s"} from inventory.`,
+      `Plan committed: used ${used} scrap piece${used === 1 ? "" : "s"}, added ${added} offcut${added === 1 ? "" : "s"} to inventory.${mismatch}`,
+    );
+  };
+
+  /** Roll back through the ledger, so a commit already undone there is not reverted twice. */
+  const rollbackLastCommit = () => {
+    if (!rollbackTransactionId) return;
+    const planLabel = scrapLedger.history.find(
+      (tx) => tx.id === rollbackTransactionId,
+    )?.planLabel;
+    updateScrapLedger((prev) =>
+      revertScrapTransaction(prev, rollbackTransactionId, {
+        note: planLabel ? `Rolled back plan: ${planLabel}` : "Rolled back plan",
+      }),
     );
+    setLastCommitId(null);
+    setLastRunScrapNote("Last commit rolled back; scrap inventory restored.");
   };
 
   return (
     <div className="min-h-screen bg-slate-100 dark:bg-slate-900 py-6 px-4 sm:p-6 lg:py-8 lg:px-8 print:bg-white print:py-0 print:px-0 overflow-x-hidden">
       <div className="w-full mx-auto transition-all duration-200 print:max-w-none print:safe-inset print:grid-cols-1 lg:max-w-[1920px] lg:grid lg:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)] lg:gap-x-10 lg:items-start">
         <div className="space-y-6 print:hidden lg:space-y-8">
+          {storageFailure && (
+            <div
+              role="alert"
+              className="flex items-start justify-between gap-3 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800 dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-300"
+            >
+              <p>
+                {`Your latest changes could not be saved (${storageFailure.message}). `}
+                Export the project to keep a copy, or free up browser storage
+                and keep editing to try again.
+              </p>
+              <button
+                type="button"
+                onClick={() => setStorageFailure(null)}
+                className="shrink-0 rounded px-1 hover:bg-black/5 dark:hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-slate-400"
+                aria-label="Dismiss storage error"
+              >
+                ×
+              </button>
+            </div>
+          )}
+          {syncConflict && (
+            <SyncConflictNotice
+              projectName={projectMeta.name}
+              onUseTheirs={() => resolveSyncConflict(syncConflict)}
+              onKeepMine={() => resolveSyncConflict(groups)}
+            />
+          )}
+          {syncNotice && (
+            <div
+              role="status"
+              className="flex items-start justify-between gap-3 rounded-lg border border-sky-200 bg-sky-50 px-4 py-3 text-sm text-sky-900 dark:border-sky-900/60 dark:bg-sky-950/40 dark:text-sky-200"
+            >
+              <p>{syncNotice}</p>
+              <button
+                type="button"
+                onClick={() => setSyncNotice(null)}
+                className="shrink-0 rounded px-1 hover:bg-black/5 dark:hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-slate-400"
+                aria-label="Dismiss"
+              >
+                ×
+              </button>
+            </div>
+          )}
+          {sharedLink && (
+            <SharedProjectNotice
+              project={sharedLink.project}
+              onOpen={openSharedProject}
+              onDismiss={closeSharedLink}
+            />
+          )}
           <header className="text-center lg:text-left lg:pt-1 space-y-3">
             <div>
               <h1 className="text-2xl sm:text-3xl lg:text-3xl font-bold text-slate-900 dark:text-slate-100">
@@ -463,6 +1131,20 @@ function App() {
                 )}
               </button>
             </div>
+            <ProjectPicker
+              library={library}
+              onOpen={openProject}
+              onCreate={createProject}
+              onDuplicate={duplicateProject}
+              onDelete={deleteProject}
+              onRename={(name) =>
+                setProjectMeta((prev) => ({
+                  ...prev,
+                  name,
+                  modifiedAt: new Date().toISOString(),
+                }))
+              }
+            />
           </header>
 
           <div className="space-y-6 lg:space-y-8">
@@ -478,23 +1160,42 @@ function App() {
             ))}
           </div>
 
-          <button
-            type="button"
-            onClick={addMaterialGroup}
-            className="inline-flex w-full lg:w-auto items-center justify-center gap-2 rounded-lg border border-dashed border-slate-300 dark:border-slate-500 bg-white dark:bg-slate-800/80 px-4 py-3 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 dark:focus:ring-offset-slate-900 print:hidden"
-          >
-            <svg
-              width="16"
-              height="16"
-              viewBox="0 0 16 16"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
+          <div className="flex flex-col gap-2 lg:flex-row print:hidden">
+            <button
+              type="button"
+              onClick={addMaterialGroup}
+              className="inline-flex w-full lg:w-auto items-center justify-center gap-2 rounded-lg border border-dashed border-slate-300 dark:border-slate-500 bg-white dark:bg-slate-800/80 px-4 py-3 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 dark:focus:ring-offset-slate-900 print:hidden"
             >
-              <path d="M8 3v10M3 8h10" />
-            </svg>
-            Add material group
-          </button>
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 16 16"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M8 3v10M3 8h10" />
+              </svg>
+              Add board group
+            </button>
+            <button
+              type="button"
+              onClick={addSheetGroup}
+              className="inline-flex w-full lg:w-auto items-center justify-center gap-2 rounded-lg border border-dashed border-slate-300 dark:border-slate-500 bg-white dark:bg-slate-800/80 px-4 py-3 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 dark:focus:ring-offset-slate-900 print:hidden"
+            >
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 16 16"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M8 3v10M3 8h10" />
+              </svg>
+              Add sheet group
+            </button>
+          </div>
 
           <div className="flex flex-wrap items-center gap-2 print:hidden">
             <button
@@ -512,7 +1213,23 @@ function App() {
             </button>
             <button
               type="button"
-              onClick={() => { setImportError(null); importInputRef.current?.click(); }}
+              onClick={() => void copyShareLink()}
+              className="inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-3 py-2 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 focus:outline-none focus:ring-2 focus:ring-slate-400"
+              title="Copy a link that opens this project"
+            >
+              <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
+                <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
+              </svg>
+              Copy share link
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setImportError(null);
+                setImportReport(null);
+                importInputRef.current?.click();
+              }}
               className="inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-3 py-2 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 focus:outline-none focus:ring-2 focus:ring-slate-400"
               title="Import project from JSON"
             >
@@ -523,6 +1240,23 @@ function App() {
               </svg>
               Import
             </button>
+            <button
+              type="button"
+              onClick={() => {
+                setImportError(null);
+                setImportReport(null);
+                csvInputRef.current?.click();
+              }}
+              className="inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-3 py-2 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 focus:outline-none focus:ring-2 focus:ring-slate-400"
+              title="Import a cut list from a CSV or TSV spreadsheet export, or an OpenCutList export from SketchUp"
+            >
+              <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                <polyline points="17 8 12 3 7 8" />
+                <line x1="12" y1="3" x2="12" y2="15" />
+              </svg>
+              Import CSV
+            </button>
             <input
               ref={importInputRef}
               type="file"
@@ -531,9 +1265,28 @@ function App() {
               onChange={handleImportFile}
               aria-label="Import project JSON file"
             />
+            <input
+              ref={csvInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt"
+              className="hidden"
+              onChange={handleCsvFile}
+              aria-label="Import cut list CSV file"
+            />
+            {shareStatus && (
+              <p className="text-xs text-slate-600 dark:text-slate-400">{shareStatus}</p>
+            )}
             {importError && (
               <p className="text-xs text-red-600 dark:text-red-400">{importError}</p>
             )}
+            {importReport && (
+              <ImportReportNotice
+                fileName={importReport.fileName}
+                report={importReport.report}
+                failed={importReport.failed}
+                onDismiss={() => setImportReport(null)}
+              />
+            )}
           </div>
         </div>
 
@@ -568,6 +1321,26 @@ function App() {
                   </span>
                 )}
               </button>
+              <button
+                type="button"
+                onClick={() => setPricesModalOpen(true)}
+                className="inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-3 py-2.5 min-h-[44px] text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+              >
+                <svg
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z" />
+                  <line x1="7" y1="7" x2="7.01" y2="7" />
+                </svg>
+                Stock prices
+              </button>
               <label className="inline-flex items-center gap-2 cursor-pointer">
                 <input
                   type="checkbox"
@@ -579,7 +1352,52 @@ function App() {
                   Use scrap for this run
                 </span>
               </label>
+              <label className="inline-flex items-center gap-2">
+                <span className="text-sm text-slate-700 dark:text-slate-300">
+                  Goal
+                </span>
+                <select
+                  value={optimizationGoal}
+                  onChange={(e) =>
+                    setOptimizationGoal(e.target.value as OptimizationObjective)
+                  }
+                  className={`px-2 py-1.5 text-sm ${fieldClassName}`}
+                >
+                  {OPTIMIZATION_OBJECTIVE_OPTIONS.map(({ id, name }) => (
+                    <option key={id} value={id}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label
+                className="inline-flex items-center gap-2"
+                title="How long to search for layouts that use fewer boards. Quick uses the fast heuristic only; Thorough searches ten times longer."
+              >
+                <span className="text-sm text-slate-700 dark:text-slate-300">
+                  Search
+                </span>
+                <select
+                  value={searchEffort}
+                  onChange={(e) =>
+                    setSearchEffort(e.target.value as SearchEffort)
+                  }
+                  className={`px-2 py-1.5 text-sm ${fieldClassName}`}
+                >
+                  {SEARCH_EFFORT_OPTIONS.map(({ id, name }) => (
+                    <option key={id} value={id}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
+            {wantsLowestCost && Object.keys(priceTable).length === 0 && (
+              <p className="text-sm text-amber-700 dark:text-amber-300">
+                No stock prices yet. Add prices to minimize cost; until then the
+                plan minimizes board count.
+              </p>
+            )}
             <p className="text-sm text-slate-600 dark:text-slate-400">
               Assumptions: {DEFAULT_KERF_INCHES}" kerf (1/8″) per cut, max board
               length preference defaults to{" "}
@@ -592,35 +1410,68 @@ function App() {
                 ))}
               </ul>
             )}
-            <button
-              type="button"
-              onClick={handleGenerate}
-              disabled={!canGenerate}
-              className="w-full inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white font-semibold px-6 py-3.5 min-h-[48px] text-base focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-emerald-600 touch-manipulation"
-            >
-              <svg
-                width="20"
-                height="20"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
+            {generationError && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {generationError}
+              </p>
+            )}
+            {isGenerating ? (
+              <div className="flex items-center gap-2">
+                <div
+                  className="flex-1 inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-600/80 text-white font-semibold px-6 py-3.5 min-h-[48px] text-base"
+                  role="status"
+                  aria-live="polite"
+                >
+                  {generationProgress
+                    ? `Optimizing ${generationProgress.currentGroupLabel} (${generationProgress.completedGroups + 1} of ${generationProgress.totalGroups})…`
+                    : "Optimizing…"}
+                </div>
+                <button
+                  type="button"
+                  onClick={cancelGenerate}
+                  className="inline-flex items-center justify-center rounded-lg bg-slate-100 dark:bg-slate-700/60 px-4 py-3.5 min-h-[48px] text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={handleGenerate}
+                disabled={!canGenerate}
+                className="w-full inline-flex items-center justify-center gap-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white font-semibold px-6 py-3.5 min-h-[48px] text-base focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-emerald-600 touch-manipulation"
               >
-                <path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z" />
-                <polyline points="14 2 14 8 20 8" />
-                <line x1="16" y1="13" x2="8" y2="13" />
-                <line x1="16" y1="17" x2="8" y2="17" />
-                <line x1="10" y1="9" x2="8" y2="9" />
-              </svg>
-              Generate plan
-            </button>
+                <svg
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M14.5 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7.5L14.5 2z" />
+                  <polyline points="14 2 14 8 20 8" />
+                  <line x1="16" y1="13" x2="8" y2="13" />
+                  <line x1="16" y1="17" x2="8" y2="17" />
+                  <line x1="10" y1="9" x2="8" y2="9" />
+                </svg>
+                Generate plan
+              </button>
+            )}
           </section>
           {projectResult ? (
             <UnifiedResultsView
               result={projectResult}
+              projectName={projectMeta.name}
               scrapNote={lastRunScrapNote}
+              proposedOffcuts={proposedOffcuts}
+              isCommitted={isPlanCommitted}
+              canRollback={rollbackTransactionId !== undefined}
+              onCommitPlan={commitCurrentPlan}
+              onDiscardOffcuts={() => setProposedOffcuts([])}
+              onRollbackCommit={rollbackLastCommit}
             />
           ) : (
             <div className="print:hidden px-1 py-2">
@@ -636,10 +1487,35 @@ function App() {
           <ScrapInventoryModal
             scrapInventory={scrapInventory}
             setScrapInventory={setScrapInventory}
+            history={scrapLedger.history}
+            canUndo={scrapLedger.history.length > 0}
+            canRedo={scrapLedger.redo.length > 0}
+            onUndo={() => updateScrapLedger(undoScrapTransaction)}
+            onRedo={() => updateScrapLedger(redoScrapTransaction)}
+            trackPieces={trackScrapPieces}
+            onTrackPiecesChange={setScrapTracking}
             onClose={() => setScrapModalOpen(false)}
             formatStockLength={formatStockLength}
           />
         )}
+
+        {pricesModalOpen && (
+          <StockPricesModal
+            priceTable={priceTable}
+            setPriceTable={setPriceTable}
+            groups={groups}
+            onClose={() => setPricesModalOpen(false)}
+          />
+        )}
+
+        {csvImport && (
+          <CsvImportModal
+            fileName={csvImport.fileName}
+            text={csvImport.text}
+            onImport={importCsvGroups}
+            onClose={() => setCsvImport(null)}
+          />
+        )}
       </div>
       <footer className="print:hidden mt-8 text-center text-xs text-slate-500 dark:text-slate-400">
         <p>
@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from "react"
+import {
+  CUT_LIST_FIELDS,
+  guessColumnMapping,
+  importCutList,
+  parseDelimitedText,
+  type ColumnMapping,
+  type CutListField,
+} from "../lib/csv-import"
+import type { MaterialGroup } from "../lib/material-groups"
+import { importOpenCutList, isOpenCutListExport } from "../lib/opencutlist-import"
+import { STOCK_PROFILES } from "../lib/stock-profiles"
+import { fieldClassName } from "./uiClasses"
+
+/**
+ * Map the columns of a CSV/TSV cut list to fields, preview the result and import it. OpenCutList
+ * exports are recognised by their header and need no mapping.
+ */
+export function CsvImportModal({
+  fileName,
+  text,
+  onImport,
+  onClose,
+}: {
+  fileName: string
+  text: string
+  onImport: (groups: MaterialGroup[]) => void
+  onClose: () => void
+}) {
+  const rows = useMemo(() => parseDelimitedText(text), [text])
+  const header = rows[0] ?? []
+  const columnCount = Math.max(0, ...rows.map((r) => r.length))
+  const openCutList = isOpenCutListExport(header)
+  const [hasHeader, setHasHeader] = useState(true)
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(header))
+  const [defaultBoardSpecId, setDefaultBoardSpecId] = useState("")
+  const result = useMemo(
+    () =>
+      openCutList
+        ? importOpenCutList(rows)
+        : importCutList(rows, mapping, {
+            hasHeader,
+            defaultBoardSpecId: defaultBoardSpecId || undefined,
+          }),
+    [openCutList, rows, mapping, hasHeader, defaultBoardSpecId]
+  )
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose()
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [onClose])
+
+  const columnName = (i: number) =>
+    hasHeader && header[i]?.trim() ? header[i].trim() : `Column ${i + 1}`
+
+  const setField = (field: CutListField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev }
+      if (value === "") delete next[field]
+      else next[field] = Number(value)
+      return next
+    })
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="csv-import-title"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        className="w-full max-w-2xl rounded-xl bg-white dark:bg-slate-800 shadow-xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 p-5 border-b border-slate-200 dark:border-slate-600">
+          <div>
+            <h2 id="csv-import-title" className="text-xl font-semibold text-slate-900 dark:text-slate-100">
+              Import cut list
+            </h2>
+            <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+              {openCutList
+                ? `${fileName}: OpenCutList export. Lumber parts are matched to board sizes by thickness and width, sheet goods are grouped by material and thickness.`
+                : `${fileName}: choose which column holds each field. Lengths accept fractions such as 29 1/2.`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700"
+            aria-label="Close"
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {!openCutList && (
+            <>
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={hasHeader}
+                  onChange={(e) => setHasHeader(e.target.checked)}
+                  className="rounded border-slate-300 dark:border-slate-600"
+                />
+                First row is a header
+              </label>
+
+              <div className="grid gap-3 sm:grid-cols-2">
+                {CUT_LIST_FIELDS.map(({ field, label }) => (
+                  <label key={field} className="block text-sm">
+                    <span className="block font-medium text-slate-700 dark:text-slate-300 mb-1">{label}</span>
+                    <select
+                      value={mapping[field] ?? ""}
+                      onChange={(e) => setField(field, e.target.value)}
+                      className={`w-full px-3 py-2 text-sm ${fieldClassName}`}
+                    >
+                      <option value="">Not in file</option>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <option key={i} value={i}>
+                          {columnName(i)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                <label className="block text-sm">
+                  <span className="block font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Board size when blank
+                  </span>
+                  <select
+                    value={defaultBoardSpecId}
+                    onChange={(e) => setDefaultBoardSpecId(e.target.value)}
+                    className={`w-full px-3 py-2 text-sm ${fieldClassName}`}
+                  >
+                    <option value="">None (report the row)</option>
+                    {STOCK_PROFILES.map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2 text-sm">
+            <p className="font-medium text-slate-700 dark:text-slate-300">
+              {result.importedRows} {result.importedRows === 1 ? "row" : "rows"} into{" "}
+              {result.groups.length} {result.groups.length === 1 ? "group" : "groups"}
+            </p>
+            {result.groups.length > 0 && (
+              <ul className="list-disc pl-5 text-slate-600 dark:text-slate-400">
+                {result.groups.map((g) => (
+                  <li key={g.id}>
+                    {g.label}:{" "}
+                    {g.materialType === "sheet"
+                      ? `${g.sheetPieces.length} ${g.sheetPieces.length === 1 ? "piece size" : "piece sizes"}`
+                      : `${g.cuts.length} ${g.cuts.length === 1 ? "cut length" : "cut lengths"}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {result.errors.length > 0 && (
+              <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-200">
+                <p className="font-medium">
+                  {result.errors.length} {result.errors.length === 1 ? "row" : "rows"} will be left
+                  out:
+                </p>
+                <ul className="mt-1 max-h-40 overflow-y-auto list-disc pl-4 space-y-0.5">
+                  {result.errors.map((err) => (
+                    <li key={err.line}>
+                      Line {err.line}
+                      {err.name && ` (${err.name})`}: {err.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t border-slate-200 dark:border-slate-600">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg px-4 py-2 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onImport(result.groups)}
+            disabled={result.groups.length === 0}
+            className="rounded-lg bg-slate-800 dark:bg-slate-100 px-4 py-2 text-sm font-medium text-white dark:text-slate-900 hover:bg-slate-700 dark:hover:bg-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Import as new project
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { describeImportReport, type ImportReport } from "../lib/import-report"
+
+/**
+ * What the parser skipped, dropped or defaulted while importing `fileName`, one line per issue,
+ * so the user can fix the source file. `failed` means nothing was imported.
+ */
+export function ImportReportNotice({
+  fileName,
+  report,
+  failed,
+  onDismiss,
+}: {
+  fileName: string
+  report: ImportReport
+  failed: boolean
+  onDismiss: () => void
+}) {
+  const lines = describeImportReport(report)
+  return (
+    <div
+      role="status"
+      className={`w-full rounded-lg border px-3 py-2 text-xs ${
+        failed
+          ? "border-red-200 bg-red-50 text-red-800 dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-300"
+          : "border-amber-200 bg-amber-50 text-amber-900 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-200"
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className="font-medium">
+          {failed
+            ? `Nothing could be imported from ${fileName}:`
+            : `Imported ${fileName} with ${lines.length} ${lines.length === 1 ? "issue" : "issues"}:`}
+        </p>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="shrink-0 rounded px-1 hover:bg-black/5 dark:hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-slate-400"
+          aria-label="Dismiss import report"
+        >
+          ×
+        </button>
+      </div>
+      <ul className="mt-1 max-h-48 overflow-y-auto list-disc pl-4 space-y-0.5">
+        {lines.map((line, i) => (
+          <li key={i}>{line}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -10,11 +10,26 @@ import {
 } from "../lib/cuts"
 import {
   STOCK_PROFILES,
+  DEFAULT_END_TRIM_INCHES,
+  DEFAULT_MIN_SCRAP_LENGTH_INCHES,
+  DEFAULT_KERF_INCHES,
   DEFAULT_MAX_BOARD_LENGTH_INCHES,
   BOARD_LENGTH_PREFERENCE_OPTIONS,
+  SHEET_SIZE_OPTIONS,
+  SHEET_THICKNESS_OPTIONS,
+  formatSheetSize,
   formatStockLength,
 } from "../lib/stock-profiles"
-import { getBoardGroupLabel, type MaterialGroup } from "../lib/material-groups"
+import {
+  SHEET_GRAIN_OPTIONS,
+  getBoardGroupLabel,
+  getSheetGrain,
+  mergeSheetPieces,
+  type MaterialGroup,
+  type SheetGrain,
+  type SheetPiece,
+} from "../lib/material-groups"
+import { OPTIMIZATION_OBJECTIVE_OPTIONS, type OptimizationObjective } from "../lib/optimizer"
 import {
   fieldClassName,
   selectContentClassName,
@@ -36,7 +51,8 @@ export function MaterialGroupSection({
   onBeforeDestructiveAction?: () => void
 }) {
   const currentSpec = STOCK_PROFILES.find((p) => p.id === group.boardSpecId)
-  const defaultKerf = currentSpec?.kerf ?? 0.125
+  const defaultKerf =
+    group.materialType === "sheet" ? DEFAULT_KERF_INCHES : (currentSpec?.kerf ?? DEFAULT_KERF_INCHES)
 
   // Local state for kerf input (committed on blur)
   const [kerfInput, setKerfInput] = useState(
@@ -85,14 +101,52 @@ export function MaterialGroupSection({
     }))
   }
 
+  const kerfField = (
+    <div className="flex flex-wrap items-center gap-2">
+      <label className="text-xs text-slate-500 dark:text-slate-400" htmlFor={`kerf-${group.id}`}>
+        Kerf:
+      </label>
+      <input
+        id={`kerf-${group.id}`}
+        type="text"
+        inputMode="decimal"
+        value={kerfInput}
+        placeholder={String(defaultKerf)}
+        onChange={(e) => setKerfInput(e.target.value)}
+        onBlur={handleKerfBlur}
+        className={`w-20 px-2 py-1 text-xs ${fieldClassName}`}
+        aria-label="Kerf override in inches"
+      />
+      <span className="text-xs text-slate-400 dark:text-slate-500">in</span>
+      {group.kerfOverrideInches != null && (
+        <button
+          type="button"
+          onClick={() => {
+            onUpdateGroup((g) => ({ ...g, kerfOverrideInches: null }))
+            setKerfInput("")
+          }}
+          className="text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 underline"
+        >
+          reset to default
+        </button>
+      )}
+    </div>
+  )
+
   return (
     <section className="rounded-xl bg-white/90 dark:bg-slate-800/60 overflow-hidden shadow-sm">
       <div className="px-5 pt-5 pb-3">
         <div className="flex flex-wrap items-center justify-between gap-3">
           <div className="flex flex-wrap items-center gap-3 min-w-0">
-            <span className="inline-flex items-center rounded-md bg-amber-100/80 dark:bg-amber-900/30 px-2.5 py-1 text-xs font-medium text-amber-700 dark:text-amber-300">
-              Board group
-            </span>
+            {group.materialType === "sheet" ? (
+              <span className="inline-flex items-center rounded-md bg-sky-100/80 dark:bg-sky-900/30 px-2.5 py-1 text-xs font-medium text-sky-700 dark:text-sky-300">
+                Sheet group
+              </span>
+            ) : (
+              <span className="inline-flex items-center rounded-md bg-amber-100/80 dark:bg-amber-900/30 px-2.5 py-1 text-xs font-medium text-amber-700 dark:text-amber-300">
+                Board group
+              </span>
+            )}
             <div className="relative group">
               <input
                 type="text"
@@ -136,175 +190,287 @@ export function MaterialGroupSection({
       <div className="border-t border-slate-200/80 dark:border-slate-600/50" aria-hidden />
 
       <div className="p-5 space-y-6">
-        <div className="space-y-2">
-          <div className="flex flex-wrap items-center gap-4">
-            <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
-              Board spec (nominal size)
-            </label>
-            <Select.Root
-              value={group.boardSpecId || undefined}
-              onValueChange={(id) =>
-                onUpdateGroup((g) => ({
-                  ...g,
-                  boardSpecId: id,
-                  label: g.isLabelUserDefined ? g.label : getBoardGroupLabel(id),
-                }))
-              }
-            >
-              <Select.Trigger className={selectTriggerClassName}>
-                <Select.Value placeholder="Choose profile..." />
-                <Select.Icon>
-                  <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
-                    <path d="M3 4.5L6 7.5L9 4.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-                  </svg>
-                </Select.Icon>
-              </Select.Trigger>
-              <Select.Portal>
-                <Select.Content position="popper" sideOffset={4} className={selectContentClassName}>
-                  {STOCK_PROFILES.map((profile) => (
-                    <Select.Item key={profile.id} value={profile.id} className={selectItemClassName}>
-                      <Select.ItemText>{profile.name}</Select.ItemText>
-                      <Select.ItemIndicator className="absolute right-3">✓</Select.ItemIndicator>
-                    </Select.Item>
-                  ))}
-                </Select.Content>
-              </Select.Portal>
-            </Select.Root>
-          </div>
-          <div className="flex flex-wrap items-center gap-2">
-            <label className="text-xs text-slate-500 dark:text-slate-400" htmlFor={`kerf-${group.id}`}>
-              Kerf:
-            </label>
-            <input
-              id={`kerf-${group.id}`}
-              type="text"
-              inputMode="decimal"
-              value={kerfInput}
-              placeholder={String(defaultKerf)}
-              onChange={(e) => setKerfInput(e.target.value)}
-              onBlur={handleKerfBlur}
-              className={`w-20 px-2 py-1 text-xs ${fieldClassName}`}
-              aria-label="Kerf override in inches"
+        {group.materialType === "sheet" ? (
+          <>
+            <SheetStockSettings group={group} onUpdateGroup={onUpdateGroup} kerfField={kerfField} />
+            <SheetPieceTable
+              group={group}
+              onUpdateGroup={onUpdateGroup}
+              onBeforeDeletePiece={onBeforeDestructiveAction}
             />
-            <span className="text-xs text-slate-400 dark:text-slate-500">in</span>
-            {group.kerfOverrideInches != null && (
-              <button
-                type="button"
-                onClick={() => {
-                  onUpdateGroup((g) => ({ ...g, kerfOverrideInches: null }))
-                  setKerfInput("")
-                }}
-                className="text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 underline"
+          </>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Board spec (nominal size)
+                </label>
+                <Select.Root
+                  value={group.boardSpecId || undefined}
+                  onValueChange={(id) =>
+                    onUpdateGroup((g) => ({
+                      ...g,
+                      boardSpecId: id,
+                      label: g.isLabelUserDefined ? g.label : getBoardGroupLabel(id),
+                    }))
+                  }
+                >
+                  <Select.Trigger className={selectTriggerClassName}>
+                    <Select.Value placeholder="Choose profile..." />
+                    <Select.Icon>
+                      <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+                        <path d="M3 4.5L6 7.5L9 4.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                      </svg>
+                    </Select.Icon>
+                  </Select.Trigger>
+                  <Select.Portal>
+                    <Select.Content position="popper" sideOffset={4} className={selectContentClassName}>
+                      {STOCK_PROFILES.map((profile) => (
+                        <Select.Item key={profile.id} value={profile.id} className={selectItemClassName}>
+                          <Select.ItemText>{profile.name}</Select.ItemText>
+                          <Select.ItemIndicator className="absolute right-3">✓</Select.ItemIndicator>
+                        </Select.Item>
+                      ))}
+                    </Select.Content>
+                  </Select.Portal>
+                </Select.Root>
+              </div>
+              {kerfField}
+              <InchesOverrideField
+                key={`end-trim-${group.endTrimOverrideInches}`}
+                id={`end-trim-${group.id}`}
+                label="End trim:"
+                unit="in per end"
+                value={group.endTrimOverrideInches}
+                defaultValue={currentSpec?.endTrim ?? DEFAULT_END_TRIM_INCHES}
+                allowZero
+                ariaLabel="End trim override in inches, per end"
+                onCommit={(v) => onUpdateGroup((g) => ({ ...g, endTrimOverrideInches: v }))}
+              />
+              <InchesOverrideField
+                key={`min-scrap-${group.minScrapLengthOverrideInches}`}
+                id={`min-scrap-${group.id}`}
+                label="Keep offcuts ≥"
+                value={group.minScrapLengthOverrideInches}
+                defaultValue={currentSpec?.minScrapLength ?? DEFAULT_MIN_SCRAP_LENGTH_INCHES}
+                allowZero
+                ariaLabel="Minimum reusable offcut override in inches"
+                onCommit={(v) => onUpdateGroup((g) => ({ ...g, minScrapLengthOverrideInches: v }))}
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Sets allowed lengths. Required to generate.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                Max length preference
+              </label>
+              <Select.Root
+                value={String(group.maxLengthPreferenceInches ?? DEFAULT_MAX_BOARD_LENGTH_INCHES)}
+                onValueChange={(v) =>
+                  onUpdateGroup((g) => ({ ...g, maxLengthPreferenceInches: parseInt(v, 10) }))
+                }
               >
-                reset to default
-              </button>
-            )}
-          </div>
-          <p className="text-xs text-slate-500 dark:text-slate-400">
-            Sets allowed lengths. Required to generate.
-          </p>
-        </div>
+                <Select.Trigger className={selectTriggerClassName}>
+                  <Select.Value />
+                  <Select.Icon>
+                    <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+                      <path d="M3 4.5L6 7.5L9 4.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                    </svg>
+                  </Select.Icon>
+                </Select.Trigger>
+                <Select.Portal>
+                  <Select.Content position="popper" sideOffset={4} className={selectContentClassName}>
+                    {BOARD_LENGTH_PREFERENCE_OPTIONS.map(({ feet, inches }) => (
+                      <Select.Item
+                        key={inches}
+                        value={String(inches)}
+                        className={selectItemClassName}
+                      >
+                        <Select.ItemText>{feet} ft</Select.ItemText>
+                        <Select.ItemIndicator className="absolute right-3">✓</Select.ItemIndicator>
+                      </Select.Item>
+                    ))}
+                  </Select.Content>
+                </Select.Portal>
+              </Select.Root>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Max length is a preference, not a hard limit. Longer cuts use the smallest board that fits.
+              </p>
+            </div>
 
-        <div className="space-y-2">
-          <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
-            Max length preference
-          </label>
-          <Select.Root
-            value={String(group.maxLengthPreferenceInches ?? DEFAULT_MAX_BOARD_LENGTH_INCHES)}
-            onValueChange={(v) =>
-              onUpdateGroup((g) => ({ ...g, maxLengthPreferenceInches: parseInt(v, 10) }))
-            }
-          >
-            <Select.Trigger className={selectTriggerClassName}>
-              <Select.Value />
-              <Select.Icon>
-                <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
-                  <path d="M3 4.5L6 7.5L9 4.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-                </svg>
-              </Select.Icon>
-            </Select.Trigger>
-            <Select.Portal>
-              <Select.Content position="popper" sideOffset={4} className={selectContentClassName}>
-                {BOARD_LENGTH_PREFERENCE_OPTIONS.map(({ feet, inches }) => (
-                  <Select.Item
-                    key={inches}
-                    value={String(inches)}
-                    className={selectItemClassName}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                Optimization goal
+              </label>
+              <Select.Root
+                value={group.optimizationGoal ?? "project"}
+                onValueChange={(v) =>
+                  onUpdateGroup((g) => ({
+                    ...g,
+                    optimizationGoal: v === "project" ? null : (v as OptimizationObjective),
+                  }))
+                }
+              >
+                <Select.Trigger className={selectTriggerClassName} aria-label="Optimization goal">
+                  <Select.Value />
+                  <Select.Icon>
+                    <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+                      <path d="M3 4.5L6 7.5L9 4.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                    </svg>
+                  </Select.Icon>
+                </Select.Trigger>
+                <Select.Portal>
+                  <Select.Content position="popper" sideOffset={4} className={selectContentClassName}>
+                    {[{ id: "project", name: "Project goal" }, ...OPTIMIZATION_OBJECTIVE_OPTIONS].map(
+                      ({ id, name }) => (
+                        <Select.Item key={id} value={id} className={selectItemClassName}>
+                          <Select.ItemText>{name}</Select.ItemText>
+                          <Select.ItemIndicator className="absolute right-3">✓</Select.ItemIndicator>
+                        </Select.Item>
+                      )
+                    )}
+                  </Select.Content>
+                </Select.Portal>
+              </Select.Root>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Most reusable scrap keeps the same board count but leaves fewer, longer offcuts.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                Additional stock lengths
+              </label>
+              <div className="flex flex-wrap items-center gap-2">
+                {group.customAllowedLengths.map((len) => (
+                  <span
+                    key={len}
+                    className="inline-flex items-center gap-1 rounded-full bg-slate-100 dark:bg-slate-700 px-2.5 py-1 text-xs text-slate-700 dark:text-slate-300"
                   >
-                    <Select.ItemText>{feet} ft</Select.ItemText>
-                    <Select.ItemIndicator className="absolute right-3">✓</Select.ItemIndicator>
-                  </Select.Item>
+                    {formatStockLength(len)}
+                    <button
+                      type="button"
+                      onClick={() => removeCustomLength(len)}
+                      className="ml-0.5 text-slate-400 hover:text-red-500"
+                      aria-label={`Remove ${formatStockLength(len)} from custom lengths`}
+                    >
+                      ×
+                    </button>
+                  </span>
                 ))}
-              </Select.Content>
-            </Select.Portal>
-          </Select.Root>
-          <p className="text-xs text-slate-500 dark:text-slate-400">
-            Max length is a preference, not a hard limit. Longer cuts use the smallest board that fits.
-          </p>
-        </div>
-
-        <div className="space-y-2">
-          <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
-            Additional stock lengths
-          </label>
-          <div className="flex flex-wrap items-center gap-2">
-            {group.customAllowedLengths.map((len) => (
-              <span
-                key={len}
-                className="inline-flex items-center gap-1 rounded-full bg-slate-100 dark:bg-slate-700 px-2.5 py-1 text-xs text-slate-700 dark:text-slate-300"
-              >
-                {formatStockLength(len)}
-                <button
-                  type="button"
-                  onClick={() => removeCustomLength(len)}
-                  className="ml-0.5 text-slate-400 hover:text-red-500"
-                  aria-label={`Remove ${formatStockLength(len)} from custom lengths`}
-                >
-                  ×
-                </button>
-              </span>
-            ))}
-            <div className="flex items-center gap-1">
-              <input
-                type="text"
-                inputMode="decimal"
-                value={customLenInput}
-                placeholder="e.g. 168"
-                onChange={(e) => setCustomLenInput(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter" && customLenValid) {
-                    e.preventDefault()
-                    addCustomLength()
-                  }
-                }}
-                className={`w-24 px-2 py-1 text-xs ${fieldClassName}`}
-                aria-label="Custom stock length in inches"
-              />
-              <button
-                type="button"
-                onClick={addCustomLength}
-                disabled={!customLenValid}
-                className="px-2 py-1 rounded text-xs bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Add
-              </button>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={customLenInput}
+                    placeholder="e.g. 168"
+                    onChange={(e) => setCustomLenInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && customLenValid) {
+                        e.preventDefault()
+                        addCustomLength()
+                      }
+                    }}
+                    className={`w-24 px-2 py-1 text-xs ${fieldClassName}`}
+                    aria-label="Custom stock length in inches"
+                  />
+                  <button
+                    type="button"
+                    onClick={addCustomLength}
+                    disabled={!customLenValid}
+                    className="px-2 py-1 rounded text-xs bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Add
+                  </button>
+                </div>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Add non-standard lengths (in inches) beyond the spec's defaults. Fractions accepted, e.g. 168 for 14 ft.
+              </p>
             </div>
-          </div>
-          <p className="text-xs text-slate-500 dark:text-slate-400">
-            Add non-standard lengths (in inches) beyond the spec's defaults. Fractions accepted, e.g. 168 for 14 ft.
-          </p>
-        </div>
 
-        <CutListTable
-          group={group}
-          onUpdateGroup={onUpdateGroup}
-          onBeforeDeleteCut={onBeforeDestructiveAction}
-        />
+            <CutListTable
+              group={group}
+              onUpdateGroup={onUpdateGroup}
+              onBeforeDeleteCut={onBeforeDestructiveAction}
+            />
+          </>
+        )}
       </div>
     </section>
   )
 }
 
+/**
+ * Optional per-group override in inches, committed on blur. Blank = use the spec default.
+ * Render with a key derived from `value` so outside changes (undo, import) reset the text.
+ */
+function InchesOverrideField({
+  id,
+  label,
+  unit = "in",
+  value,
+  defaultValue,
+  allowZero = false,
+  ariaLabel,
+  onCommit,
+}: {
+  id: string
+  label: string
+  unit?: string
+  value: number | null
+  defaultValue: number
+  allowZero?: boolean
+  ariaLabel: string
+  onCommit: (value: number | null) => void
+}) {
+  const [input, setInput] = useState(value != null ? String(value) : "")
+
+  const handleBlur = () => {
+    const v = parseFloat(input.trim())
+    const valid = input.trim() !== "" && Number.isFinite(v) && (allowZero ? v >= 0 : v > 0)
+    if (!valid) {
+      setInput("")
+      if (value !== null) onCommit(null)
+    } else {
+      setInput(String(v))
+      if (v !== value) onCommit(v)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label className="text-xs text-slate-500 dark:text-slate-400" htmlFor={id}>
+        {label}
+      </label>
+      <input
+        id={id}
+        type="text"
+        inputMode="decimal"
+        value={input}
+        placeholder={String(defaultValue)}
+        onChange={(e) => setInput(e.target.value)}
+        onBlur={handleBlur}
+        className={`w-20 px-2 py-1 text-xs ${fieldClassName}`}
+        aria-label={ariaLabel}
+      />
+      <span className="text-xs text-slate-400 dark:text-slate-500">{unit}</span>
+      {value != null && (
+        <button
+          type="button"
+          onClick={() => onCommit(null)}
+          className="text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 underline"
+        >
+          reset to default
+        </button>
+      )}
+    </div>
+  )
+}
+
 function CutListTable({
   group,
   onUpdateGroup,
@@ -314,31 +480,25 @@ function CutListTable({
   onUpdateGroup: (updater: (g: MaterialGroup) => MaterialGroup) => void
   onBeforeDeleteCut?: () => void
 }) {
-  const updateCut = (
-    oldLength: number,
-    oldMaterialType: "board" | "sheet",
-    updates: { length?: number; quantity?: number }
-  ) => {
+  const isSameCut = (c: CutRequirement, target: CutRequirement) =>
+    c.length === target.length &&
+    (c.materialType ?? "board") === (target.materialType ?? "board") &&
+    c.name === target.name
+
+  const updateCut = (target: CutRequirement, updates: { length?: number; quantity?: number }) => {
     onUpdateGroup((g) => {
-      const current = g.cuts.find(
-        (c) => c.length === oldLength && (c.materialType ?? "board") === oldMaterialType
-      )
+      const current = g.cuts.find((c) => isSameCut(c, target))
       if (!current) return g
-      const newLength = updates.length ?? current.length
-      const newQuantity = updates.quantity ?? current.quantity
-      const materialType = current.materialType ?? "board"
-      const rest = g.cuts.filter(
-        (c) => !(c.length === oldLength && (c.materialType ?? "board") === oldMaterialType)
-      )
-      return { ...g, cuts: mergeCuts([...rest, { length: newLength, quantity: newQuantity, materialType }]) }
+      const rest = g.cuts.filter((c) => !isSameCut(c, target))
+      return { ...g, cuts: mergeCuts([...rest, { ...current, ...updates }]) }
     })
   }
 
-  const deleteCut = (length: number, materialType: "board" | "sheet" = "board") => {
+  const deleteCut = (target: CutRequirement) => {
     onBeforeDeleteCut?.()
     onUpdateGroup((g) => ({
       ...g,
-      cuts: g.cuts.filter((c) => !(c.length === length && (c.materialType ?? "board") === materialType)),
+      cuts: g.cuts.filter((c) => !isSameCut(c, target)),
     }))
   }
 
@@ -384,7 +544,7 @@ function CutListTable({
               <>
                 {group.cuts.map((cut) => (
                   <CutRow
-                    key={`${cut.length}-${cut.materialType ?? "board"}`}
+                    key={`${cut.length}-${cut.materialType ?? "board"}-${cut.name ?? ""}`}
                     cut={cut}
                     onUpdate={updateCut}
                     onDelete={deleteCut}
@@ -425,14 +585,9 @@ function CutRow({
   onDelete,
 }: {
   cut: CutRequirement
-  onUpdate: (
-    oldLength: number,
-    oldMaterialType: "board" | "sheet",
-    u: { length?: number; quantity?: number }
-  ) => void
-  onDelete: (length: number, materialType?: "board" | "sheet") => void
+  onUpdate: (target: CutRequirement, u: { length?: number; quantity?: number }) => void
+  onDelete: (target: CutRequirement) => void
 }) {
-  const materialType = cut.materialType ?? "board"
   const [lengthInput, setLengthInput] = useState(String(cut.length))
   const [qtyInput, setQtyInput] = useState(String(cut.quantity))
   const [lengthError, setLengthError] = useState(false)
@@ -452,7 +607,7 @@ function CutRow({
   const handleLengthBlur = () => {
     const n = parseLength(lengthInput)
     if (isValidLength(n) && n !== cut.length) {
-      onUpdate(cut.length, materialType, { length: n })
+      onUpdate(cut, { length: n })
       setLengthInput(String(n))
       setLengthError(false)
     } else if (!lengthInput.trim()) {
@@ -468,7 +623,7 @@ function CutRow({
   const handleQtyBlur = () => {
     const n = parseQuantity(qtyInput)
     if (isValidQuantity(n) && n !== cut.quantity) {
-      onUpdate(cut.length, materialType, { quantity: n })
+      onUpdate(cut, { quantity: n })
       setQtyInput(String(n))
       setQtyError(false)
     } else if (!qtyInput.trim()) {
@@ -496,8 +651,9 @@ function CutRow({
           className={`w-full max-w-[6rem] px-2 py-1.5 text-sm ${fieldClassName} ${
             lengthError ? "border-red-500 focus:ring-red-500" : ""
           }`}
-          aria-label={`Length for ${cut.length} inches`}
+          aria-label={`Length for ${cut.name ?? `${cut.length} inches`}`}
         />
+        {cut.name && <span className="block mt-1 text-xs text-slate-500 dark:text-slate-400">{cut.name}</span>}
       </td>
       <td className="py-2 px-4">
         <input
@@ -512,15 +668,15 @@ function CutRow({
           className={`w-full max-w-[4rem] px-2 py-1.5 text-sm ${fieldClassName} ${
             qtyError ? "border-red-500 focus:ring-red-500" : ""
           }`}
-          aria-label={`Quantity for ${cut.length} inches`}
+          aria-label={`Quantity for ${cut.name ?? `${cut.length} inches`}`}
         />
       </td>
       <td className="py-2 px-2">
         <button
           type="button"
-          onClick={() => onDelete(cut.length, materialType)}
+          onClick={() => onDelete(cut)}
           className="p-1.5 rounded text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none focus:ring-2 focus:ring-red-500/50"
-          aria-label={`Delete ${cut.quantity} × ${cut.length}"`}
+          aria-label={`Delete ${cut.quantity} × ${cut.length}"${cut.name ? ` ${cut.name}` : ""}`}
         >
           <svg
             width="18"
@@ -647,3 +803,496 @@ function DraftRow({
     </tr>
   )
 }
+
+function SheetStockSettings({
+  group,
+  onUpdateGroup,
+  kerfField,
+}: {
+  group: MaterialGroup
+  onUpdateGroup: (updater: (g: MaterialGroup) => MaterialGroup) => void
+  kerfField: React.ReactNode
+}) {
+  const currentSize = SHEET_SIZE_OPTIONS.find(
+    (o) => o.width === group.sheetStockWidth && o.height === group.sheetStockHeight
+  )
+  const customSizeValue = `custom:${group.sheetStockWidth}x${group.sheetStockHeight}`
+  const thicknessOptions = SHEET_THICKNESS_OPTIONS.includes(group.sheetThickness)
+    ? SHEET_THICKNESS_OPTIONS
+    : [...SHEET_THICKNESS_OPTIONS, group.sheetThickness]
+
+  return (
+    <>
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
+            Stock sheet size
+          </label>
+          <Select.Root
+            value={currentSize?.id ?? customSizeValue}
+            onValueChange={(id) => {
+              const option = SHEET_SIZE_OPTIONS.find((o) => o.id === id)
+              if (!option) return
+              onUpdateGroup((g) => ({
+                ...g,
+                sheetStockWidth: option.width,
+                sheetStockHeight: option.height,
+              }))
+            }}
+          >
+            <Select.Trigger className={selectTriggerClassName}>
+              <Select.Value />
+              <Select.Icon>
+                <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+                  <path d="M3 4.5L6 7.5L9 4.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                </svg>
+              </Select.Icon>
+            </Select.Trigger>
+            <Select.Portal>
+              <Select.Content position="popper" sideOffset={4} className={selectContentClassName}>
+                {SHEET_SIZE_OPTIONS.map((option) => (
+                  <Select.Item key={option.id} value={option.id} className={selectItemClassName}>
+                    <Select.ItemText>{option.name}</Select.ItemText>
+                    <Select.ItemIndicator className="absolute right-3">✓</Select.ItemIndicator>
+                  </Select.Item>
+                ))}
+                {!currentSize && (
+                  <Select.Item value={customSizeValue} className={selectItemClassName}>
+                    <Select.ItemText>
+                      Custom {formatSheetSize(group.sheetStockWidth, group.sheetStockHeight)}
+                    </Select.ItemText>
+                    <Select.ItemIndicator className="absolute right-3">✓</Select.ItemIndicator>
+                  </Select.Item>
+                )}
+              </Select.Content>
+            </Select.Portal>
+          </Select.Root>
+        </div>
+        {kerfField}
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Width × height in inches: {group.sheetStockWidth}" × {group.sheetStockHeight}".
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
+          Thickness
+        </label>
+        <Select.Root
+          value={group.sheetThickness}
+          onValueChange={(thickness) => onUpdateGroup((g) => ({ ...g, sheetThickness: thickness }))}
+        >
+          <Select.Trigger className={selectTriggerClassName}>
+            <Select.Value />
+            <Select.Icon>
+              <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+                <path d="M3 4.5L6 7.5L9 4.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+              </svg>
+            </Select.Icon>
+          </Select.Trigger>
+          <Select.Portal>
+            <Select.Content position="popper" sideOffset={4} className={selectContentClassName}>
+              {thicknessOptions.map((thickness) => (
+                <Select.Item key={thickness} value={thickness} className={selectItemClassName}>
+                  <Select.ItemText>{thickness}</Select.ItemText>
+                  <Select.ItemIndicator className="absolute right-3">✓</Select.ItemIndicator>
+                </Select.Item>
+              ))}
+            </Select.Content>
+          </Select.Portal>
+        </Select.Root>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Shown on the shopping list and used to match sheet scrap.
+        </p>
+      </div>
+    </>
+  )
+}
+
+function SheetPieceTable({
+  group,
+  onUpdateGroup,
+  onBeforeDeletePiece,
+}: {
+  group: MaterialGroup
+  onUpdateGroup: (updater: (g: MaterialGroup) => MaterialGroup) => void
+  onBeforeDeletePiece?: () => void
+}) {
+  const isSamePiece = (p: SheetPiece, target: SheetPiece) =>
+    p.width === target.width &&
+    p.height === target.height &&
+    getSheetGrain(p) === getSheetGrain(target) &&
+    p.name === target.name
+
+  const updatePiece = (
+    target: SheetPiece,
+    updates: { width?: number; height?: number; quantity?: number; grain?: SheetGrain }
+  ) => {
+    onUpdateGroup((g) => {
+      const current = g.sheetPieces.find((p) => isSamePiece(p, target))
+      if (!current) return g
+      const rest = g.sheetPieces.filter((p) => !isSamePiece(p, target))
+      return { ...g, sheetPieces: mergeSheetPieces([...rest, { ...current, ...updates }]) }
+    })
+  }
+
+  const deletePiece = (target: SheetPiece) => {
+    onBeforeDeletePiece?.()
+    onUpdateGroup((g) => ({
+      ...g,
+      sheetPieces: g.sheetPieces.filter((p) => !isSamePiece(p, target)),
+    }))
+  }
+
+  const draft = group.draftSheetPiece
+  const canAddDraftPiece =
+    !!draft &&
+    isValidLength(parseLength(draft.width)) &&
+    isValidLength(parseLength(draft.height)) &&
+    isValidQuantity(parseQuantity(draft.quantity))
+
+  const addDraftPiece = () => {
+    onUpdateGroup((g) => {
+      if (!g.draftSheetPiece) return g
+      const width = parseLength(g.draftSheetPiece.width)
+      const height = parseLength(g.draftSheetPiece.height)
+      const quantity = parseQuantity(g.draftSheetPiece.quantity)
+      if (!isValidLength(width) || !isValidLength(height) || !isValidQuantity(quantity)) return g
+      const grain = g.draftSheetPiece.grain ?? "any"
+      return {
+        ...g,
+        sheetPieces: mergeSheetPieces([...g.sheetPieces, { width, height, quantity, grain }]),
+        // Keep the grain so a run of matching panels can be entered quickly
+        draftSheetPiece: { width: "", height: "", quantity: "", grain },
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300">Pieces</h3>
+      <div className="rounded-lg overflow-hidden bg-slate-50/50 dark:bg-slate-700/20">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-slate-100/80 dark:bg-slate-700/40">
+              <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Width (in)</th>
+              <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Height (in)</th>
+              <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Quantity</th>
+              <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Grain</th>
+              <th className="w-12" aria-hidden />
+            </tr>
+          </thead>
+          <tbody>
+            {group.sheetPieces.length === 0 && !draft ? (
+              <tr>
+                <td colSpan={5} className="py-8 px-4 text-center text-sm text-slate-500 dark:text-slate-400">
+                  No pieces. Click &quot;Add piece&quot; to add width, height and quantity.
+                </td>
+              </tr>
+            ) : (
+              <>
+                {group.sheetPieces.map((piece) => (
+                  <SheetPieceRow
+                    // Keyed on every field so the row remounts with fresh inputs after a merge
+                    key={`${piece.width}x${piece.height}-${getSheetGrain(piece)}-${piece.quantity}-${piece.name ?? ""}`}
+                    piece={piece}
+                    onUpdate={updatePiece}
+                    onDelete={deletePiece}
+                  />
+                ))}
+                {draft && (
+                  <SheetDraftRow
+                    draft={draft}
+                    onChange={(d) => onUpdateGroup((g) => ({ ...g, draftSheetPiece: d }))}
+                    canAdd={canAddDraftPiece}
+                    onAdd={addDraftPiece}
+                    onCancel={() => onUpdateGroup((g) => ({ ...g, draftSheetPiece: null }))}
+                  />
+                )}
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Height is the piece&apos;s length. Grain locks it along the sheet&apos;s length or width; leave it on Any to let the optimizer rotate the piece.
+      </p>
+      <button
+        type="button"
+        onClick={() =>
+          onUpdateGroup((g) => ({ ...g, draftSheetPiece: { width: "", height: "", quantity: "" } }))
+        }
+        disabled={!!draft}
+        className="inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-4 py-2.5 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M8 3v10M3 8h10" />
+        </svg>
+        Add piece
+      </button>
+    </div>
+  )
+}
+
+function SheetPieceRow({
+  piece,
+  onUpdate,
+  onDelete,
+}: {
+  piece: SheetPiece
+  onUpdate: (
+    target: SheetPiece,
+    u: { width?: number; height?: number; quantity?: number; grain?: SheetGrain }
+  ) => void
+  onDelete: (target: SheetPiece) => void
+}) {
+  const [widthInput, setWidthInput] = useState(String(piece.width))
+  const [heightInput, setHeightInput] = useState(String(piece.height))
+  const [qtyInput, setQtyInput] = useState(String(piece.quantity))
+  const [errors, setErrors] = useState({ width: false, height: false, quantity: false })
+
+  const commitDimension = (field: "width" | "height", input: string) => {
+    const n = parseLength(input)
+    if (!isValidLength(n)) {
+      setErrors((e) => ({ ...e, [field]: true }))
+      return
+    }
+    if (n !== piece[field]) onUpdate(piece, { [field]: n })
+  }
+
+  const commitQuantity = () => {
+    const n = parseQuantity(qtyInput)
+    if (!isValidQuantity(n)) {
+      setErrors((e) => ({ ...e, quantity: true }))
+      return
+    }
+    if (n !== piece.quantity) onUpdate(piece, { quantity: n })
+  }
+
+  const errorClass = (hasError: boolean) => (hasError ? "border-red-500 focus:ring-red-500" : "")
+
+  return (
+    <tr className="bg-white/50 dark:bg-slate-800/30 even:bg-transparent dark:even:bg-slate-800/20">
+      <td className="py-2 px-4">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={widthInput}
+          onChange={(e) => {
+            setWidthInput(e.target.value)
+            setErrors((er) => ({ ...er, width: false }))
+          }}
+          onBlur={() => commitDimension("width", widthInput)}
+          className={`w-full max-w-[6rem] px-2 py-1.5 text-sm ${fieldClassName} ${errorClass(errors.width)}`}
+          aria-label={`Width for ${piece.name ?? `${piece.width} × ${piece.height} piece`}`}
+        />
+        {piece.name && <span className="block mt-1 text-xs text-slate-500 dark:text-slate-400">{piece.name}</span>}
+      </td>
+      <td className="py-2 px-4">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={heightInput}
+          onChange={(e) => {
+            setHeightInput(e.target.value)
+            setErrors((er) => ({ ...er, height: false }))
+          }}
+          onBlur={() => commitDimension("height", heightInput)}
+          className={`w-full max-w-[6rem] px-2 py-1.5 text-sm ${fieldClassName} ${errorClass(errors.height)}`}
+          aria-label={`Height for ${piece.name ?? `${piece.width} × ${piece.height} piece`}`}
+        />
+      </td>
+      <td className="py-2 px-4">
+        <input
+          type="text"
+          inputMode="numeric"
+          value={qtyInput}
+          onChange={(e) => {
+            setQtyInput(e.target.value.replace(/\D/g, ""))
+            setErrors((er) => ({ ...er, quantity: false }))
+          }}
+          onBlur={commitQuantity}
+          className={`w-full max-w-[4rem] px-2 py-1.5 text-sm ${fieldClassName} ${errorClass(errors.quantity)}`}
+          aria-label={`Quantity for ${piece.name ?? `${piece.width} × ${piece.height} piece`}`}
+        />
+      </td>
+      <td className="py-2 px-4">
+        <GrainSelect
+          value={getSheetGrain(piece)}
+          onChange={(grain) => onUpdate(piece, { grain })}
+          ariaLabel={`Grain for ${piece.width} × ${piece.height} piece`}
+        />
+      </td>
+      <td className="py-2 px-2">
+        <button
+          type="button"
+          onClick={() => onDelete(piece)}
+          className="p-1.5 rounded text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none focus:ring-2 focus:ring-red-500/50"
+          aria-label={`Delete ${piece.quantity} × ${piece.width}" × ${piece.height}"`}
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M3 6h18M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+            <line x1="10" y1="11" x2="10" y2="17" />
+            <line x1="14" y1="11" x2="14" y2="17" />
+          </svg>
+        </button>
+      </td>
+    </tr>
+  )
+}
+
+function SheetDraftRow({
+  draft,
+  onChange,
+  canAdd,
+  onAdd,
+  onCancel,
+}: {
+  draft: { width: string; height: string; quantity: string; grain?: SheetGrain }
+  onChange: (d: { width: string; height: string; quantity: string; grain?: SheetGrain }) => void
+  canAdd: boolean
+  onAdd: () => void
+  onCancel: () => void
+}) {
+  const widthRef = useRef<HTMLInputElement>(null)
+
+  const handleAdd = () => {
+    if (!canAdd) return
+    onAdd()
+    requestAnimationFrame(() => {
+      widthRef.current?.focus()
+    })
+  }
+
+  const onEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" && canAdd) {
+      e.preventDefault()
+      handleAdd()
+    }
+  }
+
+  return (
+    <tr className="bg-slate-50/80 dark:bg-slate-700/30">
+      <td className="py-2 px-4">
+        <input
+          ref={widthRef}
+          type="text"
+          inputMode="decimal"
+          placeholder="e.g. 23 1/4"
+          value={draft.width}
+          onChange={(e) => onChange({ ...draft, width: e.target.value })}
+          onKeyDown={onEnter}
+          className={`w-full max-w-[6rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+          aria-label="New piece width"
+          autoFocus
+        />
+      </td>
+      <td className="py-2 px-4">
+        <input
+          type="text"
+          inputMode="decimal"
+          placeholder="e.g. 30"
+          value={draft.height}
+          onChange={(e) => onChange({ ...draft, height: e.target.value })}
+          onKeyDown={onEnter}
+          className={`w-full max-w-[6rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+          aria-label="New piece height"
+        />
+      </td>
+      <td className="py-2 px-4">
+        <input
+          type="text"
+          inputMode="numeric"
+          placeholder="e.g. 2"
+          value={draft.quantity}
+          onChange={(e) => onChange({ ...draft, quantity: e.target.value.replace(/\D/g, "") })}
+          onKeyDown={onEnter}
+          className={`w-full max-w-[4rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+          aria-label="New piece quantity"
+        />
+      </td>
+      <td className="py-2 px-4">
+        <GrainSelect
+          value={draft.grain ?? "any"}
+          onChange={(grain) => onChange({ ...draft, grain })}
+          ariaLabel="New piece grain"
+        />
+      </td>
+      <td className="py-2 px-2 flex gap-1">
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="p-1.5 rounded text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          aria-label="Add piece"
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M12 5v14M5 12h14" />
+          </svg>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-1.5 rounded text-slate-500 hover:text-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-400/50"
+          aria-label="Cancel add"
+        >
+          <svg
+            width="18"
+            height="18"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M18 6L6 18M6 6l12 12" />
+          </svg>
+        </button>
+      </td>
+    </tr>
+  )
+}
+
+function GrainSelect({
+  value,
+  onChange,
+  ariaLabel,
+}: {
+  value: SheetGrain
+  onChange: (grain: SheetGrain) => void
+  ariaLabel: string
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as SheetGrain)}
+      className={`w-full min-w-[8rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+      aria-label={ariaLabel}
+    >
+      {SHEET_GRAIN_OPTIONS.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  )
+}
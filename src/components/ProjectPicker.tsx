@@ -0,0 +1,83 @@
+import * as Select from "@radix-ui/react-select"
+import { DEFAULT_PROJECT_NAME } from "../lib/project-file"
+import { getActiveProject, type ProjectLibrary } from "../lib/project-library"
+import {
+  fieldClassName,
+  selectContentClassName,
+  selectItemClassName,
+  selectTriggerClassName,
+} from "./uiClasses"
+
+const buttonClassName =
+  "inline-flex items-center rounded-lg bg-slate-100 dark:bg-slate-700/60 px-3 py-2 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-slate-400"
+
+/** Switch between saved projects and create, rename, duplicate or delete them. */
+export function ProjectPicker({
+  library,
+  onOpen,
+  onCreate,
+  onDuplicate,
+  onDelete,
+  onRename,
+}: {
+  library: ProjectLibrary
+  onOpen: (id: string) => void
+  onCreate: () => void
+  onDuplicate: () => void
+  onDelete: () => void
+  onRename: (name: string) => void
+}) {
+  const active = getActiveProject(library)
+  return (
+    <div className="flex flex-wrap items-center justify-center lg:justify-start gap-2">
+      <Select.Root value={active.id} onValueChange={onOpen}>
+        <Select.Trigger className={selectTriggerClassName} aria-label="Open project">
+          <Select.Value />
+          <Select.Icon>
+            <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+              <path d="M3 4.5L6 7.5L9 4.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+          </Select.Icon>
+        </Select.Trigger>
+        <Select.Portal>
+          <Select.Content position="popper" sideOffset={4} className={selectContentClassName}>
+            {library.projects.map((project) => (
+              <Select.Item key={project.id} value={project.id} className={selectItemClassName}>
+                <Select.ItemText>{project.name.trim() || DEFAULT_PROJECT_NAME}</Select.ItemText>
+                <Select.ItemIndicator className="absolute right-3">✓</Select.ItemIndicator>
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select.Portal>
+      </Select.Root>
+      <input
+        type="text"
+        value={active.name}
+        onChange={(e) => onRename(e.target.value)}
+        placeholder="Project name"
+        className={`min-w-0 w-40 px-3 py-2 text-sm ${fieldClassName}`}
+        aria-label="Project name"
+      />
+      <button type="button" onClick={onCreate} className={buttonClassName} title="Start a new project">
+        New
+      </button>
+      <button
+        type="button"
+        onClick={onDuplicate}
+        className={buttonClassName}
+        title="Copy this project's groups and last result into a new project"
+      >
+        Duplicate
+      </button>
+      <button
+        type="button"
+        onClick={onDelete}
+        disabled={library.projects.length <= 1}
+        className={buttonClassName}
+        title={library.projects.length <= 1 ? "The last project cannot be deleted" : "Delete this project"}
+      >
+        Delete
+      </button>
+    </div>
+  )
+}
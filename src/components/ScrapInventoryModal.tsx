@@ -1,29 +1,70 @@
 import { useEffect, useState } from "react"
 import { isValidLength, isValidQuantity, parseLength, parseQuantity } from "../lib/cuts"
 import { mergeScrapEntries, type ScrapEntry } from "../lib/optimizer"
-import { STOCK_PROFILES, shortNominalName } from "../lib/stock-profiles"
+import type { ScrapChange, ScrapChangeKind, ScrapTransaction } from "../lib/scrap-ledger"
+import { isTrackedPiece } from "../lib/scrap-pieces"
+import {
+  SHEET_THICKNESS_OPTIONS,
+  STOCK_PROFILES,
+  formatSheetSize,
+  shortNominalName,
+} from "../lib/stock-profiles"
+import { ScrapLabelSheet } from "./ScrapLabelSheet"
 import { fieldClassName } from "./uiClasses"
 
 export function ScrapInventoryModal({
   scrapInventory,
   setScrapInventory,
+  history,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  trackPieces,
+  onTrackPiecesChange,
   onClose,
   formatStockLength,
 }: {
   scrapInventory: ScrapEntry[]
   setScrapInventory: (next: ScrapEntry[] | ((prev: ScrapEntry[]) => ScrapEntry[])) => void
+  /** Ledger transactions, oldest first. */
+  history: ScrapTransaction[]
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  /** When on, every board is a labelled piece of quantity 1. */
+  trackPieces: boolean
+  onTrackPiecesChange: (enabled: boolean) => void
   onClose: () => void
   formatStockLength: (inches: number) => string
 }) {
+  const [showHistory, setShowHistory] = useState(false)
   const [boardDraft, setBoardDraft] = useState<{
     nominalSizeId: string
     length: string
     quantity: string
+    location: string
   } | null>(null)
   const [draftError, setDraftError] = useState<string | null>(null)
+  const [sheetDraft, setSheetDraft] = useState<{
+    thickness: string
+    width: string
+    height: string
+    quantity: string
+  } | null>(null)
+  const [sheetDraftError, setSheetDraftError] = useState<string | null>(null)
 
   const boardEntries = scrapInventory.filter(
-    (s): s is Extract<ScrapEntry, { materialType: "board" }> => s.materialType === "board"
+    (s): s is BoardScrapEntry => s.materialType === "board"
+  )
+  const trackedPieces = scrapInventory.filter(isTrackedPiece)
+  const showPieceIds = trackedPieces.length > 0
+  const knownLocations = [
+    ...new Set(boardEntries.map((s) => s.location).filter((l): l is string => !!l)),
+  ].sort((a, b) => a.localeCompare(b))
+  const sheetEntries = scrapInventory.filter(
+    (s): s is SheetScrapEntry => s.materialType === "sheet"
   )
 
   useEffect(() => {
@@ -53,38 +94,77 @@ export function ScrapInventoryModal({
     setScrapInventory((prev) =>
       mergeScrapEntries([
         ...prev,
-        { materialType: "board", nominalSizeId: boardDraft.nominalSizeId, stockLength, quantity },
+        {
+          materialType: "board",
+          nominalSizeId: boardDraft.nominalSizeId,
+          stockLength,
+          quantity,
+          location: boardDraft.location,
+        },
       ])
     )
+    // Keep size and location: several lengths usually go into the same bin
     setBoardDraft((d) => (d ? { ...d, length: "", quantity: "" } : d))
     setDraftError(null)
   }
 
-  const removeBoardScrap = (nominalSizeId: string, stockLength: number) => {
+  const removeBoardScrap = (target: BoardScrapEntry) => {
+    setScrapInventory((prev) => prev.filter((s) => !isSameBoardScrap(s, target)))
+  }
+
+  const updateBoardQuantity = (target: BoardScrapEntry, newQuantity: number) => {
+    if (newQuantity < 1) {
+      removeBoardScrap(target)
+      return
+    }
+    if (!Number.isInteger(newQuantity)) return
+    setScrapInventory((prev) =>
+      prev.map((s) => (isSameBoardScrap(s, target) ? { ...s, quantity: newQuantity } : s))
+    )
+  }
+
+  const moveBoardScrap = (target: BoardScrapEntry, location: string) => {
+    if ((location.trim() || undefined) === target.location) return
+    setScrapInventory((prev) =>
+      mergeScrapEntries(prev.map((s) => (isSameBoardScrap(s, target) ? { ...s, location } : s)))
+    )
+  }
+
+  const addSheetDraft = () => {
+    if (!sheetDraft) return
+    const width = parseLength(sheetDraft.width)
+    const height = parseLength(sheetDraft.height)
+    const quantity = parseQuantity(sheetDraft.quantity)
+    if (!isValidLength(width) || !isValidLength(height)) {
+      setSheetDraftError("Width and height are required and must be greater than 0.")
+      return
+    }
+    if (!isValidQuantity(quantity)) {
+      setSheetDraftError("Quantity is required and must be a whole number.")
+      return
+    }
     setScrapInventory((prev) =>
-      prev.filter(
-        (s) =>
-          !(
-            s.materialType === "board" &&
-            s.nominalSizeId === nominalSizeId &&
-            s.stockLength === stockLength
-          )
-      )
+      mergeScrapEntries([
+        ...prev,
+        { materialType: "sheet", thickness: sheetDraft.thickness, width, height, quantity },
+      ])
     )
+    setSheetDraft((d) => (d ? { ...d, width: "", height: "", quantity: "1" } : d))
+    setSheetDraftError(null)
+  }
+
+  const removeSheetScrap = (target: SheetScrapEntry) => {
+    setScrapInventory((prev) => prev.filter((s) => !isSameSheetScrap(s, target)))
   }
 
-  const updateBoardQuantity = (nominalSizeId: string, stockLength: number, newQuantity: number) => {
+  const updateSheetQuantity = (target: SheetScrapEntry, newQuantity: number) => {
     if (newQuantity < 1) {
-      removeBoardScrap(nominalSizeId, stockLength)
+      removeSheetScrap(target)
       return
     }
     if (!Number.isInteger(newQuantity)) return
     setScrapInventory((prev) =>
-      prev.map((s) =>
-        s.materialType === "board" && s.nominalSizeId === nominalSizeId && s.stockLength === stockLength
-          ? { ...s, quantity: newQuantity }
-          : s
-      )
+      prev.map((s) => (isSameSheetScrap(s, target) ? { ...s, quantity: newQuantity } : s))
     )
   }
 
@@ -106,7 +186,7 @@ export function ScrapInventoryModal({
               Scrap inventory
             </h2>
             <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
-              Optional advanced feature. Add boards you already have; inventory is saved in this browser.
+              Optional advanced feature. Add boards and partial sheets you already have; inventory is saved in this browser.
             </p>
           </div>
           <button
@@ -128,16 +208,18 @@ export function ScrapInventoryModal({
               <table className="w-full">
                 <thead>
                   <tr className="bg-slate-100/80 dark:bg-slate-700/40">
+                    {showPieceIds && <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">ID</th>}
                     <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Nominal size</th>
                     <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Length</th>
                     <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Qty</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Location</th>
                     <th className="w-12" aria-hidden />
                   </tr>
                 </thead>
                 <tbody>
                   {boardEntries.length === 0 && !boardDraft ? (
                     <tr>
-                      <td colSpan={4} className="py-8 px-4 text-center text-sm text-slate-500 dark:text-slate-400">
+                      <td colSpan={showPieceIds ? 6 : 5} className="py-8 px-4 text-center text-sm text-slate-500 dark:text-slate-400">
                         No board scrap yet. You can ignore this unless you want the optimizer to consume offcuts first.
                       </td>
                     </tr>
@@ -145,35 +227,54 @@ export function ScrapInventoryModal({
                     <>
                       {boardEntries.map((s) => (
                         <tr
-                          key={`${s.nominalSizeId}-${s.stockLength}`}
+                          key={`${s.nominalSizeId}-${s.stockLength}-${s.location ?? ""}-${s.pieceId ?? ""}`}
                           className="bg-white/50 dark:bg-slate-800/30 even:bg-transparent dark:even:bg-slate-800/20"
                         >
+                          {showPieceIds && (
+                            <td className="py-2 px-4 font-mono text-sm font-semibold text-slate-900 dark:text-slate-100">
+                              {s.pieceId ?? "—"}
+                            </td>
+                          )}
                           <td className="py-2 px-4 text-slate-700 dark:text-slate-200">
                             {shortNominalName(STOCK_PROFILES.find((p) => p.id === s.nominalSizeId)?.name ?? s.nominalSizeId)}
                           </td>
                           <td className="py-2 px-4 text-slate-900 dark:text-slate-100 font-medium">
                             {formatStockLength(s.stockLength)}
                           </td>
+                          <td className="py-2 px-4">
+                            {s.pieceId ? (
+                              <span className="text-sm text-slate-700 dark:text-slate-200">1</span>
+                            ) : (
+                              <input
+                                type="number"
+                                min={1}
+                                value={s.quantity}
+                                onChange={(e) =>
+                                  updateBoardQuantity(s, parseInt(e.target.value, 10) || 0)
+                                }
+                                className={`w-16 px-2 py-1.5 text-sm ${fieldClassName}`}
+                                aria-label={`Quantity for ${formatStockLength(s.stockLength)}`}
+                              />
+                            )}
+                          </td>
                           <td className="py-2 px-4">
                             <input
-                              type="number"
-                              min={1}
-                              value={s.quantity}
-                              onChange={(e) =>
-                                updateBoardQuantity(
-                                  s.nominalSizeId,
-                                  s.stockLength,
-                                  parseInt(e.target.value, 10) || 0
-                                )
-                              }
-                              className={`w-16 px-2 py-1.5 text-sm ${fieldClassName}`}
-                              aria-label={`Quantity for ${formatStockLength(s.stockLength)}`}
+                              type="text"
+                              list="scrap-locations"
+                              placeholder="Anywhere"
+                              defaultValue={s.location ?? ""}
+                              onBlur={(e) => moveBoardScrap(s, e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") e.currentTarget.blur()
+                              }}
+                              className={`w-full max-w-[8rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+                              aria-label={`Location for ${formatStockLength(s.stockLength)}`}
                             />
                           </td>
                           <td className="py-2 px-2">
                             <button
                               type="button"
-                              onClick={() => removeBoardScrap(s.nominalSizeId, s.stockLength)}
+                              onClick={() => removeBoardScrap(s)}
                               className="p-1.5 rounded text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
                               aria-label={`Remove ${formatStockLength(s.stockLength)}`}
                             >
@@ -188,6 +289,9 @@ export function ScrapInventoryModal({
                       ))}
                       {boardDraft && (
                         <tr className="bg-slate-50/80 dark:bg-slate-700/30">
+                          {showPieceIds && (
+                            <td className="py-2 px-4 text-xs text-slate-500 dark:text-slate-400">New</td>
+                          )}
                           <td className="py-2 px-4">
                             <select
                               value={boardDraft.nominalSizeId}
@@ -242,6 +346,19 @@ export function ScrapInventoryModal({
                               aria-label="Quantity"
                             />
                           </td>
+                          <td className="py-2 px-4">
+                            <input
+                              type="text"
+                              list="scrap-locations"
+                              placeholder="Optional"
+                              value={boardDraft.location}
+                              onChange={(e) =>
+                                setBoardDraft((d) => (d ? { ...d, location: e.target.value } : null))
+                              }
+                              className={`w-full max-w-[8rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+                              aria-label="Location"
+                            />
+                          </td>
                           <td className="py-2 px-2 flex gap-1">
                             <button
                               type="button"
@@ -273,6 +390,11 @@ export function ScrapInventoryModal({
                   )}
                 </tbody>
               </table>
+              <datalist id="scrap-locations">
+                {knownLocations.map((location) => (
+                  <option key={location} value={location} />
+                ))}
+              </datalist>
             </div>
             {boardDraft && (
               <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
@@ -291,6 +413,7 @@ export function ScrapInventoryModal({
                       nominalSizeId: STOCK_PROFILES[0]?.id ?? "2x4",
                       length: "",
                       quantity: "",
+                      location: "",
                     })
                   }
                   className="inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-4 py-2.5 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60"
@@ -301,7 +424,273 @@ export function ScrapInventoryModal({
                   Add board
                 </button>
               ) : null}
+              {trackedPieces.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => window.print()}
+                  className="inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-4 py-2.5 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60"
+                >
+                  Print labels ({trackedPieces.length})
+                </button>
+              )}
+            </div>
+            <label className="mt-3 flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={trackPieces}
+                onChange={(e) => onTrackPiecesChange(e.target.checked)}
+                className="mt-0.5 rounded border-slate-300 dark:border-slate-600 text-emerald-600 focus:ring-emerald-500"
+              />
+              <span className="text-sm text-slate-700 dark:text-slate-300">
+                Track individual pieces
+                <span className="block text-xs text-slate-500 dark:text-slate-400">
+                  Every board gets a short ID for its label, and cut diagrams name the piece to use.
+                  Turning this off merges pieces back into counts.
+                </span>
+              </span>
+            </label>
+            {trackedPieces.length > 0 && (
+              <ScrapLabelSheet pieces={trackedPieces} formatStockLength={formatStockLength} />
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Partial sheets by thickness and size</h3>
+            <div className="rounded-lg overflow-hidden bg-slate-50/80 dark:bg-slate-700/30">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-slate-100/80 dark:bg-slate-700/40">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Thickness</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Width × height</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Qty</th>
+                    <th className="w-12" aria-hidden />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheetEntries.length === 0 && !sheetDraft ? (
+                    <tr>
+                      <td colSpan={4} className="py-8 px-4 text-center text-sm text-slate-500 dark:text-slate-400">
+                        No sheet scrap yet. Sheet groups use partial sheets of the same thickness before new ones.
+                      </td>
+                    </tr>
+                  ) : (
+                    <>
+                      {sheetEntries.map((s) => (
+                        <tr
+                          key={`${s.thickness}-${s.width}-${s.height}`}
+                          className="bg-white/50 dark:bg-slate-800/30 even:bg-transparent dark:even:bg-slate-800/20"
+                        >
+                          <td className="py-2 px-4 text-slate-700 dark:text-slate-200">{s.thickness}</td>
+                          <td className="py-2 px-4 text-slate-900 dark:text-slate-100 font-medium">
+                            {formatSheetSize(s.width, s.height)}
+                          </td>
+                          <td className="py-2 px-4">
+                            <input
+                              type="number"
+                              min={1}
+                              value={s.quantity}
+                              onChange={(e) =>
+                                updateSheetQuantity(s, parseInt(e.target.value, 10) || 0)
+                              }
+                              className={`w-16 px-2 py-1.5 text-sm ${fieldClassName}`}
+                              aria-label={`Quantity for ${formatSheetSize(s.width, s.height)}`}
+                            />
+                          </td>
+                          <td className="py-2 px-2">
+                            <button
+                              type="button"
+                              onClick={() => removeSheetScrap(s)}
+                              className="p-1.5 rounded text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                              aria-label={`Remove ${formatSheetSize(s.width, s.height)}`}
+                            >
+                              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M3 6h18M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                                <line x1="10" y1="11" x2="10" y2="17" />
+                                <line x1="14" y1="11" x2="14" y2="17" />
+                              </svg>
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                      {sheetDraft && (
+                        <tr className="bg-slate-50/80 dark:bg-slate-700/30">
+                          <td className="py-2 px-4">
+                            <select
+                              value={sheetDraft.thickness}
+                              onChange={(e) => {
+                                setSheetDraft((d) => (d ? { ...d, thickness: e.target.value } : d))
+                                setSheetDraftError(null)
+                              }}
+                              className={`w-full min-w-[5rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+                              aria-label="Thickness"
+                            >
+                              {SHEET_THICKNESS_OPTIONS.map((thickness) => (
+                                <option key={thickness} value={thickness}>
+                                  {thickness}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="py-2 px-4">
+                            <div className="flex items-center gap-1">
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                placeholder="W"
+                                value={sheetDraft.width}
+                                onChange={(e) => {
+                                  setSheetDraft((d) => (d ? { ...d, width: e.target.value } : null))
+                                  setSheetDraftError(null)
+                                }}
+                                className={`w-full max-w-[4rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+                                aria-label="Width (inches)"
+                                autoFocus
+                              />
+                              <span className="text-slate-500" aria-hidden>
+                                ×
+                              </span>
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                placeholder="H"
+                                value={sheetDraft.height}
+                                onChange={(e) => {
+                                  setSheetDraft((d) => (d ? { ...d, height: e.target.value } : null))
+                                  setSheetDraftError(null)
+                                }}
+                                className={`w-full max-w-[4rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+                                aria-label="Height (inches)"
+                              />
+                            </div>
+                          </td>
+                          <td className="py-2 px-4">
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              placeholder="Required"
+                              value={sheetDraft.quantity}
+                              onChange={(e) => {
+                                setSheetDraft((d) =>
+                                  d ? { ...d, quantity: e.target.value.replace(/\D/g, "") } : null
+                                )
+                                setSheetDraftError(null)
+                              }}
+                              className={`w-full max-w-[4rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+                              aria-label="Quantity"
+                            />
+                          </td>
+                          <td className="py-2 px-2 flex gap-1">
+                            <button
+                              type="button"
+                              onClick={addSheetDraft}
+                              className="p-1.5 rounded text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20"
+                              aria-label="Add"
+                            >
+                              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M12 5v14M5 12h14" />
+                              </svg>
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setSheetDraft(null)
+                                setSheetDraftError(null)
+                              }}
+                              className="p-1.5 rounded text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-600"
+                              aria-label="Cancel"
+                            >
+                              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M18 6L6 18M6 6l12 12" />
+                              </svg>
+                            </button>
+                          </td>
+                        </tr>
+                      )}
+                    </>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {sheetDraft && (
+              <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                Enter the size as it lies with the grain running along the height.
+              </p>
+            )}
+            {sheetDraftError && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{sheetDraftError}</p>
+            )}
+            <div className="mt-3 flex flex-wrap gap-2">
+              {!sheetDraft ? (
+                <button
+                  type="button"
+                  onClick={() =>
+                    setSheetDraft({ thickness: '3/4"', width: "", height: "", quantity: "1" })
+                  }
+                  className="inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-4 py-2.5 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60"
+                >
+                  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M8 3v10M3 8h10" />
+                  </svg>
+                  Add sheet
+                </button>
+              ) : null}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={onUndo}
+                disabled={!canUndo}
+                className={historyButtonClassName}
+                title="Undo last inventory change"
+              >
+                Undo
+              </button>
+              <button
+                type="button"
+                onClick={onRedo}
+                disabled={!canRedo}
+                className={historyButtonClassName}
+                title="Redo inventory change"
+              >
+                Redo
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowHistory((v) => !v)}
+                className={historyButtonClassName}
+                aria-expanded={showHistory}
+              >
+                {showHistory ? "Hide history" : `History (${history.length})`}
+              </button>
             </div>
+            {showHistory && (
+              <ol className="mt-3 space-y-2 max-h-64 overflow-y-auto">
+                {history.length === 0 ? (
+                  <li className="text-sm text-slate-500 dark:text-slate-400">No inventory changes yet.</li>
+                ) : (
+                  [...history].reverse().map((tx) => (
+                    <li key={tx.id} className="rounded-lg bg-slate-50/80 dark:bg-slate-700/30 px-3 py-2 text-sm">
+                      <div className="flex flex-wrap items-baseline justify-between gap-2">
+                        <span className="font-medium text-slate-800 dark:text-slate-200">
+                          {tx.planLabel ? `Plan: ${tx.planLabel}` : (tx.note ?? "Inventory edit")}
+                        </span>
+                        <time dateTime={tx.at} className="text-xs text-slate-500 dark:text-slate-400">
+                          {new Date(tx.at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+                        </time>
+                      </div>
+                      <ul className="mt-1 space-y-0.5 text-slate-600 dark:text-slate-400">
+                        {tx.changes.map((change, i) => (
+                          <li key={i}>{describeChange(change, formatStockLength)}</li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))
+                )}
+              </ol>
+            )}
           </div>
 
           <div className="flex flex-wrap gap-2">
@@ -318,3 +707,46 @@ export function ScrapInventoryModal({
     </div>
   )
 }
+
+type BoardScrapEntry = Extract<ScrapEntry, { materialType: "board" }>
+
+function isSameBoardScrap(s: ScrapEntry, target: BoardScrapEntry): boolean {
+  return (
+    s.materialType === "board" &&
+    s.nominalSizeId === target.nominalSizeId &&
+    s.stockLength === target.stockLength &&
+    s.location === target.location &&
+    s.pieceId === target.pieceId
+  )
+}
+
+type SheetScrapEntry = Extract<ScrapEntry, { materialType: "sheet" }>
+
+function isSameSheetScrap(s: ScrapEntry, target: SheetScrapEntry): boolean {
+  return (
+    s.materialType === "sheet" &&
+    s.width === target.width &&
+    s.height === target.height &&
+    s.thickness === target.thickness
+  )
+}
+
+const historyButtonClassName =
+  "inline-flex items-center rounded-lg bg-slate-100 dark:bg-slate-700/60 px-3 py-1.5 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 disabled:opacity-50 disabled:cursor-not-allowed"
+
+const CHANGE_KIND_LABELS: Record<ScrapChangeKind, string> = {
+  added: "Added",
+  consumed: "Consumed by plan",
+  produced: "Produced by plan",
+  discarded: "Discarded",
+}
+
+function describeChange(change: ScrapChange, formatStockLength: (inches: number) => string): string {
+  const { entry } = change
+  const what =
+    entry.materialType === "board"
+      ? `${shortNominalName(STOCK_PROFILES.find((p) => p.id === entry.nominalSizeId)?.name ?? entry.nominalSizeId)} × ${formatStockLength(entry.stockLength)}`
+      : `${entry.thickness} ${formatSheetSize(entry.width, entry.height)}`
+  const piece = entry.materialType === "board" && entry.pieceId ? ` (${entry.pieceId})` : ""
+  return `${CHANGE_KIND_LABELS[change.kind]}: ${entry.quantity}× ${what}${piece}`
+}
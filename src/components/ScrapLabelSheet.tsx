@@ -0,0 +1,41 @@
+import { createPortal } from "react-dom"
+import type { TrackedScrapPiece } from "../lib/scrap-pieces"
+import { STOCK_PROFILES, shortNominalName } from "../lib/stock-profiles"
+
+/**
+ * Printable labels for tracked scrap pieces, one per piece. Rendered outside #root and shown
+ * only in print, where it replaces the app (see index.css), so printing from the scrap modal
+ * gives a plain label sheet.
+ */
+export function ScrapLabelSheet({
+  pieces,
+  formatStockLength,
+}: {
+  pieces: TrackedScrapPiece[]
+  formatStockLength: (inches: number) => string
+}) {
+  return createPortal(
+    <div className="scrap-label-sheet hidden print:grid grid-cols-3 gap-2 p-2 text-slate-900">
+      {pieces.map((piece) => {
+        const name =
+          STOCK_PROFILES.find((p) => p.id === piece.nominalSizeId)?.name ?? piece.nominalSizeId
+        return (
+          <div
+            key={piece.pieceId}
+            className="border border-dashed border-slate-400 rounded p-3 break-inside-avoid"
+          >
+            <div className="font-mono text-2xl font-bold tracking-widest">{piece.pieceId}</div>
+            <div className="mt-1 text-sm font-medium">
+              {shortNominalName(name)} × {formatStockLength(piece.stockLength)} ({piece.stockLength}")
+            </div>
+            <div className="mt-0.5 text-xs">
+              {piece.addedAt ? `Added ${piece.addedAt}` : "Added —"}
+              {piece.location && ` · ${piece.location}`}
+            </div>
+          </div>
+        )
+      })}
+    </div>,
+    document.body
+  )
+}
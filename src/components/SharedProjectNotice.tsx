@@ -0,0 +1,65 @@
+import { DEFAULT_PROJECT_NAME, type Project } from "../lib/project-file"
+
+/**
+ * Offer to open a project received through a share link. `project` is null when the link could
+ * not be read. Nothing changes until the user chooses to open it.
+ */
+export function SharedProjectNotice({
+  project,
+  onOpen,
+  onDismiss,
+}: {
+  project: Project | null
+  onOpen: () => void
+  onDismiss: () => void
+}) {
+  if (!project) {
+    return (
+      <div
+        role="alert"
+        className="flex items-start justify-between gap-3 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800 dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-300"
+      >
+        <p>This share link is damaged or incomplete. Ask for a new link, or for the project file.</p>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="shrink-0 rounded px-1 hover:bg-black/5 dark:hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-slate-400"
+          aria-label="Dismiss"
+        >
+          ×
+        </button>
+      </div>
+    )
+  }
+
+  const name = project.name.trim() || DEFAULT_PROJECT_NAME
+  const groupCount = project.groups.length
+  return (
+    <div
+      role="status"
+      className="space-y-2 rounded-lg border border-sky-200 bg-sky-50 px-4 py-3 text-sm text-sky-900 dark:border-sky-900/60 dark:bg-sky-950/40 dark:text-sky-200"
+    >
+      <p>
+        This link shares <span className="font-medium">{name}</span> ({groupCount}{" "}
+        {groupCount === 1 ? "group" : "groups"}). Open it as a new project? Your current project
+        is kept.
+      </p>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onOpen}
+          className="rounded-lg bg-sky-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-sky-400"
+        >
+          Open as new project
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="rounded-lg px-3 py-1.5 text-sm hover:bg-black/5 dark:hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-slate-400"
+        >
+          Not now
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react"
+import type { MaterialGroup } from "../lib/material-groups"
+import {
+  formatPrice,
+  getStockPrice,
+  isValidPrice,
+  parsePrice,
+  setStockPrice,
+  type PriceTable,
+} from "../lib/pricing"
+import { STOCK_PROFILES, formatStockLength, shortNominalName } from "../lib/stock-profiles"
+import { fieldClassName } from "./uiClasses"
+
+export function StockPricesModal({
+  priceTable,
+  setPriceTable,
+  groups,
+  onClose,
+}: {
+  priceTable: PriceTable
+  setPriceTable: (next: PriceTable | ((prev: PriceTable) => PriceTable)) => void
+  groups: MaterialGroup[]
+  onClose: () => void
+}) {
+  const boardGroups = groups.filter((g) => g.materialType === "board")
+  const [specId, setSpecId] = useState(
+    () => boardGroups[0]?.boardSpecId ?? STOCK_PROFILES[0]?.id ?? "2x4"
+  )
+  /** Text being typed per length; committed on blur or Enter. */
+  const [drafts, setDrafts] = useState<Record<number, string>>({})
+  const [priceError, setPriceError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose()
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [onClose])
+
+  const spec = STOCK_PROFILES.find((p) => p.id === specId)
+  const customLengths = boardGroups
+    .filter((g) => g.boardSpecId === specId)
+    .flatMap((g) => g.customAllowedLengths)
+  const lengths = [...new Set([...(spec?.allowedLengths ?? []), ...customLengths])].sort(
+    (a, b) => a - b
+  )
+  const pricedCount = Object.keys(priceTable[specId] ?? {}).length
+
+  const selectSpec = (id: string) => {
+    setSpecId(id)
+    setDrafts({})
+    setPriceError(null)
+  }
+
+  const commitPrice = (stockLength: number) => {
+    const text = drafts[stockLength]
+    if (text === undefined) return
+    setDrafts((d) => {
+      const next = { ...d }
+      delete next[stockLength]
+      return next
+    })
+    if (!text.trim()) {
+      setPriceTable((prev) => setStockPrice(prev, specId, stockLength, null))
+      setPriceError(null)
+      return
+    }
+    const price = parsePrice(text)
+    if (!isValidPrice(price)) {
+      setPriceError(`"${text}" is not a valid price. Use a number such as 7.48.`)
+      return
+    }
+    setPriceTable((prev) => setStockPrice(prev, specId, stockLength, price))
+    setPriceError(null)
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="prices-modal-title"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        className="w-full max-w-lg rounded-xl bg-white dark:bg-slate-800 shadow-xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 p-5 border-b border-slate-200 dark:border-slate-600">
+          <div>
+            <h2 id="prices-modal-title" className="text-xl font-semibold text-slate-900 dark:text-slate-100">
+              Stock prices
+            </h2>
+            <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+              Price per board at your lumber yard. Used for shopping list totals and the cost
+              objective; saved in this browser.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700"
+            aria-label="Close"
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2" htmlFor="prices-spec">
+              Board size
+            </label>
+            <select
+              id="prices-spec"
+              value={specId}
+              onChange={(e) => selectSpec(e.target.value)}
+              className={`w-full max-w-xs px-3 py-2 text-sm ${fieldClassName}`}
+            >
+              {STOCK_PROFILES.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="rounded-lg overflow-hidden bg-slate-50/80 dark:bg-slate-700/30">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-slate-100/80 dark:bg-slate-700/40">
+                    <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Length</th>
+                    <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">Price per board</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lengths.map((stockLength) => {
+                    const price = getStockPrice(priceTable, specId, stockLength)
+                    const label = `${shortNominalName(spec?.name ?? specId)} × ${formatStockLength(stockLength)}`
+                    return (
+                      <tr
+                        key={stockLength}
+                        className="bg-white/50 dark:bg-slate-800/30 even:bg-transparent dark:even:bg-slate-800/20"
+                      >
+                        <td className="py-2 px-4 text-slate-900 dark:text-slate-100 font-medium">
+                          {formatStockLength(stockLength)}
+                        </td>
+                        <td className="py-2 px-4">
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            placeholder="Not priced"
+                            value={drafts[stockLength] ?? (price !== undefined ? price.toFixed(2) : "")}
+                            onChange={(e) => {
+                              setDrafts((d) => ({ ...d, [stockLength]: e.target.value }))
+                              setPriceError(null)
+                            }}
+                            onBlur={() => commitPrice(stockLength)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") commitPrice(stockLength)
+                            }}
+                            className={`w-full max-w-[7rem] px-2 py-1.5 text-sm ${fieldClassName}`}
+                            aria-label={`Price for ${label}`}
+                          />
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {priceError && (
+              <p className="mt-2 text-sm text-red-600 dark:text-red-400">{priceError}</p>
+            )}
+            <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+              {pricedCount === 0
+                ? "No prices for this size yet. Leave a length blank to skip it."
+                : `When minimizing cost, unpriced lengths are estimated at ${formatPrice(
+                    averagePerFoot(priceTable[specId] ?? {})
+                  )}/ft, the average of the priced lengths.`}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-4 py-2.5 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function averagePerFoot(prices: Record<number, number>): number {
+  const entries = Object.entries(prices)
+  if (entries.length === 0) return 0
+  return entries.reduce((s, [length, price]) => s + (price / Number(length)) * 12, 0) / entries.length
+}
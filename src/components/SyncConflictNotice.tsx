@@ -0,0 +1,41 @@
+/**
+ * Ask which version of the open project to keep when this tab and another tab saved it at the
+ * same time. The version shown stays on screen until the user chooses.
+ */
+export function SyncConflictNotice({
+  projectName,
+  onUseTheirs,
+  onKeepMine,
+}: {
+  projectName: string
+  onUseTheirs: () => void
+  onKeepMine: () => void
+}) {
+  return (
+    <div
+      role="alert"
+      className="space-y-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-200"
+    >
+      <p>
+        <span className="font-medium">{projectName}</span> was also changed in another tab at the
+        same time. Choose which version to keep.
+      </p>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onUseTheirs}
+          className="rounded-lg bg-amber-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        >
+          Use the other tab's version
+        </button>
+        <button
+          type="button"
+          onClick={onKeepMine}
+          className="rounded-lg px-3 py-1.5 text-sm hover:bg-black/5 dark:hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-slate-400"
+        >
+          Keep this tab's version
+        </button>
+      </div>
+    </div>
+  )
+}
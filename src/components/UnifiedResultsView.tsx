@@ -1,17 +1,76 @@
-import { useState } from "react"
-import type { OptimizedBoard } from "../lib/optimizer"
+import { useId, useState } from "react"
+import type { OptimizedBoard, OptimizedSheet, ScrapEntry, UnplacedCut } from "../lib/optimizer"
+import { formatPrice } from "../lib/pricing"
+import { projectFileName } from "../lib/project-file"
 import type { ProjectResult } from "../lib/project-result"
-import { formatStockLength, shortNominalName } from "../lib/stock-profiles"
+import { boardLayoutsCsv, cutListRecapCsv, shoppingListCsv } from "../lib/results-csv"
+import { buildPickList, findConsumedScrap } from "../lib/scrap-accounting"
+import {
+  STOCK_PROFILES,
+  formatSheetSize,
+  formatStockLength,
+  shortNominalName,
+} from "../lib/stock-profiles"
+
+/** Save CSV text as a download. */
+function downloadCsv(fileName: string, csv: string) {
+  // Byte order mark so spreadsheet apps read the text as UTF-8 (×, ″ in names)
+  const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
 
 export function UnifiedResultsView({
   result,
+  projectName = "",
   scrapNote,
+  proposedOffcuts = [],
+  isCommitted = false,
+  canRollback = false,
+  onCommitPlan,
+  onDiscardOffcuts,
+  onRollbackCommit,
 }: {
   result: ProjectResult
+  /** Used to name CSV downloads. */
+  projectName?: string
   scrapNote: string | null
+  /** Offcuts that committing this plan adds to the scrap inventory. */
+  proposedOffcuts?: ScrapEntry[]
+  /** True once this plan's scrap use and offcuts are applied to the inventory. */
+  isCommitted?: boolean
+  /** True when a commit (of this or an earlier plan) can be rolled back. */
+  canRollback?: boolean
+  onCommitPlan?: () => void
+  onDiscardOffcuts?: () => void
+  onRollbackCommit?: () => void
 }) {
+  const consumedScrap = findConsumedScrap(result)
+  const pickList = buildPickList(result)
   const [insuranceBoard, setInsuranceBoard] = useState(false)
 
+  // Insurance boards are bought at the same unit price as the rest of the line
+  const insuranceCost = insuranceBoard
+    ? result.shoppingList.reduce(
+        (sum, entry) => sum + entry.items.reduce((s, item) => s + (item.unitPrice ?? 0), 0),
+        0
+      )
+    : 0
+  const displayTotal = result.totalCost !== null ? result.totalCost + insuranceCost : null
+  const csvExports = [
+    {
+      label: "Shopping list",
+      suffix: "shopping list",
+      csv: () => shoppingListCsv(result, { extraBoardsPerLength: insuranceBoard ? 1 : 0 }),
+    },
+    { label: "Cut recap", suffix: "cut recap", csv: () => cutListRecapCsv(result) },
+    { label: "Boards", suffix: "boards", csv: () => boardLayoutsCsv(result) },
+  ]
+
   return (
     <div className="print-results rounded-xl bg-white dark:bg-slate-800/80 overflow-hidden shadow-sm space-y-0 print:shadow-none print:rounded-none print:bg-white">
       <h1 className="hidden print:block text-2xl font-bold text-slate-900 mb-4 pb-3 print:border-b-0">
@@ -26,17 +85,31 @@ export function UnifiedResultsView({
               One shopping list, cut recap, and board diagrams.
             </p>
           </div>
-          <button
-            type="button"
-            onClick={() => window.print()}
-            className="print:hidden inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-4 py-2.5 min-h-[44px] text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
-          >
-            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-              <polyline points="6 9 6 2 18 2 18 9" />
-              <path d="M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2" />
-            </svg>
-            Print
-          </button>
+          <div className="print:hidden flex flex-wrap items-center gap-2">
+            <span className="text-sm text-slate-600 dark:text-slate-400">CSV:</span>
+            {csvExports.map(({ label, suffix, csv }) => (
+              <button
+                key={suffix}
+                type="button"
+                onClick={() => downloadCsv(projectFileName(`${projectName} ${suffix}`, "csv"), csv())}
+                className="rounded-lg bg-slate-100 dark:bg-slate-700/60 px-3 py-2.5 min-h-[44px] text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+                title={`Download the ${suffix} as a spreadsheet (CSV)`}
+              >
+                {label}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => window.print()}
+              className="print:hidden inline-flex items-center gap-2 rounded-lg bg-slate-100 dark:bg-slate-700/60 px-4 py-2.5 min-h-[44px] text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60 focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <polyline points="6 9 6 2 18 2 18 9" />
+                <path d="M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2" />
+              </svg>
+              Print
+            </button>
+          </div>
         </div>
       </div>
 
@@ -47,6 +120,104 @@ export function UnifiedResultsView({
           </p>
         )}
 
+        {(consumedScrap.length > 0 || proposedOffcuts.length > 0 || canRollback) && (
+          <section className="print:hidden rounded-lg border border-emerald-200 dark:border-emerald-800/60 bg-emerald-50/50 dark:bg-emerald-900/10 p-4 space-y-3">
+            <div>
+              <h2 className="font-semibold text-slate-800 dark:text-slate-200">Scrap inventory</h2>
+              <p className="mt-0.5 text-sm text-slate-600 dark:text-slate-400">
+                {isCommitted
+                  ? "This plan is committed: its scrap is out of your inventory and its offcuts are in."
+                  : "This is a preview; your inventory is unchanged. Commit the plan once you cut it."}
+              </p>
+            </div>
+            {!isCommitted && consumedScrap.length > 0 && (
+              <ScrapChipList title="Uses from scrap" entries={consumedScrap} />
+            )}
+            {!isCommitted && proposedOffcuts.length > 0 && (
+              <ScrapChipList title="Leaves offcuts" entries={proposedOffcuts} />
+            )}
+            <div className="flex flex-wrap gap-2">
+              {!isCommitted && (consumedScrap.length > 0 || proposedOffcuts.length > 0) && (
+                <button
+                  type="button"
+                  onClick={onCommitPlan}
+                  className="inline-flex items-center rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
+                >
+                  Commit plan
+                </button>
+              )}
+              {!isCommitted && proposedOffcuts.length > 0 && (
+                <button type="button" onClick={onDiscardOffcuts} className={secondaryButtonClassName}>
+                  Discard offcuts
+                </button>
+              )}
+              {canRollback && (
+                <button type="button" onClick={onRollbackCommit} className={secondaryButtonClassName}>
+                  {isCommitted ? "Roll back" : "Roll back last commit"}
+                </button>
+              )}
+            </div>
+          </section>
+        )}
+
+        {result.unplacedCuts.length > 0 && (
+          <section
+            role="alert"
+            className="rounded-lg border border-red-300 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-4 space-y-3 print:border-red-700 print:break-inside-avoid"
+          >
+            <h2 className="font-semibold text-red-800 dark:text-red-200">
+              Some cuts are not in this plan
+            </h2>
+            <p className="text-sm text-red-700 dark:text-red-300">
+              The shopping list and diagrams below leave these out. Fix them before you buy.
+            </p>
+            <ul className="space-y-2">
+              {result.unplacedCuts.map((group) => (
+                <li key={group.groupId} className="text-sm">
+                  <span className="font-medium text-red-800 dark:text-red-200">{group.groupLabel}</span>
+                  <ul className="mt-1 space-y-0.5">
+                    {group.cuts.map((cut, i) => (
+                      <li key={i} className="text-red-700 dark:text-red-300">
+                        {formatUnplacedCut(cut)} — {describeUnplacedReason(cut)}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {pickList.length > 0 && (
+          <section className="space-y-3 print:break-inside-avoid">
+            <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-100 print:text-slate-900 border-b border-slate-200 dark:border-slate-600 pb-2 print:border-slate-300">
+              Pick list
+            </h2>
+            <p className="text-sm text-slate-600 dark:text-slate-400 print:text-slate-700">
+              Scrap to pull before you cut, by where it is stored.
+            </p>
+            <ul className="space-y-3">
+              {pickList.map((stop) => (
+                <li
+                  key={stop.location ?? ""}
+                  className="rounded-lg bg-slate-50 dark:bg-slate-800/50 print:bg-white py-3 px-4"
+                >
+                  <span className="font-medium text-slate-800 dark:text-slate-200">
+                    {stop.location ?? "No location"}
+                  </span>
+                  <ul className="mt-2 space-y-1">
+                    {stop.entries.map((entry, i) => (
+                      <li key={i} className="text-sm text-slate-700 dark:text-slate-300">
+                        {formatScrapEntry(entry)}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
         <section className="space-y-4">
           <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-100 print:text-slate-900 border-b border-slate-200 dark:border-slate-600 pb-2 print:border-slate-300">
             1. Shopping list
@@ -77,11 +248,18 @@ export function UnifiedResultsView({
                     >
                       <span className="font-medium text-slate-800 dark:text-slate-200">{entry.nominalSizeName}</span>
                       <ul className="mt-2 space-y-1">
-                        {entry.items.map(({ stockLength, count }) => {
+                        {entry.items.map(({ stockLength, count, unitPrice }) => {
                           const displayCount = count + (insuranceBoard ? 1 : 0)
                           return (
-                            <li key={stockLength} className="text-sm text-slate-700 dark:text-slate-300">
-                              {shortName} × {formatStockLength(stockLength)} — {displayCount} {displayCount === 1 ? "board" : "boards"}
+                            <li key={stockLength} className="flex flex-wrap justify-between gap-x-4 text-sm text-slate-700 dark:text-slate-300">
+                              <span>
+                                {shortName} × {formatStockLength(stockLength)} — {displayCount} {displayCount === 1 ? "board" : "boards"}
+                              </span>
+                              {unitPrice !== undefined && (
+                                <span className="tabular-nums text-slate-600 dark:text-slate-400">
+                                  {displayCount} × {formatPrice(unitPrice)} = {formatPrice(displayCount * unitPrice)}
+                                </span>
+                              )}
                             </li>
                           )
                         })}
@@ -92,8 +270,37 @@ export function UnifiedResultsView({
               </ul>
             </>
           )}
-          {(result.shoppingList?.length ?? 0) === 0 && (
-            <p className="text-sm text-slate-500 dark:text-slate-400">No board purchases required for this run.</p>
+          {(result.shoppingListSheets?.length ?? 0) > 0 && (
+            <ul className="space-y-3">
+              {result.shoppingListSheets.map((entry) => (
+                <li
+                  key={entry.groupId}
+                  className="rounded-lg bg-slate-50 dark:bg-slate-800/50 print:bg-white py-3 px-4 print:break-inside-avoid"
+                >
+                  <span className="font-medium text-slate-800 dark:text-slate-200">{entry.groupLabel}</span>
+                  <p className="mt-2 text-sm text-slate-700 dark:text-slate-300">
+                    {entry.thickness} × {formatSheetSize(entry.sheetWidth, entry.sheetHeight)} — {entry.sheetCount}{" "}
+                    {entry.sheetCount === 1 ? "sheet" : "sheets"}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+          {(result.shoppingList?.length ?? 0) === 0 && (result.shoppingListSheets?.length ?? 0) === 0 && (
+            <p className="text-sm text-slate-500 dark:text-slate-400">No purchases required for this run.</p>
+          )}
+          {displayTotal !== null && (
+            <div className="flex flex-wrap items-baseline justify-between gap-x-4 rounded-lg bg-emerald-50/80 dark:bg-emerald-900/20 py-3 px-4 print:bg-white print:break-inside-avoid">
+              <span className="font-medium text-slate-800 dark:text-slate-200">Project total</span>
+              <span className="text-lg font-semibold tabular-nums text-slate-900 dark:text-slate-100">
+                {formatPrice(displayTotal)}
+              </span>
+              {result.hasUnpricedItems && (
+                <p className="w-full text-xs text-slate-600 dark:text-slate-400">
+                  Some boards have no price and are not included. Set prices under Stock prices.
+                </p>
+              )}
+            </div>
           )}
         </section>
 
@@ -134,6 +341,9 @@ export function UnifiedResultsView({
                           >
                             <td className="py-2 px-4 text-slate-700 dark:text-slate-300">
                               {c.length}"
+                              {c.name && (
+                                <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">{c.name}</span>
+                              )}
                             </td>
                             <td className="py-2 px-4 text-slate-700 dark:text-slate-300">
                               {c.quantity}
@@ -142,6 +352,42 @@ export function UnifiedResultsView({
                         ))}
                       </tbody>
                     </table>
+                  ) : recap.sheetPieces.length > 0 ? (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="bg-slate-100/80 dark:bg-slate-700/30">
+                          <th className="text-left py-2.5 px-4 font-medium text-slate-700 dark:text-slate-300">
+                            Piece (W × H)
+                          </th>
+                          <th className="text-left py-2.5 px-4 font-medium text-slate-700 dark:text-slate-300">
+                            Quantity
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {recap.sheetPieces.map((p, i) => (
+                          <tr
+                            key={i}
+                            className="bg-white/50 dark:bg-slate-800/30 even:bg-transparent dark:even:bg-slate-800/20"
+                          >
+                            <td className="py-2 px-4 text-slate-700 dark:text-slate-300">
+                              {p.width}" × {p.height}"
+                              {p.name && (
+                                <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">{p.name}</span>
+                              )}
+                              {p.grain && p.grain !== "any" && (
+                                <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">
+                                  (grain along sheet {p.grain})
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-2 px-4 text-slate-700 dark:text-slate-300">
+                              {p.quantity}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                   ) : (
                     <p className="p-4 text-sm text-slate-500 dark:text-slate-400">No cuts in this group</p>
                   )}
@@ -156,10 +402,35 @@ export function UnifiedResultsView({
             3. Cut diagrams
           </h2>
           <p className="text-sm text-slate-600 dark:text-slate-400 print:text-slate-700">
-            Board layout per group. Scale is consistent within each group.
+            Board and sheet layout per group. Scale is consistent within each group.
           </p>
           <ul className="space-y-6">
             {result.diagrams.map((dg) => {
+              if (dg.materialType === "sheet") {
+                const sheets = dg.sheets ?? []
+                return (
+                  <li
+                    key={dg.groupId}
+                    className="rounded-lg bg-slate-50 dark:bg-slate-800/50 print:bg-white py-4 px-4 print:break-inside-avoid"
+                  >
+                    <div className="mb-3">
+                      <h4 className="font-semibold text-slate-800 dark:text-slate-200">{dg.groupLabel}</h4>
+                      <p className="mt-0.5 text-sm text-slate-600 dark:text-slate-400">
+                        {sheets.length === 0
+                          ? "No sheets used"
+                          : `${sheets.length} ${sheets.length === 1 ? "sheet" : "sheets"}`}
+                      </p>
+                    </div>
+                    {sheets.length > 0 && (
+                      <ul className="space-y-5">
+                        {sheets.map((sheet, index) => (
+                          <SheetResultCard key={`${dg.groupId}-${index}`} sheet={sheet} />
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                )
+              }
               const maxStockInGroup =
                 dg.boards.length > 0
                   ? Math.max(...dg.boards.map((b) => b.stockLength))
@@ -175,6 +446,8 @@ export function UnifiedResultsView({
                       {dg.boards.length === 0
                         ? "No boards used"
                         : `${dg.boards.length} ${dg.boards.length === 1 ? "board" : "boards"}`}
+                      {dg.reusableScrapInches != null && dg.reusableScrapInches > 0 &&
+                        ` · ${Number(dg.reusableScrapInches.toFixed(2))}" of reusable offcuts`}
                     </p>
                   </div>
                   {dg.boards.length > 0 && (
@@ -186,6 +459,7 @@ export function UnifiedResultsView({
                           kerfInches={dg.kerfInches}
                           maxStockLengthInGroup={maxStockInGroup}
                           preferredMaxLengthInches={dg.preferredMaxLengthInches}
+                          minScrapLengthInches={dg.minScrapLengthInches}
                           formatStockLength={formatStockLength}
                         />
                       ))}
@@ -201,17 +475,70 @@ export function UnifiedResultsView({
   )
 }
 
+const secondaryButtonClassName =
+  "inline-flex items-center rounded-lg bg-slate-100 dark:bg-slate-700/60 px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/60"
+
+function ScrapChipList({ title, entries }: { title: string; entries: ScrapEntry[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300">{title}</h3>
+      <ul className="mt-1 flex flex-wrap gap-2">
+        {entries.map((s, i) => (
+          <li
+            key={i}
+            className="rounded-md bg-white dark:bg-slate-800 px-2.5 py-1 text-sm text-slate-700 dark:text-slate-300 ring-1 ring-slate-200 dark:ring-slate-600"
+          >
+            {formatScrapEntry(s)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function formatScrapEntry(entry: ScrapEntry): string {
+  const count = entry.quantity > 1 ? ` (×${entry.quantity})` : ""
+  if (entry.materialType === "sheet") {
+    return `${entry.thickness} ${formatSheetSize(entry.width, entry.height)}${count}`
+  }
+  const name = STOCK_PROFILES.find((p) => p.id === entry.nominalSizeId)?.name ?? entry.nominalSizeId
+  const piece = entry.pieceId ? ` · ${entry.pieceId}` : ""
+  return `${shortNominalName(name)} × ${entry.stockLength}"${piece}${count}`
+}
+
+function formatUnplacedCut(cut: UnplacedCut): string {
+  const size = cut.materialType === "sheet" ? `${cut.width}" × ${cut.height}"` : `${cut.length}"`
+  return `${size} × ${cut.quantity}`
+}
+
+function describeUnplacedReason(cut: UnplacedCut): string {
+  switch (cut.reason) {
+    case "exceeds-stock":
+      return cut.materialType === "sheet"
+        ? "larger than the stock sheet (check size and grain)"
+        : "longer than every stock length (after end trim)"
+    case "invalid-length":
+      return cut.materialType === "sheet" ? "invalid size" : "invalid length"
+    case "invalid-quantity":
+      return "invalid quantity"
+    case "unknown-spec":
+      return "no valid board spec selected for this group"
+  }
+}
+
 function BoardResultCard({
   board,
   kerfInches,
   maxStockLengthInGroup = 0,
   preferredMaxLengthInches,
+  minScrapLengthInches,
   formatStockLength: fmt,
 }: {
   board: OptimizedBoard
   kerfInches: number
   maxStockLengthInGroup?: number
   preferredMaxLengthInches?: number
+  minScrapLengthInches?: number
   formatStockLength: (inches: number) => string
 }) {
   const leftoverLabel =
@@ -237,7 +564,16 @@ function BoardResultCard({
         <span className="font-medium text-slate-800 dark:text-slate-200 print:text-slate-900">
           {fmt(board.stockLength)}
           <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400 print:text-slate-700">
-            ({board.source === "scrap" ? "scrap" : "new"})
+            ({board.source === "scrap" ? "scrap" : "new"}
+            {board.scrapPieceId && (
+              <>
+                {" piece "}
+                <span className="font-mono font-semibold text-slate-700 dark:text-slate-200 print:text-slate-900">
+                  {board.scrapPieceId}
+                </span>
+              </>
+            )}
+            )
             {exceedsPreference && (
               <span className="ml-1 text-amber-600 dark:text-amber-400 print:text-slate-700">
                 (exceeds {fmt(preferredMaxLengthInches!)} preference)
@@ -246,7 +582,13 @@ function BoardResultCard({
           </span>
         </span>
         {leftoverLabel && (
-          <span className="text-sm text-slate-600 dark:text-slate-400 print:text-slate-700">
+          <span
+            title={
+              minScrapLengthInches != null
+                ? `Leftovers of ${minScrapLengthInches}" or more are kept as scrap`
+                : undefined
+            }
+            className="text-sm text-slate-600 dark:text-slate-400 print:text-slate-700">
             {leftoverLabel}
           </span>
         )}
@@ -259,7 +601,11 @@ function BoardResultCard({
             : undefined
         }
       >
-        <BoardCutDiagram board={board} kerfInches={kerfInches} />
+        <BoardCutDiagram
+          board={board}
+          kerfInches={kerfInches}
+          minScrapLengthInches={minScrapLengthInches}
+        />
       </div>
       <p className="mt-2 text-sm text-slate-600 dark:text-slate-400 print:text-slate-700">
         Cuts: {board.cuts.map((c) => `${c}"`).join(", ")}
@@ -271,14 +617,18 @@ function BoardResultCard({
 function BoardCutDiagram({
   board,
   kerfInches,
+  minScrapLengthInches,
 }: {
   board: OptimizedBoard
   kerfInches: number
+  minScrapLengthInches?: number
 }) {
-  const { stockLength, cuts, remainingWaste } = board
+  const { stockLength, cuts, remainingWaste, endTrim } = board
   const total = stockLength
 
-  const segments: { length: number; type: "cut" | "kerf" | "waste"; label?: string }[] = []
+  const segments: { length: number; type: "cut" | "kerf" | "waste" | "trim"; label?: string }[] = []
+  const trimSegment = { length: endTrim, type: "trim" as const, label: `End trim ${endTrim}"` }
+  if (endTrim > 0) segments.push(trimSegment)
   cuts.forEach((cut, i) => {
     segments.push({ length: cut, type: "cut", label: `${cut}"` })
     if (i < cuts.length - 1) {
@@ -293,13 +643,16 @@ function BoardCutDiagram({
       label: remainingWaste >= 0.5 ? `${remainingWaste.toFixed(1)}"` : undefined,
     })
   }
+  if (endTrim > 0) segments.push(trimSegment)
 
   return (
     <div className="w-full min-w-0">
       <div
         className="flex h-10 w-full min-w-0 rounded overflow-hidden ring-1 ring-slate-200 dark:ring-slate-600"
         role="img"
-        aria-label={`Cut diagram: ${cuts.map((c) => `${c} inch`).join(", ")} with ${remainingWaste.toFixed(1)} inch waste`}
+        aria-label={`Cut diagram: ${cuts.map((c) => `${c} inch`).join(", ")} with ${remainingWaste.toFixed(1)} inch waste${
+          endTrim > 0 ? ` and ${endTrim} inch trimmed from each end` : ""
+        }`}
       >
         {segments.map((seg, i) => {
           const pct = total > 0 ? (seg.length / total) * 100 : 0
@@ -309,7 +662,9 @@ function BoardCutDiagram({
               ? "bg-emerald-500 dark:bg-emerald-600"
               : seg.type === "kerf"
                 ? "bg-amber-300 dark:bg-amber-500"
-                : "bg-slate-200 dark:bg-slate-500/90 [background-image:repeating-linear-gradient(135deg,transparent,transparent_4px,rgba(15,23,42,.2)_4px,rgba(15,23,42,.2)_7px)]"
+                : seg.type === "trim"
+                  ? "bg-rose-300 dark:bg-rose-500/80"
+                  : "bg-slate-200 dark:bg-slate-500/90 [background-image:repeating-linear-gradient(135deg,transparent,transparent_4px,rgba(15,23,42,.2)_4px,rgba(15,23,42,.2)_7px)]"
           return (
             <div
               key={i}
@@ -354,11 +709,177 @@ function BoardCutDiagram({
           <span className="inline-block h-2.5 w-2 bg-amber-300 dark:bg-amber-500" aria-hidden />
           Kerf (K)
         </span>
+        {endTrim > 0 && (
+          <span className="inline-flex items-center gap-1">
+            <span className="inline-block h-2.5 w-2 bg-rose-300 dark:bg-rose-500/80" aria-hidden />
+            End trim ({endTrim}" each end)
+          </span>
+        )}
+        <span className="inline-flex items-center gap-1">
+          <span className="inline-block h-2.5 w-3 rounded-sm bg-slate-300 dark:bg-slate-500 [background-image:repeating-linear-gradient(135deg,transparent,transparent_3px,rgba(15,23,42,.2)_3px,rgba(15,23,42,.2)_5px)]" aria-hidden />
+          {minScrapLengthInches != null
+            ? `Offcut / waste (hatched; ≥ ${minScrapLengthInches}" kept as scrap)`
+            : "Offcut / waste (hatched)"}
+        </span>
+      </div>
+    </div>
+  )
+}
+
+function SheetResultCard({ sheet }: { sheet: OptimizedSheet }) {
+  const largestOffcut = sheet.offcuts[0]
+  return (
+    <li className="rounded-lg bg-slate-50 dark:bg-slate-700/30 p-3 print:bg-white print:break-inside-avoid">
+      <div className="flex items-baseline justify-between gap-2 mb-2 flex-wrap">
+        <span className="font-medium text-slate-800 dark:text-slate-200 print:text-slate-900">
+          {formatSheetSize(sheet.sheetWidth, sheet.sheetHeight)}
+          <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400 print:text-slate-700">
+            ({sheet.source === "scrap" ? "scrap" : "new"})
+          </span>
+        </span>
+        {largestOffcut && (
+          <span className="text-sm text-slate-600 dark:text-slate-400 print:text-slate-700">
+            Largest offcut: {largestOffcut.width.toFixed(2)}" × {largestOffcut.height.toFixed(2)}"
+          </span>
+        )}
+      </div>
+      <SheetLayoutDiagram sheet={sheet} />
+      <p className="mt-2 text-sm text-slate-600 dark:text-slate-400 print:text-slate-700">
+        Pieces:{" "}
+        {sheet.placements
+          .map((p) => {
+            const notes = [p.rotated && "rotated", p.grain !== "any" && "grain locked"].filter(Boolean)
+            return `${p.width}" × ${p.height}"${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`
+          })
+          .join(", ")}
+      </p>
+    </li>
+  )
+}
+
+/**
+ * Scaled sheet layout. Drawn with the long edge horizontal so 4×8 sheets read like the
+ * board strips above; piece labels still show the sheet's width × height.
+ * Grain-locked pieces get a double-headed arrow along the sheet's grain (its height).
+ */
+function SheetLayoutDiagram({ sheet }: { sheet: OptimizedSheet }) {
+  const landscape = sheet.sheetHeight > sheet.sheetWidth
+  const viewWidth = landscape ? sheet.sheetHeight : sheet.sheetWidth
+  const viewHeight = landscape ? sheet.sheetWidth : sheet.sheetHeight
+  const toView = (r: { x: number; y: number; width: number; height: number }) =>
+    landscape
+      ? { x: r.y, y: r.x, width: r.height, height: r.width }
+      : r
+  const fontSize = Math.max(viewWidth, viewHeight) * 0.028
+  // One pattern per diagram: ids must be unique on a page with several sheets
+  const hatchId = `sheet-offcut-hatch-${useId()}`
+
+  return (
+    <div className="w-full min-w-0">
+      <svg
+        viewBox={`0 0 ${viewWidth} ${viewHeight}`}
+        className="w-full h-auto rounded ring-1 ring-slate-200 dark:ring-slate-600 bg-amber-300 dark:bg-amber-500"
+        role="img"
+        aria-label={`Sheet layout: ${sheet.placements.length} pieces on ${formatSheetSize(sheet.sheetWidth, sheet.sheetHeight)}`}
+      >
+        <defs>
+          <pattern id={hatchId} width="4" height="4" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+            <line x1="0" y1="0" x2="0" y2="4" stroke="rgba(15,23,42,.2)" strokeWidth="1.5" />
+          </pattern>
+        </defs>
+        {sheet.offcuts.map((offcut, i) => {
+          const r = toView(offcut)
+          return (
+            <g key={`offcut-${i}`}>
+              <rect {...r} className="fill-slate-200 dark:fill-slate-500" />
+              <rect {...r} fill={`url(#${hatchId})`} />
+            </g>
+          )
+        })}
+        {sheet.placements.map((placement, i) => {
+          const r = toView(placement)
+          const label = `${placement.width}×${placement.height}`
+          const showLabel = r.width >= label.length * fontSize * 0.6 && r.height >= fontSize * 1.4
+          return (
+            <g key={`piece-${i}`}>
+              <rect
+                {...r}
+                className="fill-emerald-500 dark:fill-emerald-600 stroke-slate-300 dark:stroke-slate-500"
+                strokeWidth={0.3}
+              />
+              {placement.grain !== "any" && (
+                <GrainArrow rect={r} horizontal={landscape} size={fontSize} />
+              )}
+              {showLabel && (
+                <text
+                  x={r.x + r.width / 2}
+                  y={r.y + r.height / 2}
+                  fontSize={fontSize}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  className="fill-white font-medium"
+                >
+                  {label}
+                </text>
+              )}
+            </g>
+          )
+        })}
+      </svg>
+      <div className="mt-1 flex flex-wrap gap-x-3 gap-y-0.5 text-xs text-slate-500 dark:text-slate-400">
+        <span className="inline-flex items-center gap-1">
+          <span className="inline-block h-2.5 w-3 rounded-sm bg-emerald-500 dark:bg-emerald-600" aria-hidden />
+          Piece (W × H)
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span className="inline-block h-2.5 w-2 bg-amber-300 dark:bg-amber-500" aria-hidden />
+          Kerf
+        </span>
         <span className="inline-flex items-center gap-1">
           <span className="inline-block h-2.5 w-3 rounded-sm bg-slate-300 dark:bg-slate-500 [background-image:repeating-linear-gradient(135deg,transparent,transparent_3px,rgba(15,23,42,.2)_3px,rgba(15,23,42,.2)_5px)]" aria-hidden />
-          Offcut / waste (hatched)
+          Offcut (hatched)
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span aria-hidden>{landscape ? "↔" : "↕"}</span>
+          Grain locked
         </span>
       </div>
     </div>
   )
 }
+
+/** Double-headed arrow through a piece, parallel to the sheet's grain. */
+function GrainArrow({
+  rect,
+  horizontal,
+  size,
+}: {
+  rect: { x: number; y: number; width: number; height: number }
+  horizontal: boolean
+  size: number
+}) {
+  const head = Math.min(size * 0.5, (horizontal ? rect.height : rect.width) * 0.2)
+  let d: string
+  if (horizontal) {
+    const y = rect.y + rect.height * 0.8
+    const x1 = rect.x + rect.width * 0.2
+    const x2 = rect.x + rect.width * 0.8
+    d = `M${x1} ${y}H${x2}M${x1 + head} ${y - head}L${x1} ${y}L${x1 + head} ${y + head}M${x2 - head} ${y - head}L${x2} ${y}L${x2 - head} ${y + head}`
+  } else {
+    const x = rect.x + rect.width * 0.8
+    const y1 = rect.y + rect.height * 0.2
+    const y2 = rect.y + rect.height * 0.8
+    d = `M${x} ${y1}V${y2}M${x - head} ${y1 + head}L${x} ${y1}L${x + head} ${y1 + head}M${x - head} ${y2 - head}L${x} ${y2}L${x + head} ${y2 - head}`
+  }
+  return (
+    <path
+      d={d}
+      fill="none"
+      strokeWidth={size * 0.12}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className="stroke-white/80"
+      aria-hidden
+    />
+  )
+}
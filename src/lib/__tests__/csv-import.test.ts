@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest"
+import {
+  guessColumnMapping,
+  importCutList,
+  matchBoardSpecId,
+  parseDelimitedText,
+} from "../csv-import"
+
+// ── parseDelimitedText ───────────────────────────────────────────────────────
+
+describe("parseDelimitedText", () => {
+  it("splits comma-separated text with quoted cells", () => {
+    expect(parseDelimitedText('Part,Length\r\n"Shelf, top",30\n"Say ""hi""",12\n')).toEqual([
+      ["Part", "Length"],
+      ["Shelf, top", "30"],
+      ['Say "hi"', "12"],
+    ])
+  })
+
+  it("detects tabs and semicolons from the first line", () => {
+    expect(parseDelimitedText("a\tb\n1,5\t2")).toEqual([
+      ["a", "b"],
+      ["1,5", "2"],
+    ])
+    expect(parseDelimitedText("a;b\n1;2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ])
+  })
+
+  it("keeps blank lines so row numbers match the file", () => {
+    expect(parseDelimitedText("a\n\nb")).toEqual([["a"], [""], ["b"]])
+  })
+})
+
+// ── guessColumnMapping ───────────────────────────────────────────────────────
+
+describe("guessColumnMapping", () => {
+  it("maps common header names", () => {
+    expect(guessColumnMapping(["Part name", "Qty", "Length (in)", "Size", "Type", "Notes"])).toEqual({
+      name: 0,
+      quantity: 1,
+      length: 2,
+      nominalSize: 3,
+      materialType: 4,
+    })
+  })
+})
+
+// ── matchBoardSpecId ─────────────────────────────────────────────────────────
+
+describe("matchBoardSpecId", () => {
+  it("matches ids, names and short names however they are written", () => {
+    expect(matchBoardSpecId("2x4")).toBe("2x4")
+    expect(matchBoardSpecId("2 × 6")).toBe("2x6")
+    expect(matchBoardSpecId("1×8 dimensional")).toBe("1x8")
+    expect(matchBoardSpecId("4/4")).toBe("4-4-hardwood")
+    expect(matchBoardSpecId("2x5")).toBeNull()
+  })
+})
+
+// ── importCutList ────────────────────────────────────────────────────────────
+
+describe("importCutList", () => {
+  const mapping = { name: 0, length: 1, quantity: 2, nominalSize: 3, width: 4 }
+
+  it("creates one board group per nominal size, merging cuts of the same part", () => {
+    const rows = parseDelimitedText(
+      "Part,Length,Qty,Size,Width\nLeg,29 1/2,4,2x4,\nApron,48,2,2x4,\nRail,29 1/2,2,2x4,\nLeg,29 1/2,1,2x4,\nTop slat,60\",5,1x6,"
+    )
+    const { groups, importedRows, errors } = importCutList(rows, mapping)
+    expect(errors).toEqual([])
+    expect(importedRows).toBe(5)
+    expect(groups.map((g) => [g.boardSpecId, g.cuts])).toEqual([
+      ["1x6", [{ length: 60, quantity: 5, materialType: "board", name: "Top slat" }]],
+      [
+        "2x4",
+        [
+          { length: 48, quantity: 2, materialType: "board", name: "Apron" },
+          { length: 29.5, quantity: 5, materialType: "board", name: "Leg" },
+          { length: 29.5, quantity: 2, materialType: "board", name: "Rail" },
+        ],
+      ],
+    ])
+  })
+
+  it("puts rows with a width into sheet groups by thickness", () => {
+    const rows = [["Side", "30", "2", '3/4"', "12"], ["Back", "30", "1", "", "24"]]
+    const { groups } = importCutList(rows, mapping, { hasHeader: false })
+    expect(groups).toHaveLength(1)
+    expect(groups[0]).toMatchObject({ materialType: "sheet", sheetThickness: '3/4"' })
+    expect(groups[0].sheetPieces).toEqual([
+      { width: 24, height: 30, quantity: 1, name: "Back" },
+      { width: 12, height: 30, quantity: 2, name: "Side" },
+    ])
+  })
+
+  it("uses the material type column when mapped", () => {
+    const rows = [["Shelf", "30", "1", "2x4", "12", "lumber"]]
+    const { groups } = importCutList(rows, { ...mapping, materialType: 5 }, { hasHeader: false })
+    expect(groups[0]).toMatchObject({ materialType: "board", boardSpecId: "2x4" })
+  })
+
+  it("defaults quantity to 1 and the board size to the chosen default", () => {
+    const { groups } = importCutList([["36"]], { length: 0 }, { hasHeader: false, defaultBoardSpecId: "2x6" })
+    expect(groups[0]).toMatchObject({ boardSpecId: "2x6", cuts: [{ length: 36, quantity: 1, materialType: "board" }] })
+  })
+
+  it("reports rows that cannot be imported with their line and part name", () => {
+    const rows = parseDelimitedText(
+      "Part,Length,Qty,Size,Width\nLeg,abc,4,2x4,\nApron,48,1.5,2x4,\n\nShelf,30,1,2x5,\n,30,1,,"
+    )
+    const { groups, importedRows, errors } = importCutList(rows, mapping)
+    expect(groups).toEqual([])
+    expect(importedRows).toBe(0)
+    expect(errors).toEqual([
+      { line: 2, name: "Leg", message: 'length "abc" is not a valid length' },
+      { line: 3, name: "Apron", message: 'quantity "1.5" is not a positive whole number' },
+      { line: 5, name: "Shelf", message: 'nominal size "2x5" is not a known board size' },
+      { line: 6, message: "nominal size is missing" },
+    ])
+  })
+})
@@ -195,6 +195,20 @@ describe("mergeCuts", () => {
     expect(result).toHaveLength(2)
   })
 
+  it("keeps cuts with different part names apart and merges the same name", () => {
+    const result = mergeCuts([
+      { length: 30, quantity: 4, materialType: "board", name: "Leg" },
+      { length: 30, quantity: 2, materialType: "board", name: "Rail" },
+      { length: 30, quantity: 1, materialType: "board", name: "Leg" },
+      { length: 30, quantity: 1, materialType: "board" },
+    ])
+    expect(result).toEqual([
+      { length: 30, quantity: 5, materialType: "board", name: "Leg" },
+      { length: 30, quantity: 2, materialType: "board", name: "Rail" },
+      { length: 30, quantity: 1, materialType: "board" },
+    ])
+  })
+
   it("does not merge cuts with different materialTypes", () => {
     const result = mergeCuts([
       { length: 48, quantity: 2, materialType: "board" },
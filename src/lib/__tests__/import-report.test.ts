@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest"
+import {
+  createImportReport,
+  describeImportReport,
+  describeImportValue,
+  hasImportIssues,
+} from "../import-report"
+
+// ── hasImportIssues ───────────────────────────────────────────────────────────
+
+describe("hasImportIssues", () => {
+  it("is false for an empty report and true once anything is recorded", () => {
+    const report = createImportReport()
+    expect(hasImportIssues(report)).toBe(false)
+    report.skippedGroups.push({ groupIndex: 0, reason: "missing id" })
+    expect(hasImportIssues(report)).toBe(true)
+  })
+})
+
+// ── describeImportValue ───────────────────────────────────────────────────────
+
+describe("describeImportValue", () => {
+  it("renders values as JSON and truncates long ones", () => {
+    expect(describeImportValue("abc")).toBe('"abc"')
+    expect(describeImportValue(undefined)).toBe("undefined")
+    expect(describeImportValue("x".repeat(60))).toHaveLength(40)
+  })
+})
+
+// ── describeImportReport ──────────────────────────────────────────────────────
+
+describe("describeImportReport", () => {
+  it("describes each issue with 1-based positions", () => {
+    expect(
+      describeImportReport({
+        skippedGroups: [{ groupIndex: 1, reason: "missing id" }],
+        droppedItems: [
+          { groupIndex: 0, groupLabel: "Frame", list: "cuts", itemIndex: 2, reason: "quantity 0 is not a positive whole number" },
+        ],
+        defaultedFields: [
+          { groupIndex: 0, groupLabel: "", field: "kerfOverrideInches", value: -1, defaultValue: null },
+          { groupIndex: 3, groupLabel: "Top", field: "sheetStockWidth", value: undefined, defaultValue: 48 },
+        ],
+      })
+    ).toEqual([
+      "Group 2 skipped: missing id.",
+      '"Frame": cut 3 dropped: quantity 0 is not a positive whole number.',
+      "Group 1: kerfOverrideInches -1 is invalid; left unset.",
+      '"Top": sheetStockWidth is missing; used 48.',
+    ])
+  })
+})
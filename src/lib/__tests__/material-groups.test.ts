@@ -199,6 +199,18 @@ describe("mergeSheetPieces", () => {
     expect(result[0]).toEqual({ width: 24, height: 48, quantity: 5 })
   })
 
+  it("keeps pieces with different part names apart", () => {
+    const result = mergeSheetPieces([
+      { width: 24, height: 48, quantity: 2, name: "Side" },
+      { width: 24, height: 48, quantity: 1, name: "Divider" },
+      { width: 24, height: 48, quantity: 1, name: "Side" },
+    ])
+    expect(result).toEqual([
+      { width: 24, height: 48, quantity: 3, name: "Side" },
+      { width: 24, height: 48, quantity: 1, name: "Divider" },
+    ])
+  })
+
   it("does not merge pieces with different dimensions", () => {
     const result = mergeSheetPieces([
       { width: 24, height: 48, quantity: 1 },
@@ -207,6 +219,30 @@ describe("mergeSheetPieces", () => {
     expect(result).toHaveLength(2)
   })
 
+  it("does not merge pieces with different grain", () => {
+    const result = mergeSheetPieces([
+      { width: 24, height: 48, quantity: 1, grain: "length" },
+      { width: 24, height: 48, quantity: 1 },
+    ])
+    expect(result).toHaveLength(2)
+  })
+
+  it("treats a missing grain and 'any' as the same piece", () => {
+    const result = mergeSheetPieces([
+      { width: 24, height: 48, quantity: 1, grain: "any" },
+      { width: 24, height: 48, quantity: 2 },
+    ])
+    expect(result).toEqual([{ width: 24, height: 48, quantity: 3 }])
+  })
+
+  it("keeps a constrained grain on the merged piece", () => {
+    const result = mergeSheetPieces([
+      { width: 24, height: 48, quantity: 1, grain: "width" },
+      { width: 24, height: 48, quantity: 2, grain: "width" },
+    ])
+    expect(result).toEqual([{ width: 24, height: 48, quantity: 3, grain: "width" }])
+  })
+
   it("sorts by area descending", () => {
     const result = mergeSheetPieces([
       { width: 12, height: 12, quantity: 1 }, // 144
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest"
+import { collectOffcuts } from "../offcuts"
+import { generateProjectResult } from "../project-result"
+import { createBoardGroup, createSheetGroup } from "../material-groups"
+import type { MaterialGroup } from "../material-groups"
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function boardGroup(overrides?: Partial<MaterialGroup>): MaterialGroup {
+  return { ...createBoardGroup(), ...overrides }
+}
+
+// ── collectOffcuts ───────────────────────────────────────────────────────────
+
+describe("collectOffcuts", () => {
+  it("returns nothing for an empty project", () => {
+    expect(collectOffcuts(generateProjectResult([]))).toEqual([])
+  })
+
+  it("proposes reusable offcuts keyed by the group's board spec, rounded down", () => {
+    // 96 - 60.5 = 35.5 → 35"
+    const group = boardGroup({ boardSpecId: "2x6", cuts: [{ length: 60.5, quantity: 1 }] })
+    expect(collectOffcuts(generateProjectResult([group]))).toEqual([
+      { materialType: "board", nominalSizeId: "2x6", stockLength: 35, quantity: 1 },
+    ])
+  })
+
+  it("merges equal offcuts into one entry", () => {
+    const group = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 60, quantity: 3 }] })
+    expect(collectOffcuts(generateProjectResult([group]))).toEqual([
+      { materialType: "board", nominalSizeId: "2x4", stockLength: 36, quantity: 3 },
+    ])
+  })
+
+  it("skips waste below the group's reusable threshold", () => {
+    // 96 - 80 = 16: below 2x4's 24" threshold, kept with a 12" override
+    const cuts = [{ length: 80, quantity: 1 }]
+    const framing = boardGroup({ boardSpecId: "2x4", cuts })
+    const keepShort = boardGroup({ boardSpecId: "2x4", minScrapLengthOverrideInches: 12, cuts })
+    expect(collectOffcuts(generateProjectResult([framing]))).toEqual([])
+    expect(collectOffcuts(generateProjectResult([keepShort]))).toEqual([
+      { materialType: "board", nominalSizeId: "2x4", stockLength: 16, quantity: 1 },
+    ])
+  })
+
+  it("drops offcuts that fall below the threshold once rounded down", () => {
+    // 96 - 71.5 = 24.5 → 24" (kept); 96 - 72.5 = 23.5 → 23" (dropped)
+    const kept = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 71.5, quantity: 1 }] })
+    const dropped = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 72.5, quantity: 1 }] })
+    expect(collectOffcuts(generateProjectResult([kept]))).toHaveLength(1)
+    expect(collectOffcuts(generateProjectResult([dropped]))).toEqual([])
+  })
+
+  it("keeps the far-end trim on the offcut's recorded length", () => {
+    // 96 - 2 × 1 trim - 60 = 34" reusable, plus the 1" trim still on the far end
+    const group = boardGroup({ boardSpecId: "4-4-hardwood", cuts: [{ length: 60, quantity: 1 }] })
+    expect(collectOffcuts(generateProjectResult([group]))).toEqual([
+      { materialType: "board", nominalSizeId: "4-4-hardwood", stockLength: 35, quantity: 1 },
+    ])
+  })
+
+  it("includes offcuts left on scrap boards", () => {
+    const group = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 40, quantity: 1 }] })
+    const result = generateProjectResult([group], {
+      scrap: [{ materialType: "board", nominalSizeId: "2x4", stockLength: 72, quantity: 1 }],
+    })
+    expect(result.diagrams[0].boards[0].source).toBe("scrap")
+    expect(collectOffcuts(result)).toEqual([
+      { materialType: "board", nominalSizeId: "2x4", stockLength: 32, quantity: 1 },
+    ])
+  })
+
+  it("proposes rectangular sheet offcuts with the group's thickness, rounded down", () => {
+    // 20×20 in the corner of a 4×8 sheet: a 48 × 75.875 strip and a 27.875 × 20.125 block
+    const sheets = { ...createSheetGroup(), sheetPieces: [{ width: 20, height: 20, quantity: 1 }] }
+    expect(collectOffcuts(generateProjectResult([sheets]))).toEqual([
+      { materialType: "sheet", width: 48, height: 75, thickness: '3/4"', quantity: 1 },
+      { materialType: "sheet", width: 27, height: 20, thickness: '3/4"', quantity: 1 },
+    ])
+  })
+
+  it("skips sheet offcuts with a side under 12 inches", () => {
+    // 40×90 leaves 7.875" and 5.875" strips
+    const sheets = { ...createSheetGroup(), sheetPieces: [{ width: 40, height: 90, quantity: 1 }] }
+    expect(collectOffcuts(generateProjectResult([sheets]))).toEqual([])
+  })
+})
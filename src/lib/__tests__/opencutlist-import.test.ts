@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest"
+import { importOpenCutList, isOpenCutListExport, parseModelLength } from "../opencutlist-import"
+import { parseDelimitedText } from "../csv-import"
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const HEADER =
+  "Number,Name,Count,Cutting length,Cutting width,Cutting thickness,Bbox length,Bbox width,Bbox thickness,Material name,Material type"
+
+function exportRows(...parts: string[]): string[][] {
+  return parseDelimitedText([HEADER, ...parts].join("\n"))
+}
+
+// ── parseModelLength ─────────────────────────────────────────────────────────
+
+describe("parseModelLength", () => {
+  it("reads inches, feet and inches, and fractions", () => {
+    expect(parseModelLength('23 5/8"')).toBe(23.625)
+    expect(parseModelLength("1' 11 5/8\"")).toBe(23.625)
+    expect(parseModelLength("2'")).toBe(24)
+    expect(parseModelLength("~ 18.5")).toBe(18.5)
+  })
+
+  it("converts metric lengths to inches", () => {
+    expect(parseModelLength("254 mm")).toBeCloseTo(10)
+    expect(parseModelLength("2,54 cm")).toBeCloseTo(1)
+    expect(parseModelLength("1 m")).toBeCloseTo(39.37, 2)
+  })
+
+  it("returns NaN for text that is not a length", () => {
+    expect(parseModelLength("")).toBeNaN()
+    expect(parseModelLength("long")).toBeNaN()
+  })
+})
+
+// ── isOpenCutListExport ──────────────────────────────────────────────────────
+
+describe("isOpenCutListExport", () => {
+  it("recognises the export header", () => {
+    expect(isOpenCutListExport(HEADER.split(","))).toBe(true)
+  })
+
+  it("does not claim a plain cut list", () => {
+    expect(isOpenCutListExport(["Part", "Length", "Qty", "Size"])).toBe(false)
+  })
+})
+
+// ── importOpenCutList ────────────────────────────────────────────────────────
+
+describe("importOpenCutList", () => {
+  it("matches dimensional parts to board sizes by section and keeps part names", () => {
+    const { groups, importedRows, errors } = importOpenCutList(
+      exportRows(
+        'A,Leg,4,29 1/2",3 1/2",1 1/2",,,,Pine,Dimensional',
+        'B,Stretcher,2,48",3",1 1/2",,,,Pine,Dimensional',
+        'C,Slat,6,36",5 1/2",3/4",,,,Pine,Dimensional'
+      )
+    )
+    expect(errors).toEqual([])
+    expect(importedRows).toBe(3)
+    expect(groups.map((g) => [g.label, g.boardSpecId])).toEqual([
+      ["Pine 2x4 framing", "2x4"],
+      ["Pine 1x6 framing", "1x6"],
+    ])
+    expect(groups[0].cuts).toEqual([
+      { length: 48, quantity: 2, materialType: "board", name: "Stretcher" },
+      { length: 29.5, quantity: 4, materialType: "board", name: "Leg" },
+    ])
+  })
+
+  it("uses a material named after a board size, and hardwood specs for solid wood", () => {
+    const { groups } = importOpenCutList(
+      exportRows(
+        'A,Post,2,900 mm,89 mm,89 mm,,,,2x4,Unknown',
+        'B,Rail,2,30",2",3/4",,,,Walnut,Solid Wood',
+        'C,Top,1,40",6",1 1/4",,,,Walnut,Solid Wood'
+      )
+    )
+    expect(groups.map((g) => [g.label, g.boardSpecId])).toEqual([
+      ["2x4 framing", "2x4"],
+      ["Walnut 4/4 boards", "4-4-hardwood"],
+      ["Walnut 6/4 boards", "6-4-hardwood"],
+    ])
+    expect(groups[0].cuts[0].length).toBeCloseTo(35.43, 2)
+  })
+
+  it("puts sheet good parts in a sheet group per material and thickness", () => {
+    const { groups } = importOpenCutList(
+      exportRows(
+        'A,Side,2,30",12",3/4",,,,Birch ply,Sheet Good',
+        'B,Back,1,30",24",1/4",,,,Birch ply,Sheet Good',
+        'C,Shelf,3,22",11 1/4",3/4",,,,Birch ply,Sheet Good'
+      )
+    )
+    expect(groups).toHaveLength(2)
+    expect(groups[0]).toMatchObject({
+      materialType: "sheet",
+      label: '3/4" Birch ply',
+      sheetThickness: '3/4"',
+    })
+    expect(groups[0].sheetPieces).toEqual([
+      { width: 12, height: 30, quantity: 2, name: "Side" },
+      { width: 11.25, height: 22, quantity: 3, name: "Shelf" },
+    ])
+    expect(groups[1]).toMatchObject({ label: '1/4" Birch ply', sheetThickness: '1/4"' })
+  })
+
+  it("reports parts it cannot map with their row and name", () => {
+    const { groups, importedRows, errors } = importOpenCutList(
+      exportRows(
+        'A,Edge,4,30",1",1 mm,,,,Oak edge,Edge',
+        'B,Beam,1,96",13",1 1/2",,,,Pine,Dimensional',
+        'C,Door,1,30",12",3",,,,Oak,Solid Wood',
+        'D,Cleat,x,12",2",3/4",,,,Pine,Dimensional',
+        'E,Block,1,12",2",,,,,Pine,Dimensional',
+        "",
+        'F,Knob,1,1",1",1",,,,,'
+      )
+    )
+    expect(groups).toEqual([])
+    expect(importedRows).toBe(0)
+    expect(errors).toEqual([
+      { line: 2, name: "Edge", message: 'material type "Edge" is not lumber or sheet goods' },
+      { line: 3, name: "Beam", message: '1.5" × 13" does not fit any board size' },
+      { line: 4, name: "Door", message: '3" × 12" does not fit any board size' },
+      { line: 5, name: "Cleat", message: 'count "x" is not a positive whole number' },
+      { line: 6, name: "Block", message: "thickness is missing" },
+      { line: 8, name: "Knob", message: "material type is missing" },
+    ])
+  })
+})
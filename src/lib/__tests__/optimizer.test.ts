@@ -5,14 +5,18 @@ import {
   mergeScrapEntries,
   optimizeBoardCuts,
   optimizeCuts,
+  optimizeSheetCuts,
   optimize,
-  MIN_SCRAP_LENGTH_INCHES,
+  findUnplacedBoardCuts,
+  findUnplacedSheetPieces,
+  DEFAULT_EXACT_SEARCH_MAX_NODES,
   type ScrapBoard,
   type ScrapEntry,
   // internal helpers exported for testing
   candidateOrderings,
+  sheetPieceOrderings,
 } from "../optimizer"
-import type { BoardSpec } from "../stock-profiles"
+import { DEFAULT_MIN_SCRAP_LENGTH_INCHES, type BoardSpec, type SheetSpec } from "../stock-profiles"
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -29,6 +33,15 @@ const spec2x4SmallOnly: BoardSpec = {
   allowedLengths: [96],
 }
 
+const plywood4x8: SheetSpec = {
+  id: "plywood",
+  name: "Plywood",
+  materialType: "sheet",
+  sheetWidth: 48,
+  sheetHeight: 96,
+  kerf: 0.125,
+}
+
 // ── mergeScrapBoards ──────────────────────────────────────────────────────────
 
 describe("mergeScrapBoards", () => {
@@ -45,6 +58,31 @@ describe("mergeScrapBoards", () => {
     expect(result[0]).toEqual({ nominalSizeId: "2x4", stockLength: 96, quantity: 5 })
   })
 
+  it("keeps boards in different locations apart and drops blank locations", () => {
+    const result = mergeScrapBoards([
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 1, location: " Rack A " },
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 2, location: "Rack A" },
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 1, location: "  " },
+    ])
+    expect(result).toEqual([
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 3, location: "Rack A" },
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 1 },
+    ])
+  })
+
+  it("never merges individually tracked pieces", () => {
+    const result = mergeScrapBoards([
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 1, pieceId: "AB23", addedAt: "2026-01-02" },
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 1, pieceId: "CD45" },
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 1 },
+    ])
+    expect(result).toEqual([
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 1, pieceId: "AB23", addedAt: "2026-01-02" },
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 1, pieceId: "CD45" },
+      { nominalSizeId: "2x4", stockLength: 96, quantity: 1 },
+    ])
+  })
+
   it("does not merge boards with different stockLength", () => {
     const result = mergeScrapBoards([
       { nominalSizeId: "2x4", stockLength: 96, quantity: 1 },
@@ -276,13 +314,30 @@ describe("optimizeBoardCuts", () => {
     expect(result[0].scrapRemaining).toBe(0)
   })
 
-  it(`classifies remaining exactly ${MIN_SCRAP_LENGTH_INCHES}\" as scrap`, () => {
+  it(`classifies remaining exactly ${DEFAULT_MIN_SCRAP_LENGTH_INCHES}" as scrap`, () => {
     // 96 - 84 = 12 → scrap
     const result = optimizeBoardCuts([{ length: 84, quantity: 1 }], spec2x4SmallOnly)
     expect(result[0].scrapRemaining).toBeCloseTo(12)
     expect(result[0].wasteRemaining).toBe(0)
   })
 
+  it("uses the spec's minScrapLength as the scrap threshold", () => {
+    // 96 - 84 = 12 → waste when only offcuts ≥ 24" are kept
+    const spec = { ...spec2x4SmallOnly, minScrapLength: 24 }
+    const result = optimizeBoardCuts([{ length: 84, quantity: 1 }], spec)
+    expect(result[0].wasteRemaining).toBeCloseTo(12)
+    expect(result[0].scrapRemaining).toBe(0)
+    // 96 - 70 = 26 → scrap
+    expect(optimizeBoardCuts([{ length: 70, quantity: 1 }], spec)[0].scrapRemaining).toBeCloseTo(26)
+  })
+
+  it("keeps every leftover as scrap when minScrapLength is 0", () => {
+    const spec = { ...spec2x4SmallOnly, minScrapLength: 0 }
+    const result = optimizeBoardCuts([{ length: 90, quantity: 1 }], spec)
+    expect(result[0].scrapRemaining).toBeCloseTo(6)
+    expect(result[0].wasteRemaining).toBe(0)
+  })
+
   it("packs multiple cuts onto one board when they fit", () => {
     // 40 + 0.125 kerf + 40 = 80.125 ≤ 96 → fits on one board
     const result = optimizeBoardCuts(
@@ -564,6 +619,359 @@ describe("optimizeBoardCuts multi-strategy", () => {
   })
 })
 
+// ── exact search ──────────────────────────────────────────────────────────────
+
+describe("optimizeBoardCuts exact search", () => {
+  // Heuristic orderings all need 4 boards; 3 × [42, 25, 25 | 24] packs into 3
+  const mixedCuts = [
+    { length: 42, quantity: 3 },
+    { length: 25, quantity: 3 },
+    { length: 24, quantity: 3 },
+  ]
+
+  it("heuristic alone leaves one board over the minimum", () => {
+    expect(optimizeBoardCuts(mixedCuts, spec2x4SmallOnly)).toHaveLength(4)
+  })
+
+  it("finds the minimum board count", () => {
+    const result = optimizeBoardCuts(mixedCuts, spec2x4SmallOnly, { exactSearch: {} })
+    expect(result).toHaveLength(3)
+    for (const board of result) {
+      expect(board.remainingWaste).toBeGreaterThanOrEqual(0)
+    }
+  })
+
+  it("places every cut exactly once", () => {
+    const result = optimizeBoardCuts(mixedCuts, spec2x4SmallOnly, { exactSearch: {} })
+    const placed = result.flatMap((b) => b.cuts).sort((a, b) => a - b)
+    expect(placed).toEqual([24, 24, 24, 25, 25, 25, 42, 42, 42])
+  })
+
+  it("falls back to the heuristic result when the node budget is exhausted", () => {
+    const heuristic = optimizeBoardCuts(mixedCuts, spec2x4SmallOnly)
+    const budgeted = optimizeBoardCuts(mixedCuts, spec2x4SmallOnly, { exactSearch: { maxNodes: 1 } })
+    expect(budgeted).toEqual(heuristic)
+  })
+
+  it("is deterministic", () => {
+    const a = optimizeBoardCuts(mixedCuts, spec2x4, { exactSearch: {} })
+    const b = optimizeBoardCuts(mixedCuts, spec2x4, { exactSearch: {} })
+    expect(a).toEqual(b)
+  })
+
+  it("respects the preferred max length when choosing stock", () => {
+    // One 144" board holds all three, but 144" exceeds the 96" preference
+    const result = optimizeBoardCuts([{ length: 45, quantity: 3 }], spec2x4, {
+      preferredMaxLengthInches: 96,
+      exactSearch: {},
+    })
+    expect(result.every((b) => b.stockLength === 96)).toBe(true)
+    expect(result).toHaveLength(2)
+  })
+
+  it("uses longer stock to save boards when there is no preference", () => {
+    const result = optimizeBoardCuts([{ length: 45, quantity: 3 }], spec2x4, { exactSearch: {} })
+    expect(result).toHaveLength(1)
+    expect(result[0].stockLength).toBe(144)
+  })
+
+  it("still drops cuts that exceed all stock lengths", () => {
+    const result = optimizeBoardCuts(
+      [
+        { length: 200, quantity: 1 },
+        { length: 48, quantity: 1 },
+      ],
+      spec2x4,
+      { exactSearch: {} }
+    )
+    expect(result.flatMap((b) => b.cuts)).toEqual([48])
+  })
+
+  it("only refines the new-board phase; scrap is used first", () => {
+    const scrap: ScrapBoard[] = [{ nominalSizeId: "2x4", stockLength: 96, quantity: 1 }]
+    const result = optimizeBoardCuts(mixedCuts, spec2x4SmallOnly, { scrap, exactSearch: {} })
+    expect(result[0].source).toBe("scrap")
+  })
+
+  it("exports a positive default node budget", () => {
+    expect(DEFAULT_EXACT_SEARCH_MAX_NODES).toBeGreaterThan(0)
+  })
+})
+
+// ── end trim ──────────────────────────────────────────────────────────────────
+
+describe("optimizeBoardCuts end trim", () => {
+  const trimmed: BoardSpec = { ...spec2x4, endTrim: 1 }
+
+  it("removes the trim from both ends before packing", () => {
+    const result = optimizeBoardCuts([{ length: 94, quantity: 1 }], { ...trimmed, allowedLengths: [96] })
+    expect(result).toHaveLength(1)
+    expect(result[0].stockLength).toBe(96)
+    expect(result[0].endTrim).toBe(1)
+    expect(result[0].remainingWaste).toBe(0)
+  })
+
+  it("moves a cut to longer stock when it no longer fits after trimming", () => {
+    const result = optimizeBoardCuts([{ length: 95, quantity: 1 }], trimmed)
+    expect(result[0].stockLength).toBe(120)
+    expect(result[0].remainingWaste).toBe(23)
+  })
+
+  it("drops cuts longer than every trimmed length", () => {
+    const result = optimizeBoardCuts([{ length: 143, quantity: 1 }], trimmed)
+    expect(result).toEqual([])
+  })
+
+  it("trims scrap boards too", () => {
+    const scrap: ScrapBoard[] = [{ nominalSizeId: "2x4", stockLength: 50, quantity: 1 }]
+    const fits = optimizeBoardCuts([{ length: 48, quantity: 1 }], trimmed, { scrap })
+    const tooLong = optimizeBoardCuts([{ length: 49, quantity: 1 }], trimmed, { scrap })
+    expect(fits[0]).toMatchObject({ source: "scrap", stockLength: 50, remainingWaste: 0 })
+    expect(tooLong[0].source).toBe("new")
+  })
+
+  it("keeps the preferred max length in stock terms", () => {
+    const result = optimizeBoardCuts([{ length: 90, quantity: 1 }], trimmed, {
+      preferredMaxLengthInches: 96,
+    })
+    expect(result[0].stockLength).toBe(96)
+  })
+
+  it("keeps stock prices keyed by stock length", () => {
+    const result = optimizeBoardCuts([{ length: 90, quantity: 2 }], { ...trimmed, allowedLengths: [96, 192] }, {
+      objective: "cost",
+      stockPrices: { 96: 10, 192: 18 },
+    })
+    expect(result.map((b) => b.stockLength)).toEqual([192])
+  })
+
+  it("reports zero end trim when the spec has none", () => {
+    const result = optimizeBoardCuts([{ length: 40, quantity: 1 }], spec2x4)
+    expect(result[0].endTrim).toBe(0)
+  })
+})
+
+// ── cost objective ────────────────────────────────────────────────────────────
+
+describe("optimizeBoardCuts cost objective", () => {
+  const spec2x6: BoardSpec = {
+    id: "2x6",
+    name: "2×6 dimensional",
+    materialType: "board",
+    allowedLengths: [96, 192],
+    kerf: 0.125,
+  }
+  const twoLongCuts = [{ length: 90, quantity: 2 }]
+  const totalCost = (boards: { stockLength: number }[], prices: Record<number, number>) =>
+    boards.reduce((s, b) => s + prices[b.stockLength], 0)
+
+  it("buys one long board when it costs less than two short ones", () => {
+    const result = optimizeBoardCuts(twoLongCuts, spec2x6, {
+      objective: "cost",
+      stockPrices: { 96: 10, 192: 18 },
+    })
+    expect(result.map((b) => b.stockLength)).toEqual([192])
+  })
+
+  it("buys two short boards when the long one costs more", () => {
+    const result = optimizeBoardCuts(twoLongCuts, spec2x6, {
+      objective: "cost",
+      stockPrices: { 96: 10, 192: 25 },
+    })
+    expect(result.map((b) => b.stockLength)).toEqual([96, 96])
+  })
+
+  it("behaves like the board-count objective without prices", () => {
+    const byBoards = optimizeBoardCuts(twoLongCuts, spec2x6)
+    const byCost = optimizeBoardCuts(twoLongCuts, spec2x6, { objective: "cost" })
+    expect(byCost).toEqual(byBoards)
+  })
+
+  it("ignores prices under the board-count objective", () => {
+    const result = optimizeBoardCuts(twoLongCuts, spec2x6, {
+      objective: "boards",
+      stockPrices: { 96: 10, 192: 1 },
+    })
+    expect(result.map((b) => b.stockLength)).toEqual([96, 96])
+  })
+
+  it("estimates unpriced lengths from the average per-inch price", () => {
+    // 96" and 120" at $10 average ~$0.094/in, so 192" is estimated at ~$18 < 2 × $10
+    const spec: BoardSpec = { ...spec2x6, allowedLengths: [96, 120, 192] }
+    const result = optimizeBoardCuts(twoLongCuts, spec, {
+      objective: "cost",
+      stockPrices: { 96: 10, 120: 10 },
+    })
+    expect(result.map((b) => b.stockLength)).toEqual([192])
+  })
+
+  it("exact search never costs more than the heuristic", () => {
+    const cuts = [
+      { length: 42, quantity: 3 },
+      { length: 25, quantity: 3 },
+      { length: 24, quantity: 3 },
+    ]
+    const spec: BoardSpec = { ...spec2x4, allowedLengths: [96, 120, 144, 192] }
+    const stockPrices = { 96: 5, 120: 6, 144: 7, 192: 8 }
+    const heuristic = optimizeBoardCuts(cuts, spec, { objective: "cost", stockPrices })
+    const exact = optimizeBoardCuts(cuts, spec, { objective: "cost", stockPrices, exactSearch: {} })
+    expect(totalCost(exact, stockPrices)).toBeLessThanOrEqual(totalCost(heuristic, stockPrices))
+    expect(totalCost(exact, stockPrices)).toBe(13)
+  })
+
+  it("passes through the optimizeCuts dispatcher", () => {
+    const result = optimizeCuts(twoLongCuts, spec2x6, {
+      objective: "cost",
+      stockPrices: { 96: 10, 192: 18 },
+    })
+    expect(result.map((b) => b.stockLength)).toEqual([192])
+  })
+})
+
+// ── scrap objective ───────────────────────────────────────────────────────────
+
+describe("optimizeBoardCuts scrap objective", () => {
+  const spec: BoardSpec = {
+    id: "2x4",
+    name: "2×4 dimensional",
+    materialType: "board",
+    allowedLengths: [96],
+    kerf: 0,
+  }
+  const leftovers = (boards: { remainingWaste: number }[]) => boards.map((b) => b.remainingWaste)
+
+  it("prefers layouts that leave more reusable offcut length", () => {
+    const cuts = [
+      { length: 60, quantity: 3 },
+      { length: 10, quantity: 3 },
+    ]
+    const byBoards = optimizeBoardCuts(cuts, spec, { exactSearch: {} })
+    const byScrap = optimizeBoardCuts(cuts, spec, { exactSearch: {}, objective: "scrap" })
+    expect(byScrap).toHaveLength(byBoards.length)
+    expect(byBoards.reduce((s, b) => s + b.wasteRemaining, 0)).toBeCloseTo(6)
+    expect(byScrap.every((b) => b.wasteRemaining === 0)).toBe(true)
+    expect(byScrap.reduce((s, b) => s + b.scrapRemaining, 0)).toBeCloseTo(78)
+  })
+
+  it("gathers leftover into fewer, longer offcuts when all of it is reusable", () => {
+    const cuts = [
+      { length: 85, quantity: 2 },
+      { length: 50, quantity: 1 },
+      { length: 30, quantity: 2 },
+      { length: 20, quantity: 2 },
+    ]
+    const keepAll = { ...spec, minScrapLength: 0 }
+    const byBoards = optimizeBoardCuts(cuts, keepAll)
+    const byScrap = optimizeBoardCuts(cuts, keepAll, { objective: "scrap" })
+    expect(byScrap).toHaveLength(byBoards.length)
+    expect(Math.max(...leftovers(byBoards))).toBeCloseTo(26)
+    expect(Math.max(...leftovers(byScrap))).toBeCloseTo(36)
+  })
+
+  it("never uses more boards or stock than the board-count objective", () => {
+    const cuts = [
+      { length: 50, quantity: 3 },
+      { length: 30, quantity: 3 },
+      { length: 25, quantity: 3 },
+    ]
+    const byBoards = optimizeBoardCuts(cuts, spec, { exactSearch: {} })
+    const byScrap = optimizeBoardCuts(cuts, spec, { exactSearch: {}, objective: "scrap" })
+    const total = (boards: { stockLength: number }[]) => boards.reduce((s, b) => s + b.stockLength, 0)
+    expect(byScrap).toHaveLength(byBoards.length)
+    expect(total(byScrap)).toBe(total(byBoards))
+  })
+})
+
+// ── unplaced cuts ─────────────────────────────────────────────────────────────
+
+describe("findUnplacedBoardCuts", () => {
+  it("returns nothing when every cut is placed", () => {
+    const cuts = [{ length: 48, quantity: 3 }]
+    expect(findUnplacedBoardCuts(cuts, optimizeBoardCuts(cuts, spec2x4))).toEqual([])
+  })
+
+  it("reports cuts longer than every stock length", () => {
+    const cuts = [
+      { length: 200, quantity: 2 },
+      { length: 48, quantity: 1 },
+    ]
+    const unplaced = findUnplacedBoardCuts(cuts, optimizeBoardCuts(cuts, spec2x4))
+    expect(unplaced).toEqual([{ materialType: "board", length: 200, quantity: 2, reason: "exceeds-stock" }])
+  })
+
+  it("does not report long cuts that fit a long scrap board", () => {
+    const cuts = [{ length: 200, quantity: 1 }]
+    const scrap: ScrapBoard[] = [{ nominalSizeId: "2x4", stockLength: 240, quantity: 1 }]
+    const boards = optimizeBoardCuts(cuts, spec2x4, { scrap })
+    expect(findUnplacedBoardCuts(cuts, boards)).toEqual([])
+  })
+
+  it("reports invalid lengths and quantities", () => {
+    const cuts = [
+      { length: 0, quantity: 1 },
+      { length: NaN, quantity: 2 },
+      { length: 30, quantity: 1.5 },
+      { length: 30, quantity: 0 },
+    ]
+    const unplaced = findUnplacedBoardCuts(cuts, optimizeBoardCuts(cuts, spec2x4))
+    expect(unplaced.map((u) => u.reason)).toEqual([
+      "invalid-length",
+      "invalid-length",
+      "invalid-quantity",
+      "invalid-quantity",
+    ])
+  })
+
+  it("matches placed cuts across duplicate entries of the same length", () => {
+    const cuts = [
+      { length: 50, quantity: 1 },
+      { length: 50, quantity: 2 },
+    ]
+    // Only two 50" cuts placed: the second entry is short by one
+    const boards = optimizeBoardCuts([{ length: 50, quantity: 2 }], spec2x4)
+    expect(findUnplacedBoardCuts(cuts, boards)).toEqual([
+      { materialType: "board", length: 50, quantity: 1, reason: "exceeds-stock" },
+    ])
+  })
+})
+
+describe("findUnplacedSheetPieces", () => {
+  it("returns nothing when every piece is placed, rotated or not", () => {
+    const pieces = [
+      { width: 90, height: 20, quantity: 1 },
+      { width: 20, height: 30, quantity: 2 },
+    ]
+    expect(findUnplacedSheetPieces(pieces, optimizeSheetCuts(pieces, plywood4x8))).toEqual([])
+  })
+
+  it("reports pieces larger than the sheet", () => {
+    const pieces = [
+      { width: 50, height: 100, quantity: 1 },
+      { width: 20, height: 20, quantity: 1 },
+    ]
+    expect(findUnplacedSheetPieces(pieces, optimizeSheetCuts(pieces, plywood4x8))).toEqual([
+      { materialType: "sheet", width: 50, height: 100, quantity: 1, reason: "exceeds-stock" },
+    ])
+  })
+
+  it("reports pieces whose grain forbids the only orientation that fits", () => {
+    const pieces = [{ width: 90, height: 20, quantity: 1, grain: "length" as const }]
+    const unplaced = findUnplacedSheetPieces(pieces, optimizeSheetCuts(pieces, plywood4x8))
+    expect(unplaced).toEqual([
+      { materialType: "sheet", width: 90, height: 20, quantity: 1, reason: "exceeds-stock" },
+    ])
+  })
+
+  it("reports invalid sizes and quantities", () => {
+    const pieces = [
+      { width: -1, height: 20, quantity: 1 },
+      { width: 10, height: 20, quantity: 0 },
+    ]
+    const unplaced = findUnplacedSheetPieces(pieces, optimizeSheetCuts(pieces, plywood4x8))
+    expect(unplaced.map((u) => u.reason)).toEqual(["invalid-length", "invalid-quantity"])
+  })
+})
+
 // ── optimizeCuts dispatcher ───────────────────────────────────────────────────
 
 describe("optimizeCuts", () => {
@@ -576,14 +984,14 @@ describe("optimizeCuts", () => {
     expect(result[0].source).toBe("new")
   })
 
-  it("returns [] for 'sheet' materialType (not implemented)", () => {
-    const sheetSpec = {
-      id: "plywood",
-      name: "Plywood",
-      materialType: "sheet" as const,
-    }
-    const result = optimizeCuts([], sheetSpec)
-    expect(result).toEqual([])
+  it("routes 'sheet' materialType to optimizeSheetCuts", () => {
+    const result = optimizeCuts([{ width: 24, height: 48, quantity: 1 }], plywood4x8)
+    expect(result).toHaveLength(1)
+    expect(result[0].placements).toHaveLength(1)
+  })
+
+  it("returns [] for 'sheet' materialType with no pieces", () => {
+    expect(optimizeCuts([], plywood4x8)).toEqual([])
   })
 
   it("passes scrap and preferredMaxLengthInches options through", () => {
@@ -599,6 +1007,281 @@ describe("optimizeCuts", () => {
   })
 })
 
+// ── optimizeSheetCuts ─────────────────────────────────────────────────────────
+
+/** True when two placements share any area. */
+function overlaps(
+  a: { x: number; y: number; width: number; height: number },
+  b: { x: number; y: number; width: number; height: number }
+): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+}
+
+describe("optimizeSheetCuts", () => {
+  it("returns empty array for no pieces", () => {
+    expect(optimizeSheetCuts([], plywood4x8)).toEqual([])
+  })
+
+  it("returns empty array for a non-positive sheet size", () => {
+    const bad: SheetSpec = { ...plywood4x8, sheetWidth: 0 }
+    expect(optimizeSheetCuts([{ width: 12, height: 12, quantity: 1 }], bad)).toEqual([])
+  })
+
+  it("places a single piece at the sheet origin", () => {
+    const result = optimizeSheetCuts([{ width: 40, height: 30, quantity: 1 }], plywood4x8)
+    expect(result).toHaveLength(1)
+    expect(result[0].placements[0]).toEqual({
+      x: 0,
+      y: 0,
+      width: 40,
+      height: 30,
+      rotated: false,
+      grain: "any",
+    })
+    expect(result[0].source).toBe("new")
+    expect(result[0].sheetWidth).toBe(48)
+    expect(result[0].sheetHeight).toBe(96)
+  })
+
+  it("computes remainingArea as sheet area minus piece area", () => {
+    const result = optimizeSheetCuts([{ width: 24, height: 30, quantity: 1 }], plywood4x8)
+    expect(result[0].remainingArea).toBeCloseTo(48 * 96 - 24 * 30)
+  })
+
+  it("fits a full-sheet piece exactly without kerf", () => {
+    const result = optimizeSheetCuts([{ width: 48, height: 96, quantity: 1 }], plywood4x8)
+    expect(result).toHaveLength(1)
+    expect(result[0].offcuts).toEqual([])
+    expect(result[0].remainingArea).toBe(0)
+  })
+
+  it("accounts for kerf between pieces", () => {
+    // Two 24" wide pieces need 48.125" with kerf → cannot sit side by side on a 48" sheet
+    const result = optimizeSheetCuts([{ width: 24, height: 96, quantity: 2 }], plywood4x8)
+    expect(result).toHaveLength(2)
+  })
+
+  it("packs pieces side by side when kerf allows", () => {
+    // 23.9 + 0.125 + 23.9 = 47.925 ≤ 48
+    const result = optimizeSheetCuts([{ width: 23.9, height: 96, quantity: 2 }], plywood4x8)
+    expect(result).toHaveLength(1)
+    const [a, b] = result[0].placements
+    expect(overlaps(a, b)).toBe(false)
+  })
+
+  it("rotates pieces that only fit turned 90°", () => {
+    const result = optimizeSheetCuts([{ width: 90, height: 40, quantity: 1 }], plywood4x8)
+    expect(result).toHaveLength(1)
+    const p = result[0].placements[0]
+    expect(p.rotated).toBe(true)
+    expect(p.width).toBe(40)
+    expect(p.height).toBe(90)
+  })
+
+  it("never rotates pieces with grain 'length'", () => {
+    // 90 × 40 only fits turned; with the grain locked to the sheet length it cannot be placed
+    const result = optimizeSheetCuts(
+      [{ width: 90, height: 40, quantity: 1, grain: "length" }],
+      plywood4x8
+    )
+    expect(result).toEqual([])
+  })
+
+  it("keeps 'length' pieces upright even when turning would pack tighter", () => {
+    const result = optimizeSheetCuts(
+      [{ width: 30, height: 20, quantity: 4, grain: "length" }],
+      plywood4x8
+    )
+    for (const sheet of result) {
+      for (const p of sheet.placements) {
+        expect(p.rotated).toBe(false)
+        expect(p.width).toBe(30)
+        expect(p.height).toBe(20)
+        expect(p.grain).toBe("length")
+      }
+    }
+  })
+
+  it("always rotates pieces with grain 'width'", () => {
+    const result = optimizeSheetCuts(
+      [{ width: 40, height: 30, quantity: 2, grain: "width" }],
+      plywood4x8
+    )
+    const placements = result.flatMap((sheet) => sheet.placements)
+    expect(placements).toHaveLength(2)
+    for (const p of placements) {
+      expect(p.rotated).toBe(true)
+      expect(p.width).toBe(30)
+      expect(p.height).toBe(40)
+    }
+  })
+
+  it("mixes constrained and free pieces on the same sheet", () => {
+    const result = optimizeSheetCuts(
+      [
+        { width: 20, height: 40, quantity: 1, grain: "length" },
+        { width: 20, height: 40, quantity: 1 },
+      ],
+      plywood4x8
+    )
+    expect(result).toHaveLength(1)
+    const constrained = result[0].placements.find((p) => p.grain === "length")!
+    expect(constrained.rotated).toBe(false)
+  })
+
+  it("skips pieces larger than the sheet in both orientations", () => {
+    const result = optimizeSheetCuts(
+      [
+        { width: 60, height: 100, quantity: 1 },
+        { width: 12, height: 12, quantity: 1 },
+      ],
+      plywood4x8
+    )
+    expect(result).toHaveLength(1)
+    expect(result[0].placements).toHaveLength(1)
+  })
+
+  it("filters invalid pieces (non-positive size, non-integer quantity)", () => {
+    const result = optimizeSheetCuts(
+      [
+        { width: 0, height: 12, quantity: 1 },
+        { width: 12, height: -1, quantity: 1 },
+        { width: 12, height: 12, quantity: 1.5 },
+        { width: 10, height: 10, quantity: 1 },
+      ],
+      plywood4x8
+    )
+    expect(result).toHaveLength(1)
+    expect(result[0].placements).toHaveLength(1)
+  })
+
+  it("places every piece exactly once without overlaps and inside the sheet", () => {
+    const result = optimizeSheetCuts(
+      [
+        { width: 30, height: 22, quantity: 4 },
+        { width: 15, height: 40, quantity: 3 },
+        { width: 11.5, height: 11.5, quantity: 6 },
+      ],
+      plywood4x8
+    )
+    const placed = result.reduce((s, sheet) => s + sheet.placements.length, 0)
+    expect(placed).toBe(13)
+    for (const sheet of result) {
+      for (const p of sheet.placements) {
+        expect(p.x + p.width).toBeLessThanOrEqual(48)
+        expect(p.y + p.height).toBeLessThanOrEqual(96)
+      }
+      for (let i = 0; i < sheet.placements.length; i++) {
+        for (let j = i + 1; j < sheet.placements.length; j++) {
+          expect(overlaps(sheet.placements[i], sheet.placements[j])).toBe(false)
+        }
+      }
+    }
+  })
+
+  it("offcuts do not overlap placed pieces", () => {
+    const result = optimizeSheetCuts([{ width: 20, height: 30, quantity: 3 }], plywood4x8)
+    const [sheet] = result
+    expect(sheet.offcuts.length).toBeGreaterThan(0)
+    for (const offcut of sheet.offcuts) {
+      for (const p of sheet.placements) {
+        expect(overlaps(offcut, p)).toBe(false)
+      }
+    }
+  })
+
+  it("returns offcuts largest first", () => {
+    const [sheet] = optimizeSheetCuts([{ width: 20, height: 30, quantity: 3 }], plywood4x8)
+    const areas = sheet.offcuts.map((o) => o.width * o.height)
+    expect(areas).toEqual([...areas].sort((a, b) => b - a))
+  })
+
+  it("fits two pieces across the sheet when their widths plus kerf equal the sheet width", () => {
+    // 23.9375 × 2 + 0.125 = 48 → 2 across, 3 rows on a 96" sheet
+    const result = optimizeSheetCuts([{ width: 23.9375, height: 23.9375, quantity: 6 }], plywood4x8)
+    expect(result).toHaveLength(1)
+  })
+
+  it("is deterministic", () => {
+    const pieces = [
+      { width: 30, height: 22, quantity: 4 },
+      { width: 15, height: 40, quantity: 3 },
+    ]
+    expect(optimizeSheetCuts(pieces, plywood4x8)).toEqual(optimizeSheetCuts(pieces, plywood4x8))
+  })
+})
+
+describe("optimizeSheetCuts with scrap sheets", () => {
+  const scrap = [{ width: 24, height: 48, thickness: '3/4"', quantity: 1 }]
+
+  it("fills scrap sheets before opening new ones", () => {
+    const result = optimizeSheetCuts([{ width: 20, height: 40, quantity: 1 }], plywood4x8, { scrap })
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({ source: "scrap", sheetWidth: 24, sheetHeight: 48 })
+    expect(result[0].remainingArea).toBe(24 * 48 - 20 * 40)
+  })
+
+  it("opens new sheets for pieces that do not fit the scrap", () => {
+    const result = optimizeSheetCuts(
+      [
+        { width: 20, height: 40, quantity: 1 },
+        { width: 30, height: 60, quantity: 1 },
+      ],
+      plywood4x8,
+      { scrap }
+    )
+    expect(result.map((s) => s.source)).toEqual(["scrap", "new"])
+    expect(result[1].placements).toHaveLength(1)
+  })
+
+  it("leaves unused scrap sheets out of the result", () => {
+    const result = optimizeSheetCuts([{ width: 30, height: 60, quantity: 1 }], plywood4x8, { scrap })
+    expect(result.map((s) => s.source)).toEqual(["new"])
+  })
+
+  it("keeps the grain along the scrap sheet's height", () => {
+    // A 40"-long grain-locked piece only fits a 48 × 24 offcut turned, which the grain forbids
+    const wide = [{ width: 48, height: 24, thickness: '3/4"', quantity: 1 }]
+    const result = optimizeSheetCuts(
+      [{ width: 20, height: 40, quantity: 1, grain: "length" as const }],
+      plywood4x8,
+      { scrap: wide }
+    )
+    expect(result.map((s) => s.source)).toEqual(["new"])
+  })
+
+  it("is reached through optimizeCuts", () => {
+    const result = optimizeCuts([{ width: 20, height: 40, quantity: 1 }], plywood4x8, {
+      scrapSheets: scrap,
+    })
+    expect(result[0].source).toBe("scrap")
+  })
+})
+
+describe("sheetPieceOrderings", () => {
+  it("returns four orderings", () => {
+    expect(sheetPieceOrderings([{ width: 10, height: 20 }])).toHaveLength(4)
+  })
+
+  it("first ordering is by area descending", () => {
+    const [byArea] = sheetPieceOrderings([
+      { width: 10, height: 10 },
+      { width: 30, height: 5 },
+      { width: 20, height: 20 },
+    ])
+    expect(byArea.map((p) => p.width * p.height)).toEqual([400, 150, 100])
+  })
+
+  it("does not mutate the input array", () => {
+    const input = [
+      { width: 10, height: 10 },
+      { width: 20, height: 20 },
+    ]
+    sheetPieceOrderings(input)
+    expect(input[0].width).toBe(10)
+  })
+})
+
 // ── optimize (deprecated wrapper) ────────────────────────────────────────────
 
 describe("optimize", () => {
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest"
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
 import {
   serializeGroups,
   parseGroupFromUnknown,
@@ -6,8 +6,22 @@ import {
   saveGroupsToStorage,
   loadGroupsFromStorage,
   GROUPS_STORAGE_KEY,
+  STORAGE_MIGRATED_KEY,
+  STORAGE_CHANNEL_NAME,
+  createCachedStorage,
+  createMemoryBackend,
+  getAppStorage,
+  migrateLocalStorage,
+  onStorageChange,
+  onStorageError,
+  openAppStorage,
+  setAppStorage,
+  type StorageBackend,
+  type StorageChange,
+  type StorageWriteFailure,
 } from "../persistence"
 import { createBoardGroup, createSheetGroup } from "../material-groups"
+import { createImportReport } from "../import-report"
 
 // Minimal localStorage mock for node environment
 const store: Record<string, string> = {}
@@ -140,6 +154,76 @@ describe("parseGroupFromUnknown", () => {
     expect(result!.kerfOverrideInches).toBeNull()
   })
 
+  it("preserves endTrimOverrideInches, including zero", () => {
+    const trimmed = parseGroupFromUnknown({
+      id: "g1",
+      label: "t",
+      materialType: "board",
+      endTrimOverrideInches: 0.5,
+    })
+    const untrimmed = parseGroupFromUnknown({
+      id: "g2",
+      label: "t",
+      materialType: "board",
+      endTrimOverrideInches: 0,
+    })
+    expect(trimmed!.endTrimOverrideInches).toBe(0.5)
+    expect(untrimmed!.endTrimOverrideInches).toBe(0)
+  })
+
+  it("drops endTrimOverrideInches when missing, negative or not a number", () => {
+    for (const endTrimOverrideInches of [undefined, -1, "1", NaN]) {
+      const result = parseGroupFromUnknown({
+        id: "g1",
+        label: "t",
+        materialType: "board",
+        endTrimOverrideInches,
+      })
+      expect(result!.endTrimOverrideInches).toBeNull()
+    }
+  })
+
+  it("preserves minScrapLengthOverrideInches, including zero", () => {
+    for (const minScrapLengthOverrideInches of [18, 0]) {
+      const result = parseGroupFromUnknown({
+        id: "g1",
+        label: "t",
+        materialType: "board",
+        minScrapLengthOverrideInches,
+      })
+      expect(result!.minScrapLengthOverrideInches).toBe(minScrapLengthOverrideInches)
+    }
+  })
+
+  it("drops minScrapLengthOverrideInches when missing, negative or not a number", () => {
+    for (const minScrapLengthOverrideInches of [undefined, -1, "12", Infinity]) {
+      const result = parseGroupFromUnknown({
+        id: "g1",
+        label: "t",
+        materialType: "board",
+        minScrapLengthOverrideInches,
+      })
+      expect(result!.minScrapLengthOverrideInches).toBeNull()
+    }
+  })
+
+  it("preserves a known optimizationGoal and drops anything else", () => {
+    for (const [optimizationGoal, expected] of [
+      ["scrap", "scrap"],
+      ["cost", "cost"],
+      ["waste", null],
+      [undefined, null],
+    ]) {
+      const result = parseGroupFromUnknown({
+        id: "g1",
+        label: "t",
+        materialType: "board",
+        optimizationGoal,
+      })
+      expect(result!.optimizationGoal).toBe(expected)
+    }
+  })
+
   it("preserves customAllowedLengths with valid entries", () => {
     const result = parseGroupFromUnknown({
       id: "g1",
@@ -200,6 +284,55 @@ describe("parseGroupFromUnknown", () => {
     expect(result!.sheetPieces[0].width).toBe(24)
   })
 
+  it("preserves a sheet piece grain constraint", () => {
+    const result = parseGroupFromUnknown({
+      id: "g1",
+      label: "t",
+      materialType: "sheet",
+      sheetPieces: [
+        { width: 24, height: 48, quantity: 1, grain: "length" },
+        { width: 12, height: 30, quantity: 1, grain: "width" },
+      ],
+    })
+    expect(result!.sheetPieces.map((p) => p.grain)).toEqual(["length", "width"])
+  })
+
+  it("drops an unknown or 'any' grain so the piece is free to rotate", () => {
+    const result = parseGroupFromUnknown({
+      id: "g1",
+      label: "t",
+      materialType: "sheet",
+      sheetPieces: [
+        { width: 24, height: 48, quantity: 1, grain: "diagonal" },
+        { width: 12, height: 30, quantity: 1, grain: "any" },
+      ],
+    })
+    expect(result!.sheetPieces[0]).toEqual({ width: 24, height: 48, quantity: 1 })
+    expect(result!.sheetPieces[1]).toEqual({ width: 12, height: 30, quantity: 1 })
+  })
+
+  it("keeps part names on cuts and sheet pieces and drops blank ones", () => {
+    const board = parseGroupFromUnknown({
+      id: "g1",
+      label: "t",
+      materialType: "board",
+      boardSpecId: "2x4",
+      cuts: [
+        { length: 30, quantity: 4, name: " Leg " },
+        { length: 20, quantity: 1, name: "" },
+        { length: 10, quantity: 1, name: 7 },
+      ],
+    })
+    expect(board!.cuts.map((c) => c.name)).toEqual(["Leg", undefined, undefined])
+    const sheet = parseGroupFromUnknown({
+      id: "g2",
+      label: "t",
+      materialType: "sheet",
+      sheetPieces: [{ width: 24, height: 48, quantity: 1, name: "Side" }],
+    })
+    expect(sheet!.sheetPieces[0]).toEqual({ width: 24, height: 48, quantity: 1, name: "Side" })
+  })
+
   it("skips sheetPieces with invalid quantity (zero, negative, float)", () => {
     const result = parseGroupFromUnknown({
       id: "g1",
@@ -326,4 +459,283 @@ describe("parseGroupsFromJSON", () => {
     expect(result[0].kerfOverrideInches).toBe(0.09)
     expect(result[0].customAllowedLengths).toEqual([168, 204])
   })
+
+  it("round-trips a sheet group with size, thickness and pieces", () => {
+    const original = {
+      ...createSheetGroup({ sheetStockWidth: 60, sheetStockHeight: 60, sheetThickness: '1/2"' }),
+      kerfOverrideInches: 0.1,
+      sheetPieces: [
+        { width: 23.25, height: 30, quantity: 2, grain: "length" as const },
+        { width: 11.5, height: 11.5, quantity: 4 },
+      ],
+    }
+    const serialized = serializeGroups([original])
+    const result = parseGroupsFromJSON(JSON.parse(JSON.stringify(serialized)))!
+    expect(result[0].materialType).toBe("sheet")
+    expect(result[0].sheetStockWidth).toBe(60)
+    expect(result[0].sheetStockHeight).toBe(60)
+    expect(result[0].sheetThickness).toBe('1/2"')
+    expect(result[0].kerfOverrideInches).toBe(0.1)
+    expect(result[0].sheetPieces).toEqual(original.sheetPieces)
+  })
+})
+
+// ── Import report ─────────────────────────────────────────────────────────────
+
+describe("parseGroupsFromJSON with a report", () => {
+  it("records skipped groups with their index and reason", () => {
+    const report = createImportReport()
+    const serialized = serializeGroups([createBoardGroup()])
+    parseGroupsFromJSON(
+      [null, ...serialized, { id: "x", label: "X", materialType: "metal" }],
+      report
+    )
+    expect(report.skippedGroups).toEqual([
+      { groupIndex: 0, reason: "not an object" },
+      { groupIndex: 2, reason: 'materialType "metal" is not "board" or "sheet"' },
+    ])
+  })
+
+  it("records dropped cuts, sheet pieces and allowed lengths", () => {
+    const report = createImportReport()
+    const board = {
+      ...serializeGroups([createBoardGroup({ label: "Frame" })])[0],
+      cuts: [{ length: 30, quantity: 2 }, { length: "abc", quantity: 1 }, { length: 12, quantity: 1.5 }],
+      customAllowedLengths: [96, -1],
+    }
+    const sheet = {
+      ...serializeGroups([createSheetGroup({ label: "Top" })])[0],
+      sheetPieces: [{ width: 20, height: 0, quantity: 1 }],
+    }
+    const groups = parseGroupsFromJSON([board, sheet], report)!
+    expect(groups[0].cuts).toHaveLength(1)
+    expect(groups[0].customAllowedLengths).toEqual([96])
+    expect(report.droppedItems).toEqual([
+      { groupIndex: 0, groupLabel: "Frame", list: "customAllowedLengths", itemIndex: 1, reason: "-1 is not a positive number" },
+      { groupIndex: 0, groupLabel: "Frame", list: "cuts", itemIndex: 1, reason: 'length "abc" is not a positive number' },
+      { groupIndex: 0, groupLabel: "Frame", list: "cuts", itemIndex: 2, reason: "quantity 1.5 is not a positive whole number" },
+      { groupIndex: 1, groupLabel: "Top", list: "sheetPieces", itemIndex: 0, reason: "height 0 is not a positive number" },
+    ])
+  })
+
+  it("records invalid fields and the defaults used", () => {
+    const report = createImportReport()
+    const board = {
+      ...serializeGroups([createBoardGroup({ label: "Frame" })])[0],
+      kerfOverrideInches: -1,
+      maxLengthPreferenceInches: "long",
+    }
+    parseGroupsFromJSON([board], report)
+    expect(report.defaultedFields).toEqual([
+      { groupIndex: 0, groupLabel: "Frame", field: "maxLengthPreferenceInches", value: "long", defaultValue: 96 },
+      { groupIndex: 0, groupLabel: "Frame", field: "kerfOverrideInches", value: -1, defaultValue: null },
+    ])
+  })
+
+  it("records missing fields only when the material type needs them", () => {
+    const report = createImportReport()
+    parseGroupsFromJSON(
+      [
+        { id: "a", label: "Boards", materialType: "board", cuts: [] },
+        { id: "b", label: "Sheets", materialType: "sheet", sheetPieces: [] },
+      ],
+      report
+    )
+    expect(report.defaultedFields.map((f) => [f.groupLabel, f.field])).toEqual([
+      ["Boards", "boardSpecId"],
+      ["Sheets", "sheetStockWidth"],
+      ["Sheets", "sheetStockHeight"],
+      ["Sheets", "sheetThickness"],
+    ])
+  })
+
+  it("leaves the report empty for valid groups", () => {
+    const report = createImportReport()
+    parseGroupsFromJSON(serializeGroups([createBoardGroup(), createSheetGroup()]), report)
+    expect(report).toEqual(createImportReport())
+  })
+})
+
+// ── Storage backends ──────────────────────────────────────────────────────────
+
+/** Read-only Storage over a record, as the migration source. */
+function sourceStorage(entries: Record<string, string>): Storage {
+  const keys = Object.keys(entries)
+  return {
+    length: keys.length,
+    key: (i: number) => keys[i] ?? null,
+    getItem: (key: string) => entries[key] ?? null,
+  } as Storage
+}
+
+/** Backend whose writes always fail, like IndexedDB with a full quota. */
+const fullBackend: StorageBackend = {
+  ...createMemoryBackend(),
+  set: () => Promise.reject(new Error("QuotaExceededError")),
+}
+
+/** Let pending backend promises settle. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe("createCachedStorage", () => {
+  it("reads the initial entries and writes through to the backend", async () => {
+    const backend = createMemoryBackend({ a: "1" })
+    const storage = createCachedStorage(backend, await backend.getAll())
+    expect(storage.getItem("a")).toBe("1")
+    storage.setItem("b", "2")
+    storage.removeItem("a")
+    expect(storage.getItem("b")).toBe("2")
+    expect(storage.getItem("a")).toBeNull()
+    await flush()
+    expect(await backend.getAll()).toEqual(new Map([["b", "2"]]))
+  })
+
+  it("reports failed writes to onStorageError listeners", async () => {
+    const failures: StorageWriteFailure[] = []
+    const unsubscribe = onStorageError((f) => failures.push(f))
+    const storage = createCachedStorage(fullBackend, new Map())
+    storage.setItem("big", "x")
+    await flush()
+    unsubscribe()
+    storage.setItem("big", "y")
+    await flush()
+    expect(failures).toEqual([{ key: "big", message: "QuotaExceededError" }])
+    // The value stays readable for this session
+    expect(storage.getItem("big")).toBe("y")
+  })
+
+  describe("across tabs", () => {
+    const channels: BroadcastChannel[] = []
+    const openTab = (entries: Record<string, string>) => {
+      const channel = new BroadcastChannel(STORAGE_CHANNEL_NAME)
+      channels.push(channel)
+      const backend = createMemoryBackend(entries)
+      return createCachedStorage(backend, new Map(Object.entries(entries)), channel)
+    }
+    /** Resolves with the next change another tab reports. */
+    const nextChange = () =>
+      new Promise<StorageChange>((resolve) => {
+        const unsubscribe = onStorageChange((change) => {
+          unsubscribe()
+          resolve(change)
+        })
+      })
+
+    afterEach(() => {
+      for (const channel of channels.splice(0)) channel.close()
+    })
+
+    it("updates the other tab's copy and reports the change", async () => {
+      const a = openTab({ k: "1" })
+      const b = openTab({ k: "1" })
+      const change = nextChange()
+      a.setItem("k", "2")
+      expect(await change).toEqual({ key: "k", value: "2", diverged: false })
+      expect(b.getItem("k")).toBe("2")
+      const removal = nextChange()
+      a.removeItem("k")
+      expect(await removal).toEqual({ key: "k", value: null, diverged: false })
+      expect(b.getItem("k")).toBeNull()
+    })
+
+    it("flags changes both tabs made at the same time", async () => {
+      const a = openTab({ k: "1" })
+      const b = openTab({ k: "1" })
+      const changes: StorageChange[] = []
+      const unsubscribe = onStorageChange((change) => changes.push(change))
+      // Neither tab has seen the other's write yet
+      a.setItem("k", "a")
+      b.setItem("k", "b")
+      await vi.waitFor(() => expect(changes).toHaveLength(2))
+      unsubscribe()
+      expect(changes.every((c) => c.diverged)).toBe(true)
+      // Each tab now holds the other's value; the app decides which one wins
+      expect(a.getItem("k")).toBe("b")
+      expect(b.getItem("k")).toBe("a")
+    })
+
+    it("flags localStorage writes that replaced a value this tab never had", async () => {
+      const win = new EventTarget()
+      vi.stubGlobal("window", win)
+      // No IndexedDB here, so this falls back to localStorage and its storage event
+      const storage = await openAppStorage()
+      const changes: StorageChange[] = []
+      const unsubscribe = onStorageChange((change) => changes.push(change))
+      const otherTabWrites = (key: string, oldValue: string | null, newValue: string) => {
+        localStorageMock.setItem(key, newValue)
+        const event = Object.assign(new Event("storage"), {
+          key,
+          oldValue,
+          newValue,
+          storageArea: localStorage,
+        })
+        win.dispatchEvent(event)
+      }
+      storage.setItem("cut-optimizer-k", "1")
+      otherTabWrites("cut-optimizer-k", "1", "a")
+      // This tab wrote "b" while the other tab's write of "c" over "a" was on its way
+      storage.setItem("cut-optimizer-k", "b")
+      otherTabWrites("cut-optimizer-k", "a", "c")
+      otherTabWrites("cut-optimizer-unseen", "x", "y")
+      unsubscribe()
+      vi.unstubAllGlobals()
+      expect(changes).toEqual([
+        { key: "cut-optimizer-k", value: "a", diverged: false },
+        { key: "cut-optimizer-k", value: "c", diverged: true },
+        { key: "cut-optimizer-unseen", value: "y", diverged: false },
+      ])
+    })
+  })
+})
+
+describe("migrateLocalStorage", () => {
+  it("copies this app's keys once and marks the backend migrated", async () => {
+    const backend = createMemoryBackend({ "cut-optimizer-theme": "dark" })
+    const source = sourceStorage({
+      "cut-optimizer-theme": "light",
+      "cut-optimizer-scrap": "[]",
+      "other-app": "x",
+    })
+    const entries = await migrateLocalStorage(backend, await backend.getAll(), source)
+    expect(entries.get("cut-optimizer-theme")).toBe("dark")
+    expect(entries.get("cut-optimizer-scrap")).toBe("[]")
+    expect(entries.has("other-app")).toBe(false)
+    expect(entries.has(STORAGE_MIGRATED_KEY)).toBe(true)
+    expect(await backend.getAll()).toEqual(entries)
+  })
+
+  it("does nothing once the backend is marked migrated", async () => {
+    const backend = createMemoryBackend({ [STORAGE_MIGRATED_KEY]: "2026-01-01T00:00:00.000Z" })
+    const source = sourceStorage({ "cut-optimizer-scrap": "[]" })
+    const entries = await migrateLocalStorage(backend, await backend.getAll(), source)
+    expect(entries.has("cut-optimizer-scrap")).toBe(false)
+  })
+})
+
+describe("setAppStorage", () => {
+  afterEach(() => setAppStorage(null))
+
+  it("routes the load and save helpers to the given storage", () => {
+    delete store[GROUPS_STORAGE_KEY]
+    const storage = createCachedStorage(createMemoryBackend(), new Map())
+    setAppStorage(storage)
+    saveGroupsToStorage([createBoardGroup({ label: "Legs" })])
+    expect(storage.getItem(GROUPS_STORAGE_KEY)).not.toBeNull()
+    expect(loadGroupsFromStorage()?.[0].label).toBe("Legs")
+    expect(store[GROUPS_STORAGE_KEY]).toBeUndefined()
+  })
+
+  it("falls back to localStorage and reports its write errors", () => {
+    setAppStorage(null)
+    const setItem = localStorageMock.setItem
+    localStorageMock.setItem = () => {
+      throw new Error("quota")
+    }
+    const failures: StorageWriteFailure[] = []
+    const unsubscribe = onStorageError((f) => failures.push(f))
+    getAppStorage().setItem("k", "v")
+    unsubscribe()
+    localStorageMock.setItem = setItem
+    expect(failures).toEqual([{ key: "k", message: "quota" }])
+  })
 })
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import {
+  formatPrice,
+  getStockPrice,
+  isValidPrice,
+  loadPriceTableFromStorage,
+  parsePrice,
+  parsePriceTableFromUnknown,
+  savePriceTableToStorage,
+  setStockPrice,
+  PRICES_STORAGE_KEY,
+} from "../pricing"
+
+// Minimal localStorage mock for node environment
+const store: Record<string, string> = {}
+const localStorageMock = {
+  getItem: (key: string) => store[key] ?? null,
+  setItem: (key: string, value: string) => { store[key] = value },
+  removeItem: (key: string) => { delete store[key] },
+  clear: () => { Object.keys(store).forEach((k) => delete store[k]) },
+  length: 0,
+  key: () => null,
+}
+Object.defineProperty(globalThis, "localStorage", {
+  value: localStorageMock,
+  writable: true,
+})
+
+// ── parsePrice / isValidPrice / formatPrice ──────────────────────────────────
+
+describe("parsePrice", () => {
+  it("parses plain and dollar-prefixed amounts", () => {
+    expect(parsePrice("12.48")).toBe(12.48)
+    expect(parsePrice("$7")).toBe(7)
+    expect(parsePrice(" $ 0.5 ")).toBe(0.5)
+    expect(parsePrice(".99")).toBe(0.99)
+    expect(parsePrice("3.")).toBe(3)
+  })
+
+  it("returns NaN for empty or malformed input", () => {
+    expect(parsePrice("")).toBeNaN()
+    expect(parsePrice("abc")).toBeNaN()
+    expect(parsePrice("-4")).toBeNaN()
+    expect(parsePrice("1.2.3")).toBeNaN()
+  })
+})
+
+describe("isValidPrice", () => {
+  it("accepts zero and positive finite numbers", () => {
+    expect(isValidPrice(0)).toBe(true)
+    expect(isValidPrice(9.98)).toBe(true)
+  })
+
+  it("rejects negatives, NaN, infinity and non-numbers", () => {
+    expect(isValidPrice(-1)).toBe(false)
+    expect(isValidPrice(NaN)).toBe(false)
+    expect(isValidPrice(Infinity)).toBe(false)
+    expect(isValidPrice("5")).toBe(false)
+  })
+})
+
+describe("formatPrice", () => {
+  it("formats as dollars with two decimals", () => {
+    expect(formatPrice(12.5)).toBe("$12.50")
+    expect(formatPrice(0)).toBe("$0.00")
+  })
+})
+
+// ── getStockPrice / setStockPrice ────────────────────────────────────────────
+
+describe("setStockPrice", () => {
+  it("adds a price without mutating the original table", () => {
+    const table = {}
+    const next = setStockPrice(table, "2x4", 96, 4.98)
+    expect(next).toEqual({ "2x4": { 96: 4.98 } })
+    expect(table).toEqual({})
+  })
+
+  it("replaces an existing price", () => {
+    const table = setStockPrice({ "2x4": { 96: 4.98 } }, "2x4", 96, 5.25)
+    expect(getStockPrice(table, "2x4", 96)).toBe(5.25)
+  })
+
+  it("clears a price and drops specs left empty", () => {
+    const table = { "2x4": { 96: 4.98 }, "2x6": { 96: 7.5, 192: 14 } }
+    const next = setStockPrice(setStockPrice(table, "2x4", 96, null), "2x6", 96, null)
+    expect(next).toEqual({ "2x6": { 192: 14 } })
+  })
+})
+
+describe("getStockPrice", () => {
+  it("returns undefined for unknown specs and lengths", () => {
+    const table = { "2x4": { 96: 4.98 } }
+    expect(getStockPrice(table, "2x6", 96)).toBeUndefined()
+    expect(getStockPrice(table, "2x4", 120)).toBeUndefined()
+  })
+})
+
+// ── parsePriceTableFromUnknown ───────────────────────────────────────────────
+
+describe("parsePriceTableFromUnknown", () => {
+  it("returns {} for non-objects", () => {
+    expect(parsePriceTableFromUnknown(null)).toEqual({})
+    expect(parsePriceTableFromUnknown([1, 2])).toEqual({})
+    expect(parsePriceTableFromUnknown("x")).toEqual({})
+  })
+
+  it("keeps valid entries and drops invalid ones", () => {
+    const parsed = parsePriceTableFromUnknown({
+      "2x4": { "96": 4.98, "120": -1, abc: 3, "144": "7" },
+      "2x6": "bad",
+      "1x4": { "0": 2 },
+    })
+    expect(parsed).toEqual({ "2x4": { 96: 4.98 } })
+  })
+})
+
+// ── savePriceTableToStorage + loadPriceTableFromStorage ──────────────────────
+
+describe("savePriceTableToStorage + loadPriceTableFromStorage", () => {
+  beforeEach(() => localStorageMock.clear())
+
+  it("round-trips a table through localStorage", () => {
+    savePriceTableToStorage({ "2x6": { 96: 7.5, 192: 13.9 } })
+    const loaded = loadPriceTableFromStorage()
+    expect(getStockPrice(loaded, "2x6", 192)).toBe(13.9)
+  })
+
+  it("returns {} when nothing is stored or data is invalid JSON", () => {
+    expect(loadPriceTableFromStorage()).toEqual({})
+    store[PRICES_STORAGE_KEY] = "not json {"
+    expect(loadPriceTableFromStorage()).toEqual({})
+  })
+})
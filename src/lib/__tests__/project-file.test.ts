@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import {
+  DEFAULT_PROJECT_NAME,
+  PROJECT_FORMAT_VERSION,
+  PROJECT_META_STORAGE_KEY,
+  createProjectFile,
+  createProjectMeta,
+  loadProjectMetaFromStorage,
+  migrateProjectFile,
+  parseProjectFile,
+  projectFileName,
+  readProjectFormatVersion,
+  type Project,
+} from "../project-file"
+import { serializeGroups } from "../persistence"
+import { createBoardGroup, createSheetGroup } from "../material-groups"
+import { createImportReport } from "../import-report"
+
+// Minimal localStorage mock for node environment
+const store: Record<string, string> = {}
+Object.defineProperty(globalThis, "localStorage", {
+  value: {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => {
+      store[key] = value
+    },
+    removeItem: (key: string) => {
+      delete store[key]
+    },
+  },
+  writable: true,
+})
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const now = new Date("2026-05-01T12:00:00.000Z")
+
+const project: Project = {
+  name: "Garage shelves",
+  createdAt: "2026-04-01T09:00:00.000Z",
+  modifiedAt: "2026-04-02T10:30:00.000Z",
+  groups: [
+    {
+      ...createBoardGroup(),
+      id: "frame",
+      label: "Frame",
+      cuts: [{ length: 30, quantity: 4, materialType: "board" }],
+    },
+    { ...createSheetGroup(), id: "top", label: "Top", sheetPieces: [{ width: 20, height: 30, quantity: 1 }] },
+  ],
+  settings: { objective: "cost", useScrap: false },
+}
+
+/** Round-trip through JSON, as export and import do. */
+function throughJSON(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value)) as unknown
+}
+
+// ── createProjectFile / parseProjectFile ─────────────────────────────────────
+
+describe("createProjectFile", () => {
+  it("stamps the current format version", () => {
+    expect(createProjectFile(project).formatVersion).toBe(PROJECT_FORMAT_VERSION)
+  })
+
+  it("omits empty scrap and missing settings", () => {
+    const file = createProjectFile({ ...project, scrap: [], settings: undefined })
+    expect(file).not.toHaveProperty("scrap")
+    expect(file).not.toHaveProperty("settings")
+  })
+})
+
+describe("parseProjectFile", () => {
+  it("round-trips a project", () => {
+    expect(parseProjectFile(throughJSON(createProjectFile(project)), now)).toEqual(project)
+  })
+
+  it("round-trips scrap shipped with the project", () => {
+    const scrap = [{ materialType: "board" as const, nominalSizeId: "2x4", stockLength: 60, quantity: 2 }]
+    const parsed = parseProjectFile(throughJSON(createProjectFile({ ...project, scrap })), now)
+    expect(parsed?.scrap).toEqual(scrap)
+  })
+
+  it("imports legacy bare-array files with a default name and timestamps", () => {
+    const legacy = throughJSON(serializeGroups(project.groups))
+    expect(parseProjectFile(legacy, now)).toEqual({
+      name: DEFAULT_PROJECT_NAME,
+      createdAt: now.toISOString(),
+      modifiedAt: now.toISOString(),
+      groups: project.groups,
+    })
+  })
+
+  it("defaults a missing name, bad timestamps and unknown settings", () => {
+    const file = {
+      formatVersion: PROJECT_FORMAT_VERSION,
+      name: "  ",
+      createdAt: "yesterday",
+      groups: serializeGroups(project.groups),
+      settings: { objective: "fastest", useScrap: "yes" },
+    }
+    const parsed = parseProjectFile(file, now)
+    expect(parsed?.name).toBe(DEFAULT_PROJECT_NAME)
+    expect(parsed?.createdAt).toBe(now.toISOString())
+    expect(parsed?.modifiedAt).toBe(now.toISOString())
+    expect(parsed).not.toHaveProperty("settings")
+  })
+
+  it("fills a report with what the group parser skipped", () => {
+    const report = createImportReport()
+    const file = throughJSON(createProjectFile(project)) as { groups: unknown[] }
+    file.groups.push({ label: "No id", materialType: "board" })
+    expect(parseProjectFile(file, now, report)?.groups).toHaveLength(2)
+    expect(report.skippedGroups).toEqual([{ groupIndex: 2, reason: "missing id" }])
+  })
+
+  it("returns null for files from a newer format version", () => {
+    const file = { ...createProjectFile(project), formatVersion: PROJECT_FORMAT_VERSION + 1 }
+    expect(parseProjectFile(throughJSON(file), now)).toBeNull()
+  })
+
+  it("returns null when no group is valid", () => {
+    expect(parseProjectFile({ formatVersion: PROJECT_FORMAT_VERSION, groups: [] })).toBeNull()
+    expect(parseProjectFile([{ nonsense: true }])).toBeNull()
+    expect(parseProjectFile("groups")).toBeNull()
+  })
+})
+
+// ── Versions and migrations ──────────────────────────────────────────────────
+
+describe("readProjectFormatVersion", () => {
+  it("treats bare arrays as version 1 and reads envelopes", () => {
+    expect(readProjectFormatVersion([])).toBe(1)
+    expect(readProjectFormatVersion({ formatVersion: 7 })).toBe(7)
+  })
+
+  it("returns null for anything else", () => {
+    expect(readProjectFormatVersion({ groups: [] })).toBeNull()
+    expect(readProjectFormatVersion({ formatVersion: 1.5 })).toBeNull()
+    expect(readProjectFormatVersion(null)).toBeNull()
+  })
+})
+
+describe("migrateProjectFile", () => {
+  it("upgrades a bare array to the current envelope", () => {
+    const groups = serializeGroups(project.groups)
+    expect(migrateProjectFile(groups)).toEqual({
+      formatVersion: PROJECT_FORMAT_VERSION,
+      name: DEFAULT_PROJECT_NAME,
+      groups,
+    })
+  })
+
+  it("leaves current files unchanged", () => {
+    const file = throughJSON(createProjectFile(project))
+    expect(migrateProjectFile(file)).toEqual(file)
+  })
+})
+
+// ── projectFileName ──────────────────────────────────────────────────────────
+
+describe("projectFileName", () => {
+  it("slugs the project name", () => {
+    expect(projectFileName("Garage shelves (v2)")).toBe("garage-shelves-v2.json")
+  })
+
+  it("falls back when the name has no usable characters", () => {
+    expect(projectFileName("  ")).toBe("cut-plan.json")
+  })
+
+  it("uses the given extension", () => {
+    expect(projectFileName("Bench shopping list", "csv")).toBe("bench-shopping-list.csv")
+  })
+})
+
+// ── Storage ──────────────────────────────────────────────────────────────────
+
+describe("loadProjectMetaFromStorage", () => {
+  beforeEach(() => {
+    delete store[PROJECT_META_STORAGE_KEY]
+  })
+
+  it("reads metadata saved before the project library", () => {
+    const meta = { ...createProjectMeta(now), name: "Bench" }
+    store[PROJECT_META_STORAGE_KEY] = JSON.stringify(meta)
+    expect(loadProjectMetaFromStorage()).toEqual(meta)
+  })
+
+  it("returns null when nothing is stored or data is invalid", () => {
+    expect(loadProjectMetaFromStorage()).toBeNull()
+    store[PROJECT_META_STORAGE_KEY] = "{ nope"
+    expect(loadProjectMetaFromStorage()).toBeNull()
+  })
+})
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach } from "vitest"
+import {
+  PROJECT_LIBRARY_STORAGE_KEY,
+  addProjectToLibrary,
+  createLibraryEntry,
+  duplicateProjectName,
+  getActiveProject,
+  loadOrCreateProjectLibrary,
+  loadProjectLibraryFromStorage,
+  loadProjectResultFromStorage,
+  projectGroupsStorageKey,
+  removeProjectDataFromStorage,
+  removeProjectFromLibrary,
+  saveProjectLibraryToStorage,
+  saveProjectResultToStorage,
+  updateProjectInLibrary,
+  type ProjectLibrary,
+  type ProjectLibraryEntry,
+} from "../project-library"
+import {
+  GROUPS_STORAGE_KEY,
+  loadGroupsFromStorage,
+  saveGroupsToStorage,
+} from "../persistence"
+import { PROJECT_META_STORAGE_KEY } from "../project-file"
+import { createBoardGroup } from "../material-groups"
+import type { ProjectResult } from "../project-result"
+
+// Minimal localStorage mock for node environment
+const store: Record<string, string> = {}
+Object.defineProperty(globalThis, "localStorage", {
+  value: {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => {
+      store[key] = value
+    },
+    removeItem: (key: string) => {
+      delete store[key]
+    },
+  },
+  writable: true,
+})
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const now = new Date("2026-05-01T12:00:00.000Z")
+
+function entry(id: string, name = id): ProjectLibraryEntry {
+  return { id, name, createdAt: now.toISOString(), modifiedAt: now.toISOString() }
+}
+
+function library(activeId: string, ...ids: string[]): ProjectLibrary {
+  return { activeId, projects: ids.map((id) => entry(id)) }
+}
+
+const result: ProjectResult = {
+  shoppingList: [],
+  shoppingListSheets: [],
+  cutListRecap: [],
+  diagrams: [],
+  unplacedCuts: [],
+  totalCost: null,
+  hasUnpricedItems: false,
+}
+
+beforeEach(() => {
+  for (const key of Object.keys(store)) delete store[key]
+})
+
+// ── Library operations ───────────────────────────────────────────────────────
+
+describe("createLibraryEntry", () => {
+  it("names and stamps a new project with a fresh ID", () => {
+    const a = createLibraryEntry("Bench", now)
+    const b = createLibraryEntry("Bench", now)
+    expect(a).toMatchObject({ name: "Bench", createdAt: now.toISOString(), modifiedAt: now.toISOString() })
+    expect(a.id).not.toBe(b.id)
+  })
+})
+
+describe("getActiveProject", () => {
+  it("returns the active project, or the first when activeId is stale", () => {
+    expect(getActiveProject(library("b", "a", "b")).id).toBe("b")
+    expect(getActiveProject(library("gone", "a", "b")).id).toBe("a")
+  })
+})
+
+describe("addProjectToLibrary", () => {
+  it("appends the project and opens it", () => {
+    expect(addProjectToLibrary(library("a", "a"), entry("b"))).toEqual(library("b", "a", "b"))
+  })
+})
+
+describe("updateProjectInLibrary", () => {
+  it("updates only the given project", () => {
+    const next = updateProjectInLibrary(library("a", "a", "b"), "b", (p) => ({ ...p, name: "Shelf" }))
+    expect(next.projects.map((p) => [p.id, p.name])).toEqual([
+      ["a", "a"],
+      ["b", "Shelf"],
+    ])
+  })
+})
+
+describe("removeProjectFromLibrary", () => {
+  it("opens the next project when the open one is removed", () => {
+    expect(removeProjectFromLibrary(library("b", "a", "b", "c"), "b").activeId).toBe("c")
+  })
+
+  it("opens the previous project when the last in the list is removed", () => {
+    expect(removeProjectFromLibrary(library("c", "a", "b", "c"), "c").activeId).toBe("b")
+  })
+
+  it("keeps the open project when another one is removed", () => {
+    expect(removeProjectFromLibrary(library("a", "a", "b"), "b")).toEqual(library("a", "a"))
+  })
+
+  it("never removes the last project", () => {
+    const only = library("a", "a")
+    expect(removeProjectFromLibrary(only, "a")).toBe(only)
+  })
+})
+
+describe("duplicateProjectName", () => {
+  it("adds a copy suffix that is not taken", () => {
+    expect(duplicateProjectName("Bench", ["Bench"])).toBe("Bench (copy)")
+    expect(duplicateProjectName("Bench", ["Bench", "Bench (copy)", "Bench (copy 2)"])).toBe("Bench (copy 3)")
+  })
+
+  it("uses the default name for blank names", () => {
+    expect(duplicateProjectName("  ", [])).toBe("Untitled project (copy)")
+  })
+})
+
+// ── Storage ──────────────────────────────────────────────────────────────────
+
+describe("project library storage", () => {
+  it("round-trips through localStorage", () => {
+    const lib = library("b", "a", "b")
+    saveProjectLibraryToStorage(lib)
+    expect(loadProjectLibraryFromStorage()).toEqual(lib)
+  })
+
+  it("drops invalid entries and repairs a stale activeId", () => {
+    store[PROJECT_LIBRARY_STORAGE_KEY] = JSON.stringify({
+      activeId: "gone",
+      projects: [{ id: "x" }, entry("a")],
+    })
+    expect(loadProjectLibraryFromStorage()).toEqual(library("a", "a"))
+  })
+
+  it("returns null when nothing is stored or no entry is valid", () => {
+    expect(loadProjectLibraryFromStorage()).toBeNull()
+    store[PROJECT_LIBRARY_STORAGE_KEY] = JSON.stringify({ activeId: "a", projects: [] })
+    expect(loadProjectLibraryFromStorage()).toBeNull()
+  })
+})
+
+describe("loadOrCreateProjectLibrary", () => {
+  it("adopts the pre-library project on first run", () => {
+    const groups = [createBoardGroup({ label: "Legs" })]
+    saveGroupsToStorage(groups)
+    store[PROJECT_META_STORAGE_KEY] = JSON.stringify({ ...entry("old", "Workbench"), id: undefined })
+    const lib = loadOrCreateProjectLibrary(now)
+    expect(lib.projects).toHaveLength(1)
+    expect(getActiveProject(lib).name).toBe("Workbench")
+    expect(loadGroupsFromStorage(projectGroupsStorageKey(lib.activeId))?.[0].label).toBe("Legs")
+    expect(store[GROUPS_STORAGE_KEY]).toBeDefined()
+    expect(loadProjectLibraryFromStorage()).toEqual(lib)
+  })
+
+  it("creates an empty default project when there is nothing to adopt", () => {
+    const lib = loadOrCreateProjectLibrary(now)
+    expect(getActiveProject(lib)).toMatchObject({ name: "Untitled project", createdAt: now.toISOString() })
+    expect(loadGroupsFromStorage(projectGroupsStorageKey(lib.activeId))).toBeNull()
+  })
+
+  it("returns the stored library when there is one", () => {
+    saveProjectLibraryToStorage(library("a", "a"))
+    expect(loadOrCreateProjectLibrary(now)).toEqual(library("a", "a"))
+  })
+})
+
+describe("project result storage", () => {
+  it("round-trips a result and forgets it when saved as null", () => {
+    saveProjectResultToStorage("a", result)
+    expect(loadProjectResultFromStorage("a")).toEqual(result)
+    saveProjectResultToStorage("a", null)
+    expect(loadProjectResultFromStorage("a")).toBeNull()
+  })
+
+  it("keeps the commit transaction of a committed plan", () => {
+    saveProjectResultToStorage("a", { ...result, commitTransactionId: "scrap-tx-1" })
+    expect(loadProjectResultFromStorage("a")?.commitTransactionId).toBe("scrap-tx-1")
+  })
+
+  it("returns null for data without the shape of a result", () => {
+    saveProjectResultToStorage("a", { ...result, diagrams: "none" } as unknown as ProjectResult)
+    expect(loadProjectResultFromStorage("a")).toBeNull()
+  })
+})
+
+describe("removeProjectDataFromStorage", () => {
+  it("removes the project's groups and result", () => {
+    saveGroupsToStorage([createBoardGroup()], projectGroupsStorageKey("a"))
+    saveProjectResultToStorage("a", result)
+    removeProjectDataFromStorage("a")
+    expect(Object.keys(store)).toEqual([])
+  })
+})
@@ -178,7 +178,80 @@ describe("generateProjectResult", () => {
       const result = generateProjectResult([group])
       expect(result.diagrams[0].materialType).toBe("sheet")
       expect(result.diagrams[0].boards).toEqual([])
-      expect(result.diagrams[0].kerfInches).toBe(0)
+      expect(result.diagrams[0].kerfInches).toBe(0.125)
+    })
+
+    it("diagram carries sheet layouts", () => {
+      const group = sheetGroup({
+        sheetPieces: [{ width: 24, height: 48, quantity: 2 }],
+      })
+      const result = generateProjectResult([group])
+      const sheets = result.diagrams[0].sheets ?? []
+      expect(sheets).toHaveLength(1)
+      expect(sheets[0].placements).toHaveLength(2)
+    })
+
+    it("shoppingListSheets counts the sheets to buy", () => {
+      // Five 24×48 pieces: two per 4×8 sheet side by side would need 48.125" → one per row, two rows per sheet
+      const group = sheetGroup({
+        sheetPieces: [{ width: 24, height: 48, quantity: 5 }],
+      })
+      const result = generateProjectResult([group])
+      expect(result.shoppingListSheets[0].sheetCount).toBe(
+        result.diagrams[0].sheets?.length
+      )
+      expect(result.shoppingListSheets[0].sheetCount).toBeGreaterThan(0)
+    })
+
+    it("applies kerfOverrideInches to the sheet layout", () => {
+      // Two 24" wide pieces fit side by side on a 48" sheet only with zero kerf
+      const group = sheetGroup({
+        kerfOverrideInches: 0,
+        sheetPieces: [{ width: 24, height: 96, quantity: 2 }],
+      })
+      const result = generateProjectResult([group])
+      expect(result.shoppingListSheets[0].sheetCount).toBe(1)
+    })
+
+    it("uses sheet scrap of the group's thickness first", () => {
+      const group = sheetGroup({ sheetPieces: [{ width: 20, height: 40, quantity: 1 }] })
+      const scrap: ScrapEntry[] = [
+        { materialType: "sheet", width: 24, height: 48, thickness: '1/2"', quantity: 1 },
+        { materialType: "sheet", width: 30, height: 60, thickness: '3/4"', quantity: 1 },
+      ]
+      const result = generateProjectResult([group], { scrap })
+      expect(result.diagrams[0].sheets).toMatchObject([
+        { source: "scrap", sheetWidth: 30, sheetHeight: 60 },
+      ])
+      expect(result.diagrams[0].sheetThickness).toBe('3/4"')
+      expect(result.shoppingListSheets).toEqual([])
+    })
+
+    it("gives a scrap sheet to only one of two groups that could use it", () => {
+      const sides = sheetGroup({ sheetPieces: [{ width: 20, height: 20, quantity: 1 }] })
+      const shelves = sheetGroup({ sheetPieces: [{ width: 20, height: 20, quantity: 1 }] })
+      const scrap: ScrapEntry[] = [
+        { materialType: "sheet", width: 24, height: 24, thickness: '3/4"', quantity: 1 },
+      ]
+      const result = generateProjectResult([sides, shelves], { scrap })
+      expect(result.diagrams.map((d) => d.sheets?.map((s) => s.source))).toEqual([
+        ["scrap"],
+        ["new"],
+      ])
+      expect(result.shoppingListSheets.map((s) => s.groupId)).toEqual([shelves.id])
+    })
+
+    it("ignores sheet scrap of another thickness", () => {
+      const group = sheetGroup({
+        sheetThickness: '1/2"',
+        sheetPieces: [{ width: 20, height: 40, quantity: 1 }],
+      })
+      const scrap: ScrapEntry[] = [
+        { materialType: "sheet", width: 30, height: 60, thickness: '3/4"', quantity: 1 },
+      ]
+      const result = generateProjectResult([group], { scrap })
+      expect(result.diagrams[0].sheets?.map((s) => s.source)).toEqual(["new"])
+      expect(result.shoppingListSheets[0].sheetCount).toBe(1)
     })
   })
 
@@ -216,6 +289,107 @@ describe("generateProjectResult", () => {
     })
   })
 
+  describe("end trim", () => {
+    it("uses no end trim for dimensional lumber by default", () => {
+      const group = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 40, quantity: 1 }] })
+      const board = generateProjectResult([group]).diagrams[0].boards[0]
+      expect(board.endTrim).toBe(0)
+      expect(board.remainingWaste).toBeCloseTo(56)
+    })
+
+    it("applies the spec's end trim to hardwood", () => {
+      const group = boardGroup({ boardSpecId: "4-4-hardwood", cuts: [{ length: 40, quantity: 1 }] })
+      const board = generateProjectResult([group]).diagrams[0].boards[0]
+      expect(board.endTrim).toBe(1)
+      expect(board.remainingWaste).toBeCloseTo(54)
+    })
+
+    it("uses endTrimOverrideInches when set, including zero", () => {
+      const trimmed = boardGroup({
+        boardSpecId: "2x4",
+        endTrimOverrideInches: 2,
+        cuts: [{ length: 40, quantity: 1 }],
+      })
+      const untrimmed = boardGroup({
+        boardSpecId: "4-4-hardwood",
+        endTrimOverrideInches: 0,
+        cuts: [{ length: 40, quantity: 1 }],
+      })
+      expect(generateProjectResult([trimmed]).diagrams[0].boards[0].remainingWaste).toBeCloseTo(52)
+      expect(generateProjectResult([untrimmed]).diagrams[0].boards[0].endTrim).toBe(0)
+    })
+
+    it("reports cuts that only fit before trimming as unplaced", () => {
+      const group = boardGroup({
+        boardSpecId: "6-4-hardwood",
+        cuts: [{ length: 119, quantity: 1 }],
+      })
+      const result = generateProjectResult([group])
+      expect(result.diagrams[0].boards).toEqual([])
+      expect(result.unplacedCuts[0].cuts[0].reason).toBe("exceeds-stock")
+    })
+  })
+
+  describe("minimum reusable offcut", () => {
+    it("uses the spec's threshold by default", () => {
+      // 96 - 80 = 16: waste for framing (≥ 24"), scrap for hardwood (≥ 6")
+      const framing = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 80, quantity: 1 }] })
+      const hardwood = boardGroup({
+        boardSpecId: "4-4-hardwood",
+        endTrimOverrideInches: 0,
+        cuts: [{ length: 80, quantity: 1 }],
+      })
+      const [framingDiagram, hardwoodDiagram] = generateProjectResult([framing, hardwood]).diagrams
+      expect(framingDiagram.minScrapLengthInches).toBe(24)
+      expect(framingDiagram.boards[0].wasteRemaining).toBeCloseTo(16)
+      expect(hardwoodDiagram.minScrapLengthInches).toBe(6)
+      expect(hardwoodDiagram.boards[0].scrapRemaining).toBeCloseTo(16)
+    })
+
+    it("uses minScrapLengthOverrideInches when set, including zero", () => {
+      const group = boardGroup({
+        boardSpecId: "2x4",
+        minScrapLengthOverrideInches: 0,
+        cuts: [{ length: 90, quantity: 1 }],
+      })
+      const diagram = generateProjectResult([group]).diagrams[0]
+      expect(diagram.minScrapLengthInches).toBe(0)
+      expect(diagram.boards[0].scrapRemaining).toBeCloseTo(6)
+      expect(diagram.boards[0].wasteRemaining).toBe(0)
+    })
+  })
+
+  describe("optimization goal", () => {
+    const cuts = [
+      { length: 60, quantity: 3 },
+      { length: 10, quantity: 3 },
+    ]
+
+    it("reports the reusable offcut length per board group", () => {
+      const group = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 60, quantity: 1 }] })
+      const empty = boardGroup({ boardSpecId: "2x4" })
+      const [used, unused] = generateProjectResult([group, empty]).diagrams
+      expect(used.reusableScrapInches).toBeCloseTo(36)
+      expect(unused.reusableScrapInches).toBe(0)
+    })
+
+    it("uses the project objective when the group has no goal", () => {
+      const group = boardGroup({ boardSpecId: "1x4", cuts })
+      const byBoards = generateProjectResult([group]).diagrams[0]
+      const byScrap = generateProjectResult([group], { objective: "scrap" }).diagrams[0]
+      expect(byScrap.boards).toHaveLength(byBoards.boards.length)
+      expect(byScrap.reusableScrapInches!).toBeGreaterThan(byBoards.reusableScrapInches!)
+    })
+
+    it("lets a group's optimizationGoal override the project objective", () => {
+      const scrapFirst = boardGroup({ boardSpecId: "1x4", optimizationGoal: "scrap", cuts })
+      const boardsFirst = boardGroup({ boardSpecId: "1x4", optimizationGoal: "boards", cuts })
+      const byGroup = generateProjectResult([scrapFirst]).diagrams[0]
+      const byProject = generateProjectResult([boardsFirst], { objective: "scrap" }).diagrams[0]
+      expect(byGroup.reusableScrapInches!).toBeGreaterThan(byProject.reusableScrapInches!)
+    })
+  })
+
   describe("custom allowed lengths", () => {
     it("extends allowed lengths so cuts use custom stock when beneficial", () => {
       // A group with only 96" spec but custom 60" length added
@@ -257,6 +431,20 @@ describe("generateProjectResult", () => {
       expect(result.shoppingList).toHaveLength(0)
     })
 
+    it("assigns a labelled scrap piece to only one group", () => {
+      const legs = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 30, quantity: 1 }] })
+      const rails = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 30, quantity: 1 }] })
+      const scrap: ScrapEntry[] = [
+        { materialType: "board", nominalSizeId: "2x4", stockLength: 36, quantity: 1, pieceId: "AB12" },
+      ]
+      const result = generateProjectResult([legs, rails], { scrap })
+      expect(result.diagrams.map((d) => d.boards.map((b) => b.scrapPieceId))).toEqual([
+        ["AB12"],
+        [undefined],
+      ])
+      expect(result.shoppingList[0].items).toEqual([{ stockLength: 96, count: 1 }])
+    })
+
     it("new boards still appear in shopping list when scrap is insufficient", () => {
       // Two 50" cuts; one scrap 96" board fits one; the other needs a new board
       const group = boardGroup({
@@ -319,6 +507,167 @@ describe("generateProjectResult", () => {
     })
   })
 
+  describe("exact search", () => {
+    const mixedCuts = [
+      { length: 42, quantity: 3 },
+      { length: 25, quantity: 3 },
+      { length: 24, quantity: 3 },
+    ]
+
+    it("runs the exact board search by default", () => {
+      const group = boardGroup({ boardSpecId: "2x4", cuts: mixedCuts })
+      const result = generateProjectResult([group])
+      expect(result.diagrams[0].boards).toHaveLength(3)
+    })
+
+    it("uses the heuristic only when exactSearch is false", () => {
+      const group = boardGroup({ boardSpecId: "2x4", cuts: mixedCuts })
+      const result = generateProjectResult([group], { exactSearch: false })
+      expect(result.diagrams[0].boards).toHaveLength(4)
+    })
+
+    it("stops the exact search at the node budget", () => {
+      const group = boardGroup({ boardSpecId: "2x4", cuts: mixedCuts })
+      const result = generateProjectResult([group], { exactSearch: { maxNodes: 10 } })
+      expect(result.diagrams[0].boards).toHaveLength(4)
+    })
+  })
+
+  describe("unplaced cuts", () => {
+    it("is empty when everything fits", () => {
+      const group = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 30, quantity: 2 }] })
+      expect(generateProjectResult([group]).unplacedCuts).toEqual([])
+    })
+
+    it("lists cuts longer than every stock length under their group", () => {
+      const group = boardGroup({
+        id: "g1",
+        label: "Frame",
+        boardSpecId: "2x4",
+        cuts: [
+          { length: 200, quantity: 1 },
+          { length: 30, quantity: 2 },
+        ],
+      })
+      const result = generateProjectResult([group])
+      expect(result.unplacedCuts).toEqual([
+        {
+          groupId: "g1",
+          groupLabel: "Frame",
+          cuts: [{ materialType: "board", length: 200, quantity: 1, reason: "exceeds-stock" }],
+        },
+      ])
+    })
+
+    it("reports every cut of a group with an unknown board spec", () => {
+      const group = boardGroup({ boardSpecId: "nope", cuts: [{ length: 30, quantity: 2 }] })
+      const result = generateProjectResult([group])
+      expect(result.unplacedCuts[0].cuts).toEqual([
+        { materialType: "board", length: 30, quantity: 2, reason: "unknown-spec" },
+      ])
+    })
+
+    it("lists sheet pieces larger than the stock sheet", () => {
+      const group = sheetGroup({ sheetPieces: [{ width: 60, height: 100, quantity: 1 }] })
+      const result = generateProjectResult([group])
+      expect(result.unplacedCuts[0].cuts).toEqual([
+        { materialType: "sheet", width: 60, height: 100, quantity: 1, reason: "exceeds-stock" },
+      ])
+    })
+
+    it("leaves out custom lengths that make a long cut fit", () => {
+      const group = boardGroup({
+        boardSpecId: "2x4",
+        cuts: [{ length: 200, quantity: 1 }],
+        customAllowedLengths: [240],
+      })
+      expect(generateProjectResult([group]).unplacedCuts).toEqual([])
+    })
+  })
+
+  describe("pricing", () => {
+    it("adds unit prices, line totals and a project total", () => {
+      const group = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 90, quantity: 3 }] })
+      const result = generateProjectResult([group], { priceTable: { "2x4": { 96: 4.98 } } })
+      expect(result.shoppingList[0].items).toEqual([
+        { stockLength: 96, count: 3, unitPrice: 4.98, lineTotal: 14.94 },
+      ])
+      expect(result.totalCost).toBe(14.94)
+      expect(result.hasUnpricedItems).toBe(false)
+    })
+
+    it("leaves unpriced lengths without a price and flags them", () => {
+      const group = boardGroup({
+        boardSpecId: "2x4",
+        cuts: [
+          { length: 90, quantity: 1 },
+          { length: 110, quantity: 1 },
+        ],
+      })
+      const result = generateProjectResult([group], { priceTable: { "2x4": { 96: 5 } } })
+      expect(result.shoppingList[0].items).toEqual([
+        { stockLength: 96, count: 1, unitPrice: 5, lineTotal: 5 },
+        { stockLength: 120, count: 1 },
+      ])
+      expect(result.totalCost).toBe(5)
+      expect(result.hasUnpricedItems).toBe(true)
+    })
+
+    it("reports a null total when nothing is priced", () => {
+      const group = boardGroup({ boardSpecId: "2x4", cuts: [{ length: 90, quantity: 1 }] })
+      const result = generateProjectResult([group])
+      expect(result.totalCost).toBeNull()
+      expect(result.hasUnpricedItems).toBe(true)
+    })
+
+    it("sums totals across board specs", () => {
+      const a = boardGroup({ id: "a", boardSpecId: "2x4", cuts: [{ length: 90, quantity: 2 }] })
+      const b = boardGroup({ id: "b", boardSpecId: "2x6", cuts: [{ length: 90, quantity: 1 }] })
+      const result = generateProjectResult([a, b], {
+        priceTable: { "2x4": { 96: 4.1 }, "2x6": { 96: 7.2 } },
+      })
+      expect(result.totalCost).toBe(15.4)
+    })
+
+    it("minimizes cost with the cost objective", () => {
+      const group = boardGroup({
+        boardSpecId: "2x6",
+        cuts: [{ length: 90, quantity: 2 }],
+        maxLengthPreferenceInches: 192,
+      })
+      const priceTable = { "2x6": { 96: 10, 192: 18 } }
+      const byBoards = generateProjectResult([group], { priceTable, exactSearch: false })
+      const byCost = generateProjectResult([group], { priceTable, objective: "cost", exactSearch: false })
+      expect(byBoards.totalCost).toBe(20)
+      expect(byCost.totalCost).toBe(18)
+      expect(byCost.shoppingList[0].items).toEqual([
+        { stockLength: 192, count: 1, unitPrice: 18, lineTotal: 18 },
+      ])
+    })
+
+    it("buys a cheaper board past the default length preference with the cost objective", () => {
+      const group = boardGroup({ boardSpecId: "2x6", cuts: [{ length: 90, quantity: 2 }] })
+      const priceTable = { "2x6": { 96: 10, 192: 15 } }
+      for (const exactSearch of [false, undefined] as const) {
+        const byBoards = generateProjectResult([group], { priceTable, exactSearch })
+        const byCost = generateProjectResult([group], { priceTable, objective: "cost", exactSearch })
+        expect(byBoards.totalCost).toBe(20)
+        expect(byCost.shoppingList[0].items).toEqual([
+          { stockLength: 192, count: 1, unitPrice: 15, lineTotal: 15 },
+        ])
+      }
+    })
+
+    it("keeps the preferred length when a longer board costs the same", () => {
+      const group = boardGroup({ boardSpecId: "2x6", cuts: [{ length: 90, quantity: 2 }] })
+      const priceTable = { "2x6": { 96: 10, 192: 20 } }
+      const result = generateProjectResult([group], { priceTable, objective: "cost" })
+      expect(result.shoppingList[0].items).toEqual([
+        { stockLength: 96, count: 2, unitPrice: 10, lineTotal: 20 },
+      ])
+    })
+  })
+
   describe("shopping list sort order", () => {
     it("sorts shopping list by NOMINAL_SIZE_ORDER (1x6 before 2x4 before 2x6)", () => {
       const g1 = boardGroup({ boardSpecId: "2x6", cuts: [{ length: 48, quantity: 1 }] })
@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest"
+import { boardLayoutsCsv, cutListRecapCsv, shoppingListCsv, toCsv } from "../results-csv"
+import { guessColumnMapping, importCutList, parseDelimitedText } from "../csv-import"
+import type { ProjectResult } from "../project-result"
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function lines(csv: string): string[] {
+  return csv.split("\r\n").slice(0, -1)
+}
+
+const result: ProjectResult = {
+  shoppingList: [
+    {
+      nominalSizeId: "2x4",
+      nominalSizeName: "2×4 dimensional",
+      items: [
+        { stockLength: 96, count: 3, unitPrice: 4.5, lineTotal: 13.5 },
+        { stockLength: 120, count: 1 },
+      ],
+    },
+  ],
+  shoppingListSheets: [
+    {
+      groupId: "g2",
+      groupLabel: 'Carcass, 3/4"',
+      sheetCount: 2,
+      sheetWidth: 48,
+      sheetHeight: 96,
+      thickness: '3/4"',
+    },
+  ],
+  cutListRecap: [
+    {
+      groupId: "g1",
+      groupLabel: "Legs",
+      cuts: [{ length: 29.5, quantity: 4, name: "Leg" }],
+      sheetPieces: [],
+    },
+    {
+      groupId: "g2",
+      groupLabel: 'Carcass, 3/4"',
+      cuts: [],
+      sheetPieces: [{ width: 24, height: 30, quantity: 2 }],
+    },
+  ],
+  diagrams: [
+    {
+      groupId: "g1",
+      groupLabel: "Legs",
+      boardSpecId: "2x4",
+      kerfInches: 0.125,
+      boards: [
+        {
+          stockLength: 96,
+          cuts: [29.5, 29.5, 29.499999999],
+          remainingWaste: 7,
+          scrapRemaining: 7,
+          wasteRemaining: 0,
+          source: "new",
+          endTrim: 0,
+        },
+      ],
+    },
+    {
+      groupId: "g2",
+      groupLabel: 'Carcass, 3/4"',
+      sheetThickness: '3/4"',
+      kerfInches: 0.125,
+      materialType: "sheet",
+      boards: [],
+      sheets: [
+        {
+          sheetWidth: 48,
+          sheetHeight: 96,
+          placements: [
+            { x: 0, y: 0, width: 24, height: 30, rotated: false, grain: "any" },
+            { x: 24, y: 0, width: 30, height: 24, rotated: true, grain: "any" },
+          ],
+          offcuts: [],
+          remainingArea: 3168,
+          source: "new",
+        },
+      ],
+    },
+  ],
+  unplacedCuts: [],
+  totalCost: 13.5,
+  hasUnpricedItems: true,
+}
+
+// ── toCsv ────────────────────────────────────────────────────────────────────
+
+describe("toCsv", () => {
+  it("quotes cells with commas, quotes and line breaks", () => {
+    expect(toCsv([["a,b", 'say "hi"', "two\nlines", "plain"]])).toBe(
+      '"a,b","say ""hi""","two\nlines",plain\r\n'
+    )
+  })
+
+  it("writes numbers without float noise and undefined as empty", () => {
+    expect(toCsv([[0.1 + 0.2, undefined, 96]])).toBe("0.3,,96\r\n")
+  })
+})
+
+// ── shoppingListCsv ──────────────────────────────────────────────────────────
+
+describe("shoppingListCsv", () => {
+  it("lists boards per stock length and sheets per group", () => {
+    expect(lines(shoppingListCsv(result))).toEqual([
+      "Type,Material,Thickness,Length (in),Width (in),Count,Unit price,Line total",
+      "Board,2×4 dimensional,,96,,3,4.50,13.50",
+      "Board,2×4 dimensional,,120,,1,,",
+      'Sheet,"Carcass, 3/4""","3/4""",96,48,2,,',
+    ])
+  })
+
+  it("adds extra boards per length to counts and totals", () => {
+    const rows = lines(shoppingListCsv(result, { extraBoardsPerLength: 1 }))
+    expect(rows[1]).toBe("Board,2×4 dimensional,,96,,4,4.50,18.00")
+    expect(rows[2]).toBe("Board,2×4 dimensional,,120,,2,,")
+    expect(rows[3]).toContain(",2,,")
+  })
+})
+
+// ── cutListRecapCsv ──────────────────────────────────────────────────────────
+
+describe("cutListRecapCsv", () => {
+  it("writes one row per cut and piece with the group's size", () => {
+    expect(lines(cutListRecapCsv(result))).toEqual([
+      "Group,Part name,Material type,Nominal size,Length (in),Width (in),Quantity",
+      "Legs,Leg,board,2x4,29.5,,4",
+      '"Carcass, 3/4""",,sheet,"3/4""",30,24,2',
+    ])
+  })
+
+  it("can be imported back as a cut list", () => {
+    const rows = parseDelimitedText(cutListRecapCsv(result))
+    const imported = importCutList(rows, guessColumnMapping(rows[0]))
+    expect(imported.errors).toEqual([])
+    expect(imported.groups.map((g) => g.materialType)).toEqual(["board", "sheet"])
+    const [board, sheet] = imported.groups
+    expect(board.materialType === "board" && board.boardSpecId).toBe("2x4")
+    expect(board.materialType === "board" && board.cuts).toEqual([
+      { length: 29.5, quantity: 4, materialType: "board", name: "Leg" },
+    ])
+    expect(sheet.materialType === "sheet" && sheet.sheetPieces).toEqual([
+      { width: 24, height: 30, quantity: 2 },
+    ])
+  })
+})
+
+// ── boardLayoutsCsv ──────────────────────────────────────────────────────────
+
+describe("boardLayoutsCsv", () => {
+  it("writes one row per board and sheet with ordered cuts, scrap and waste", () => {
+    expect(lines(boardLayoutsCsv(result))).toEqual([
+      "Group,Board,Source,Stock length (in),Stock width (in),Cuts (in),Scrap (in),Waste (in),Leftover area (sq in)",
+      "Legs,1,new,96,,29.5; 29.5; 29.5,7,0,",
+      '"Carcass, 3/4""",1,new,96,48,24 x 30; 30 x 24,,,3168',
+    ])
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect, afterEach, vi } from "vitest"
+import { runOptimization } from "../run-optimization"
+import {
+  handleOptimizationRequest,
+  type OptimizationRequest,
+  type OptimizationResponse,
+} from "../optimization-protocol"
+import { generateProjectResult, type OptimizationProgress } from "../project-result"
+import { createBoardGroup, createSheetGroup } from "../material-groups"
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const groups = [
+  { ...createBoardGroup(), id: "a", label: "Frame", boardSpecId: "2x4", cuts: [{ length: 30, quantity: 4 }] },
+  { ...createSheetGroup(), id: "b", label: "Panels", sheetPieces: [{ width: 20, height: 30, quantity: 2 }] },
+]
+
+/** In-process stand-in for a module Worker that runs the real request handler asynchronously. */
+class FakeWorker {
+  static instances: FakeWorker[] = []
+  terminated = false
+  private listeners: ((event: MessageEvent<OptimizationResponse>) => void)[] = []
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent<OptimizationResponse>) => void) {
+    if (type === "message") this.listeners.push(listener)
+  }
+
+  postMessage(request: OptimizationRequest) {
+    handleOptimizationRequest(request, (response) => {
+      setTimeout(() => {
+        if (this.terminated) return
+        for (const listener of this.listeners) listener({ data: response } as MessageEvent<OptimizationResponse>)
+      }, 0)
+    })
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  FakeWorker.instances = []
+})
+
+// ── handleOptimizationRequest ────────────────────────────────────────────────
+
+describe("handleOptimizationRequest", () => {
+  it("posts progress per group, then the result", () => {
+    const posted: OptimizationResponse[] = []
+    handleOptimizationRequest({ type: "optimize", id: 7, groups, options: {} }, (r) => posted.push(r))
+    expect(posted.map((r) => r.type)).toEqual(["progress", "progress", "result"])
+    expect(posted.every((r) => r.id === 7)).toBe(true)
+    expect(posted[1]).toEqual({
+      type: "progress",
+      id: 7,
+      progress: { completedGroups: 1, totalGroups: 2, currentGroupLabel: "Panels" },
+    })
+  })
+
+  it("posts the same result as generateProjectResult", () => {
+    const posted: OptimizationResponse[] = []
+    handleOptimizationRequest({ type: "optimize", id: 1, groups, options: {} }, (r) => posted.push(r))
+    const last = posted[posted.length - 1]
+    expect(last.type === "result" && last.result).toEqual(generateProjectResult(groups))
+  })
+
+  it("posts an error instead of throwing", () => {
+    const posted: OptimizationResponse[] = []
+    const broken = [{ ...groups[0], cuts: null }] as unknown as typeof groups
+    handleOptimizationRequest({ type: "optimize", id: 2, groups: broken, options: {} }, (r) => posted.push(r))
+    expect(posted[posted.length - 1].type).toBe("error")
+  })
+})
+
+// ── runOptimization (synchronous fallback) ───────────────────────────────────
+
+describe("runOptimization without Worker", () => {
+  it("resolves to the project result", async () => {
+    expect(await runOptimization(groups)).toEqual(generateProjectResult(groups))
+  })
+
+  it("reports progress for each group", async () => {
+    const progress: OptimizationProgress[] = []
+    await runOptimization(groups, { onProgress: (p) => progress.push(p) })
+    expect(progress.map((p) => p.currentGroupLabel)).toEqual(["Frame", "Panels"])
+  })
+
+  it("resolves to null when already cancelled", async () => {
+    const controller = new AbortController()
+    controller.abort()
+    expect(await runOptimization(groups, { signal: controller.signal })).toBeNull()
+  })
+})
+
+// ── runOptimization (worker) ─────────────────────────────────────────────────
+
+describe("runOptimization with Worker", () => {
+  it("runs in a worker and resolves to its result", async () => {
+    vi.stubGlobal("Worker", FakeWorker)
+    const progress: OptimizationProgress[] = []
+    const result = await runOptimization(groups, {
+      scrap: [],
+      onProgress: (p) => progress.push(p),
+    })
+    expect(result).toEqual(generateProjectResult(groups))
+    expect(progress).toHaveLength(2)
+    expect(FakeWorker.instances).toHaveLength(1)
+    expect(FakeWorker.instances[0].terminated).toBe(true)
+  })
+
+  it("passes the exact search budget to the worker", async () => {
+    vi.stubGlobal("Worker", FakeWorker)
+    const frame = [
+      {
+        ...groups[0],
+        cuts: [
+          { length: 42, quantity: 3 },
+          { length: 25, quantity: 3 },
+          { length: 24, quantity: 3 },
+        ],
+      },
+    ]
+    const limited = await runOptimization(frame, { exactSearch: { maxNodes: 10 } })
+    const full = await runOptimization(frame)
+    expect(limited?.diagrams[0].boards).toHaveLength(4)
+    expect(full?.diagrams[0].boards).toHaveLength(3)
+  })
+
+  it("terminates the worker and resolves to null on cancel", async () => {
+    vi.stubGlobal("Worker", FakeWorker)
+    const controller = new AbortController()
+    const pending = runOptimization(groups, { signal: controller.signal })
+    controller.abort()
+    expect(await pending).toBeNull()
+    expect(FakeWorker.instances[0].terminated).toBe(true)
+  })
+
+  it("rejects when the worker reports an error", async () => {
+    vi.stubGlobal("Worker", FakeWorker)
+    const broken = [{ ...groups[0], cuts: null }] as unknown as typeof groups
+    await expect(runOptimization(broken)).rejects.toThrow()
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildPickList,
+  commitPlan,
+  countScrap,
+  findConsumedScrap,
+  rollbackCommit,
+  subtractScrap,
+} from "../scrap-accounting"
+import { generateProjectResult } from "../project-result"
+import { createBoardGroup, createSheetGroup } from "../material-groups"
+import type { MaterialGroup } from "../material-groups"
+import type { ScrapEntry } from "../optimizer"
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function boardGroup(overrides?: Partial<MaterialGroup>): MaterialGroup {
+  return { ...createBoardGroup(), ...overrides }
+}
+
+function board(
+  nominalSizeId: string,
+  stockLength: number,
+  quantity: number,
+  location?: string
+): ScrapEntry {
+  return location === undefined
+    ? { materialType: "board", nominalSizeId, stockLength, quantity }
+    : { materialType: "board", nominalSizeId, stockLength, quantity, location }
+}
+
+const sheet: ScrapEntry = { materialType: "sheet", width: 24, height: 48, thickness: '3/4"', quantity: 1 }
+
+// Two 40" cuts fit on the two 72" scrap boards; each leaves a 32" offcut
+const inventory = [board("2x4", 72, 3), sheet]
+const plan = generateProjectResult(
+  [boardGroup({ boardSpecId: "2x4", cuts: [{ length: 40, quantity: 2 }] })],
+  { scrap: inventory }
+)
+
+// ── findConsumedScrap ────────────────────────────────────────────────────────
+
+describe("findConsumedScrap", () => {
+  it("lists the scrap boards a plan cuts from, merged", () => {
+    expect(findConsumedScrap(plan)).toEqual([board("2x4", 72, 2)])
+  })
+
+  it("includes scrap sheets with their group's thickness", () => {
+    const panels = generateProjectResult(
+      [{ ...createSheetGroup(), sheetPieces: [{ width: 20, height: 40, quantity: 1 }] }],
+      { scrap: inventory }
+    )
+    expect(findConsumedScrap(panels)).toEqual([sheet])
+  })
+
+  it("names the tracked piece a plan cuts from", () => {
+    const piece = { ...board("2x4", 72, 1), pieceId: "K7QF", addedAt: "2026-03-07" }
+    const tracked = generateProjectResult(
+      [boardGroup({ boardSpecId: "2x4", cuts: [{ length: 40, quantity: 1 }] })],
+      { scrap: [piece] }
+    )
+    expect(tracked.diagrams[0].boards[0].scrapPieceId).toBe("K7QF")
+    expect(findConsumedScrap(tracked)).toEqual([{ ...board("2x4", 72, 1), pieceId: "K7QF" }])
+    expect(commitPlan([piece, board("2x4", 72, 1)], tracked, []).inventory).toEqual([
+      board("2x4", 72, 1),
+    ])
+  })
+
+  it("is empty when the plan uses only new boards", () => {
+    const fresh = generateProjectResult([boardGroup({ cuts: [{ length: 40, quantity: 2 }] })])
+    expect(findConsumedScrap(fresh)).toEqual([])
+  })
+})
+
+// ── buildPickList ────────────────────────────────────────────────────────────
+
+describe("buildPickList", () => {
+  it("groups consumed scrap by location, unlocated last", () => {
+    const located = generateProjectResult(
+      [boardGroup({ boardSpecId: "2x4", cuts: [{ length: 40, quantity: 3 }] })],
+      { scrap: [board("2x4", 72, 1), board("2x4", 70, 1, "Wall rack"), board("2x4", 60, 1, "Bin 2")] }
+    )
+    expect(buildPickList(located)).toEqual([
+      { location: "Bin 2", entries: [board("2x4", 60, 1, "Bin 2")] },
+      { location: "Wall rack", entries: [board("2x4", 70, 1, "Wall rack")] },
+      { location: null, entries: [board("2x4", 72, 1)] },
+    ])
+  })
+
+  it("is empty when no scrap is used", () => {
+    expect(buildPickList(generateProjectResult([boardGroup({ cuts: [{ length: 40, quantity: 1 }] })]))).toEqual([])
+  })
+})
+
+// ── subtractScrap ────────────────────────────────────────────────────────────
+
+describe("subtractScrap", () => {
+  it("reduces quantities and drops entries that reach zero", () => {
+    const { remaining, removed } = subtractScrap(
+      [board("2x4", 72, 2), board("2x6", 48, 1), sheet],
+      [board("2x4", 72, 1), board("2x6", 48, 1)]
+    )
+    expect(remaining).toEqual([board("2x4", 72, 1), sheet])
+    expect(removed).toEqual([board("2x4", 72, 1), board("2x6", 48, 1)])
+  })
+
+  it("never removes more than the inventory holds", () => {
+    const { remaining, removed, missing } = subtractScrap(
+      [board("2x4", 72, 1)],
+      [board("2x4", 72, 3), board("2x4", 60, 1)]
+    )
+    expect(remaining).toEqual([])
+    expect(removed).toEqual([board("2x4", 72, 1)])
+    expect(missing).toEqual([board("2x4", 72, 2), board("2x4", 60, 1)])
+  })
+
+  it("matches boards on location", () => {
+    const { remaining } = subtractScrap(
+      [board("2x4", 72, 1, "Bin 1"), board("2x4", 72, 1)],
+      [board("2x4", 72, 1, "Bin 1")]
+    )
+    expect(remaining).toEqual([board("2x4", 72, 1)])
+  })
+
+  it("matches sheets on size and thickness", () => {
+    const { remaining } = subtractScrap([sheet], [{ ...sheet, thickness: '1/2"' }])
+    expect(remaining).toEqual([sheet])
+    expect(subtractScrap([sheet], [sheet]).remaining).toEqual([])
+  })
+})
+
+// ── commitPlan / rollbackCommit ──────────────────────────────────────────────
+
+describe("commitPlan", () => {
+  it("consumes the plan's scrap and adds its offcuts", () => {
+    const { inventory: next, commit, missing } = commitPlan(inventory, plan)
+    expect(missing).toEqual([])
+    expect(commit.consumed).toEqual([board("2x4", 72, 2)])
+    expect(commit.produced).toEqual([board("2x4", 32, 2)])
+    expect(next).toEqual([board("2x4", 72, 1), board("2x4", 32, 2), sheet])
+  })
+
+  it("records only the offcuts passed in", () => {
+    const { inventory: next, commit } = commitPlan(inventory, plan, [])
+    expect(commit.produced).toEqual([])
+    expect(next).toEqual([board("2x4", 72, 1), sheet])
+  })
+
+  it("records what was actually removed when the inventory has changed", () => {
+    const { inventory: next, commit, missing } = commitPlan([board("2x4", 72, 1)], plan, [])
+    expect(commit.consumed).toEqual([board("2x4", 72, 1)])
+    expect(missing).toEqual([board("2x4", 72, 1)])
+    expect(next).toEqual([])
+  })
+
+  it("does not change the inventory passed in", () => {
+    const before = structuredClone(inventory)
+    commitPlan(inventory, plan)
+    expect(inventory).toEqual(before)
+  })
+})
+
+describe("rollbackCommit", () => {
+  it("restores the inventory from before the commit", () => {
+    const { inventory: next, commit } = commitPlan(inventory, plan)
+    const restored = rollbackCommit(next, commit)
+    expect(countScrap(restored)).toBe(countScrap(inventory))
+    expect(restored).toEqual(expect.arrayContaining([board("2x4", 72, 3), sheet]))
+    expect(restored).toHaveLength(2)
+  })
+
+  it("keeps changes made after the commit", () => {
+    const { inventory: next, commit } = commitPlan(inventory, plan)
+    // One offcut was used elsewhere and a board was added by hand
+    const edited = [...subtractScrap(next, [board("2x4", 32, 1)]).remaining, board("1x4", 30, 1)]
+    const restored = rollbackCommit(edited, commit)
+    expect(restored).toEqual(
+      expect.arrayContaining([board("2x4", 72, 3), board("1x4", 30, 1), sheet])
+    )
+    expect(restored.some((s) => s.materialType === "board" && s.stockLength === 32)).toBe(false)
+  })
+})
+
+// ── countScrap ───────────────────────────────────────────────────────────────
+
+describe("countScrap", () => {
+  it("sums quantities", () => {
+    expect(countScrap([board("2x4", 72, 2), sheet])).toBe(3)
+    expect(countScrap([])).toBe(0)
+  })
+})
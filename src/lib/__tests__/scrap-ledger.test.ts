@@ -0,0 +1,361 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import {
+  MAX_LEDGER_TRANSACTIONS,
+  SCRAP_LEDGER_STORAGE_KEY,
+  applyScrapChanges,
+  diffScrapInventories,
+  isScrapTransactionInEffect,
+  loadScrapHistoryFromStorage,
+  mergeScrapLedgers,
+  parseScrapEntryFromUnknown,
+  parseScrapHistoryFromUnknown,
+  recordScrapTransaction,
+  redoScrapTransaction,
+  revertScrapTransaction,
+  saveScrapHistoryToStorage,
+  undoScrapTransaction,
+  type ScrapLedgerState,
+} from "../scrap-ledger"
+import type { ScrapEntry } from "../optimizer"
+import { STOCK_PROFILES } from "../stock-profiles"
+
+// Minimal localStorage mock for node environment
+const store: Record<string, string> = {}
+const localStorageMock = {
+  getItem: (key: string) => store[key] ?? null,
+  setItem: (key: string, value: string) => { store[key] = value },
+  removeItem: (key: string) => { delete store[key] },
+  clear: () => { Object.keys(store).forEach((k) => delete store[k]) },
+  length: 0,
+  key: () => null,
+}
+Object.defineProperty(globalThis, "localStorage", {
+  value: localStorageMock,
+  writable: true,
+})
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function board(stockLength: number, quantity: number, nominalSizeId = "2x4"): ScrapEntry {
+  return { materialType: "board", nominalSizeId, stockLength, quantity }
+}
+
+const empty: ScrapLedgerState = { inventory: [], history: [], redo: [] }
+const at = new Date("2026-03-01T12:00:00Z")
+
+// ── applyScrapChanges ────────────────────────────────────────────────────────
+
+describe("applyScrapChanges", () => {
+  it("adds increases and subtracts decreases", () => {
+    const { inventory } = applyScrapChanges(
+      [board(72, 2)],
+      [
+        { kind: "consumed", entry: board(72, 1) },
+        { kind: "produced", entry: board(32, 1) },
+      ]
+    )
+    expect(inventory).toEqual([board(72, 1), board(32, 1)])
+  })
+
+  it("records only what was actually removed", () => {
+    const { inventory, applied } = applyScrapChanges(
+      [board(72, 1)],
+      [
+        { kind: "discarded", entry: board(72, 3) },
+        { kind: "discarded", entry: board(60, 1) },
+      ]
+    )
+    expect(inventory).toEqual([])
+    expect(applied).toEqual([{ kind: "discarded", entry: board(72, 1) }])
+  })
+})
+
+// ── diffScrapInventories ─────────────────────────────────────────────────────
+
+describe("diffScrapInventories", () => {
+  it("reports increases as added and decreases as discarded", () => {
+    expect(diffScrapInventories([board(72, 2), board(60, 1)], [board(72, 3), board(48, 1)])).toEqual([
+      { kind: "discarded", entry: board(60, 1) },
+      { kind: "added", entry: board(72, 1) },
+      { kind: "added", entry: board(48, 1) },
+    ])
+  })
+
+  it("is empty when nothing changed", () => {
+    expect(diffScrapInventories([board(72, 2)], [board(72, 2)])).toEqual([])
+  })
+})
+
+// ── recordScrapTransaction / undo / redo ─────────────────────────────────────
+
+describe("recordScrapTransaction", () => {
+  it("applies the changes and appends a timestamped transaction", () => {
+    const next = recordScrapTransaction(empty, [{ kind: "added", entry: board(72, 2) }], {}, at)
+    expect(next.inventory).toEqual([board(72, 2)])
+    expect(next.history).toHaveLength(1)
+    expect(next.history[0]).toMatchObject({ at: "2026-03-01T12:00:00.000Z" })
+  })
+
+  it("keeps the plan label", () => {
+    const next = recordScrapTransaction(
+      { ...empty, inventory: [board(72, 1)] },
+      [{ kind: "consumed", entry: board(72, 1) }],
+      { planLabel: "Bookshelf" }
+    )
+    expect(next.history[0].planLabel).toBe("Bookshelf")
+  })
+
+  it("uses the id passed in, or a new one when it is undefined", () => {
+    const add = [{ kind: "added" as const, entry: board(72, 1) }]
+    expect(recordScrapTransaction(empty, add, { id: "commit-1" }).history[0].id).toBe("commit-1")
+    expect(recordScrapTransaction(empty, add, { id: undefined }).history[0].id).toMatch(/^scrap-tx-/)
+  })
+
+  it("returns the same state when nothing changes", () => {
+    expect(recordScrapTransaction(empty, [{ kind: "discarded", entry: board(72, 1) }])).toBe(empty)
+  })
+
+  it("clears the redo stack", () => {
+    const added = recordScrapTransaction(empty, [{ kind: "added", entry: board(72, 1) }])
+    const undone = undoScrapTransaction(added)
+    expect(undone.redo).toHaveLength(1)
+    expect(recordScrapTransaction(undone, [{ kind: "added", entry: board(60, 1) }]).redo).toEqual([])
+  })
+
+  it(`keeps at most ${MAX_LEDGER_TRANSACTIONS} transactions`, () => {
+    let state = empty
+    for (let i = 0; i < MAX_LEDGER_TRANSACTIONS + 5; i++) {
+      state = recordScrapTransaction(state, [{ kind: "added", entry: board(72, 1) }])
+    }
+    expect(state.history).toHaveLength(MAX_LEDGER_TRANSACTIONS)
+    expect(state.inventory).toEqual([board(72, MAX_LEDGER_TRANSACTIONS + 5)])
+  })
+})
+
+describe("undoScrapTransaction / redoScrapTransaction", () => {
+  const start: ScrapLedgerState = { inventory: [board(72, 2)], history: [], redo: [] }
+  const committed = recordScrapTransaction(start, [
+    { kind: "consumed", entry: board(72, 1) },
+    { kind: "produced", entry: board(32, 1) },
+  ])
+
+  it("undo restores the inventory from before the transaction", () => {
+    const undone = undoScrapTransaction(committed)
+    expect(undone.inventory).toEqual([board(72, 2)])
+    expect(undone.history).toEqual([])
+    expect(undone.redo).toEqual(committed.history)
+  })
+
+  it("undo of a clamped decrease adds back only what was removed", () => {
+    const discarded = recordScrapTransaction(start, [{ kind: "discarded", entry: board(72, 5) }])
+    expect(undoScrapTransaction(discarded).inventory).toEqual([board(72, 2)])
+  })
+
+  it("redo re-applies the undone transaction", () => {
+    const redone = redoScrapTransaction(undoScrapTransaction(committed))
+    expect(redone.inventory).toEqual(committed.inventory)
+    expect(redone.history).toEqual(committed.history)
+    expect(redone.redo).toEqual([])
+  })
+
+  it("does nothing with empty stacks", () => {
+    expect(undoScrapTransaction(start)).toBe(start)
+    expect(redoScrapTransaction(start)).toBe(start)
+  })
+})
+
+describe("revertScrapTransaction", () => {
+  const start: ScrapLedgerState = { inventory: [board(72, 2)], history: [], redo: [] }
+  const committed = recordScrapTransaction(
+    start,
+    [
+      { kind: "consumed", entry: board(72, 1) },
+      { kind: "produced", entry: board(32, 1) },
+    ],
+    { id: "commit-1", planLabel: "Bench" }
+  )
+
+  it("records the inverse changes and keeps later edits", () => {
+    const edited = recordScrapTransaction(committed, [{ kind: "added", entry: board(48, 1) }])
+    const reverted = revertScrapTransaction(edited, "commit-1", { note: "Rolled back" })
+    expect(reverted.inventory).toEqual([board(72, 2), board(48, 1)])
+    expect(reverted.history).toHaveLength(3)
+    expect(reverted.history[2]).toMatchObject({
+      note: "Rolled back",
+      reverts: "commit-1",
+      changes: [
+        { kind: "consumed", entry: board(32, 1) },
+        { kind: "produced", entry: board(72, 1) },
+      ],
+    })
+  })
+
+  it("does nothing once the transaction was undone or reverted", () => {
+    const undone = undoScrapTransaction(committed)
+    expect(revertScrapTransaction(undone, "commit-1")).toBe(undone)
+    const reverted = revertScrapTransaction(committed, "commit-1")
+    expect(revertScrapTransaction(reverted, "commit-1")).toBe(reverted)
+  })
+})
+
+describe("isScrapTransactionInEffect", () => {
+  const committed = recordScrapTransaction(empty, [{ kind: "produced", entry: board(32, 1) }], {
+    id: "commit-1",
+  })
+
+  it("is true while the transaction is in the history", () => {
+    expect(isScrapTransactionInEffect(committed, "commit-1")).toBe(true)
+    expect(isScrapTransactionInEffect(committed, "other")).toBe(false)
+  })
+
+  it("is false once undone or reverted, and true again after redo", () => {
+    const undone = undoScrapTransaction(committed)
+    expect(isScrapTransactionInEffect(undone, "commit-1")).toBe(false)
+    expect(isScrapTransactionInEffect(redoScrapTransaction(undone), "commit-1")).toBe(true)
+    const reverted = revertScrapTransaction(committed, "commit-1")
+    expect(isScrapTransactionInEffect(reverted, "commit-1")).toBe(false)
+    expect(isScrapTransactionInEffect(undoScrapTransaction(reverted), "commit-1")).toBe(true)
+  })
+
+  it("assumes a transaction dropped from a full history still counts", () => {
+    let state = committed
+    for (let i = 0; i < MAX_LEDGER_TRANSACTIONS; i++) {
+      state = recordScrapTransaction(state, [{ kind: "added", entry: board(48, 1) }])
+    }
+    expect(state.history.some((tx) => tx.id === "commit-1")).toBe(false)
+    expect(isScrapTransactionInEffect(state, "commit-1")).toBe(true)
+  })
+})
+
+// ── parseScrapEntryFromUnknown ───────────────────────────────────────────────
+
+describe("parseScrapEntryFromUnknown", () => {
+  it("parses boards and sheets", () => {
+    expect(parseScrapEntryFromUnknown(board(72, 1))).toEqual(board(72, 1))
+    const sheet = { materialType: "sheet", width: 24, height: 48, thickness: '3/4"', quantity: 1 }
+    expect(parseScrapEntryFromUnknown(sheet)).toEqual(sheet)
+  })
+
+  it("keeps a board's storage location", () => {
+    const located = { ...board(72, 1), location: "Shelf 3" }
+    expect(parseScrapEntryFromUnknown(located)).toEqual(located)
+    expect(parseScrapEntryFromUnknown({ ...board(72, 1), location: 5 })).toEqual(board(72, 1))
+  })
+
+  it("keeps a tracked piece's ID and date", () => {
+    const piece = { ...board(72, 1), pieceId: "K7QF", addedAt: "2026-03-07" }
+    expect(parseScrapEntryFromUnknown(piece)).toEqual(piece)
+    expect(parseScrapEntryFromUnknown({ ...board(72, 1), addedAt: "2026-03-07" })).toEqual(board(72, 1))
+  })
+
+  it("loads legacy length-only entries as boards of the first profile", () => {
+    expect(parseScrapEntryFromUnknown({ stockLength: 60, quantity: 2 })).toEqual(
+      board(60, 2, STOCK_PROFILES[0].id)
+    )
+  })
+
+  it("returns null for anything else", () => {
+    expect(parseScrapEntryFromUnknown(null)).toBeNull()
+    expect(parseScrapEntryFromUnknown({ materialType: "sheet", width: 24 })).toBeNull()
+  })
+})
+
+// ── parseScrapHistoryFromUnknown ─────────────────────────────────────────────
+
+describe("parseScrapHistoryFromUnknown", () => {
+  it("drops malformed transactions and changes", () => {
+    const history = parseScrapHistoryFromUnknown([
+      {
+        id: "a",
+        at: "2026-03-01T12:00:00.000Z",
+        planLabel: "Bench",
+        changes: [
+          { kind: "consumed", entry: board(72, 1) },
+          { kind: "stolen", entry: board(72, 1) },
+          { kind: "added", entry: board(72, 0) },
+        ],
+      },
+      { id: "b", at: "2026-03-01T12:00:00.000Z", changes: [] },
+      { id: "c", changes: [{ kind: "added", entry: board(72, 1) }] },
+      "junk",
+    ])
+    expect(history).toEqual([
+      {
+        id: "a",
+        at: "2026-03-01T12:00:00.000Z",
+        planLabel: "Bench",
+        changes: [{ kind: "consumed", entry: board(72, 1) }],
+      },
+    ])
+  })
+
+  it("returns [] for non-arrays", () => {
+    expect(parseScrapHistoryFromUnknown({})).toEqual([])
+  })
+})
+
+// ── createScrapTransactionId ─────────────────────────────────────────────────
+
+describe("createScrapTransactionId", () => {
+  it("differs between tabs recording in the same millisecond", async () => {
+    vi.spyOn(Date, "now").mockReturnValue(1_700_000_000_000)
+    vi.resetModules()
+    const tabA = await import("../scrap-ledger")
+    vi.resetModules()
+    const tabB = await import("../scrap-ledger")
+    expect(tabA.createScrapTransactionId()).not.toBe(tabB.createScrapTransactionId())
+    vi.restoreAllMocks()
+  })
+})
+
+// ── mergeScrapLedgers ────────────────────────────────────────────────────────
+
+describe("mergeScrapLedgers", () => {
+  const start = recordScrapTransaction(empty, [{ kind: "added", entry: board(72, 3) }])
+
+  it("re-applies this tab's newer transactions on top of the other tab's inventory", () => {
+    const mine = recordScrapTransaction(start, [{ kind: "consumed", entry: board(72, 1) }])
+    const theirs = recordScrapTransaction(start, [
+      { kind: "consumed", entry: board(72, 1) },
+      { kind: "added", entry: board(48, 1) },
+    ])
+    const merged = mergeScrapLedgers(mine, theirs)
+    expect(merged.inventory).toEqual([board(72, 1), board(48, 1)])
+    expect(merged.history.map((tx) => tx.id)).toEqual([
+      ...theirs.history.map((tx) => tx.id),
+      mine.history[1].id,
+    ])
+    expect(merged.redo).toEqual([])
+  })
+
+  it("drops consumption the other tab's inventory can no longer cover", () => {
+    const mine = recordScrapTransaction(start, [{ kind: "consumed", entry: board(72, 2) }])
+    const theirs = recordScrapTransaction(start, [{ kind: "consumed", entry: board(72, 2) }])
+    const merged = mergeScrapLedgers(mine, theirs)
+    expect(merged.inventory).toEqual([])
+    expect(merged.history.at(-1)?.changes).toEqual([{ kind: "consumed", entry: board(72, 1) }])
+  })
+
+  it("adopts the other tab's ledger when this tab has nothing new", () => {
+    const theirs = recordScrapTransaction(start, [{ kind: "discarded", entry: board(72, 1) }])
+    expect(mergeScrapLedgers(start, theirs)).toEqual({ ...theirs, redo: [] })
+  })
+})
+
+// ── saveScrapHistoryToStorage + loadScrapHistoryFromStorage ──────────────────
+
+describe("saveScrapHistoryToStorage + loadScrapHistoryFromStorage", () => {
+  beforeEach(() => localStorageMock.clear())
+
+  it("round-trips history through localStorage", () => {
+    const { history } = recordScrapTransaction(empty, [{ kind: "added", entry: board(72, 1) }], { note: "x" })
+    saveScrapHistoryToStorage(history)
+    expect(loadScrapHistoryFromStorage()).toEqual(history)
+  })
+
+  it("returns [] when nothing is stored or data is invalid JSON", () => {
+    expect(loadScrapHistoryFromStorage()).toEqual([])
+    store[SCRAP_LEDGER_STORAGE_KEY] = "not json {"
+    expect(loadScrapHistoryFromStorage()).toEqual([])
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest"
+import {
+  PIECE_ID_LENGTH,
+  assignScrapPieceIds,
+  generatePieceId,
+  isTrackedPiece,
+  toPieceDate,
+  untrackScrapPieces,
+  usedPieceIds,
+} from "../scrap-pieces"
+import type { ScrapEntry } from "../optimizer"
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Deterministic stand-in for Math.random that cycles through the given values. */
+function sequence(...values: number[]): () => number {
+  let i = 0
+  return () => values[i++ % values.length]
+}
+
+const date = new Date(2026, 2, 7)
+const sheet: ScrapEntry = { materialType: "sheet", width: 24, height: 48, thickness: '3/4"', quantity: 2 }
+
+// ── generatePieceId ──────────────────────────────────────────────────────────
+
+describe("generatePieceId", () => {
+  it("returns a short ID from the unambiguous alphabet", () => {
+    const id = generatePieceId(new Set())
+    expect(id).toHaveLength(PIECE_ID_LENGTH)
+    expect(id).toMatch(/^[A-HJ-NP-Z2-9]+$/)
+  })
+
+  it("skips IDs that are already taken", () => {
+    // First draw is AAAA (taken), second is BBBB
+    const random = sequence(0, 0, 0, 0, 1 / 32, 1 / 32, 1 / 32, 1 / 32)
+    expect(generatePieceId(new Set(["AAAA"]), random)).toBe("BBBB")
+  })
+})
+
+// ── toPieceDate ──────────────────────────────────────────────────────────────
+
+describe("toPieceDate", () => {
+  it("formats the local date as YYYY-MM-DD", () => {
+    expect(toPieceDate(date)).toBe("2026-03-07")
+  })
+})
+
+// ── assignScrapPieceIds ──────────────────────────────────────────────────────
+
+describe("assignScrapPieceIds", () => {
+  it("splits counted boards into dated pieces with unique IDs", () => {
+    const pieces = assignScrapPieceIds(
+      [{ materialType: "board", nominalSizeId: "2x4", stockLength: 72, quantity: 3, location: "Rack" }],
+      date
+    )
+    expect(pieces).toHaveLength(3)
+    expect(pieces.every(isTrackedPiece)).toBe(true)
+    expect(new Set(pieces.map((p) => (isTrackedPiece(p) ? p.pieceId : ""))).size).toBe(3)
+    expect(pieces[0]).toMatchObject({ quantity: 1, location: "Rack", addedAt: "2026-03-07" })
+  })
+
+  it("keeps existing IDs and avoids them for new pieces", () => {
+    const existing: ScrapEntry = {
+      materialType: "board",
+      nominalSizeId: "2x4",
+      stockLength: 60,
+      quantity: 1,
+      pieceId: "AAAA",
+      addedAt: "2025-01-01",
+    }
+    const added: ScrapEntry = { materialType: "board", nominalSizeId: "2x4", stockLength: 60, quantity: 1 }
+    const random = sequence(0, 0, 0, 0, 0.5, 0.5, 0.5, 0.5)
+    const pieces = assignScrapPieceIds([existing, added], date, [], random)
+    expect(pieces[0]).toEqual(existing)
+    expect(pieces[1]).toMatchObject({ pieceId: "SSSS", addedAt: "2026-03-07" })
+  })
+
+  it("avoids IDs passed as taken", () => {
+    const added: ScrapEntry = { materialType: "board", nominalSizeId: "2x4", stockLength: 60, quantity: 1 }
+    const random = sequence(0, 0, 0, 0, 0.5, 0.5, 0.5, 0.5)
+    const [piece] = assignScrapPieceIds([added], date, ["AAAA"], random)
+    expect(piece).toMatchObject({ pieceId: "SSSS" })
+  })
+
+  it("leaves sheet scrap counted", () => {
+    expect(assignScrapPieceIds([sheet], date)).toEqual([sheet])
+  })
+})
+
+// ── untrackScrapPieces ───────────────────────────────────────────────────────
+
+describe("untrackScrapPieces", () => {
+  it("drops IDs and merges equal boards back into counts", () => {
+    const pieces = assignScrapPieceIds(
+      [{ materialType: "board", nominalSizeId: "2x4", stockLength: 72, quantity: 2 }, sheet],
+      date
+    )
+    expect(untrackScrapPieces(pieces)).toEqual([
+      { materialType: "board", nominalSizeId: "2x4", stockLength: 72, quantity: 2 },
+      sheet,
+    ])
+  })
+})
+
+// ── usedPieceIds ─────────────────────────────────────────────────────────────
+
+describe("usedPieceIds", () => {
+  it("collects IDs from the inventory, history and redo stack", () => {
+    const piece = (pieceId: string): ScrapEntry => ({
+      materialType: "board",
+      nominalSizeId: "2x4",
+      stockLength: 60,
+      quantity: 1,
+      pieceId,
+    })
+    const tx = (id: string, entry: ScrapEntry) => ({
+      id,
+      at: date.toISOString(),
+      changes: [{ kind: "consumed" as const, entry }],
+    })
+    const ids = usedPieceIds({
+      inventory: [piece("AAAA"), sheet],
+      history: [tx("1", piece("BBBB"))],
+      redo: [tx("2", piece("CCCC"))],
+    })
+    expect([...ids].sort()).toEqual(["AAAA", "BBBB", "CCCC"])
+  })
+})
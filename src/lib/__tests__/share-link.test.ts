@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest"
+import {
+  createShareLink,
+  decodeSharePayload,
+  encodeSharePayload,
+  readSharePayload,
+} from "../share-link"
+import type { Project } from "../project-file"
+import { createBoardGroup } from "../material-groups"
+import { createImportReport } from "../import-report"
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const now = new Date("2026-05-01T12:00:00.000Z")
+
+const project: Project = {
+  name: "Bookshelf",
+  createdAt: "2026-04-01T09:00:00.000Z",
+  modifiedAt: "2026-04-02T10:30:00.000Z",
+  groups: [
+    {
+      ...createBoardGroup(),
+      id: "sides",
+      label: "Sides",
+      cuts: [{ length: 72, quantity: 2, materialType: "board" }],
+    },
+  ],
+  settings: { objective: "boards" },
+}
+
+// ── encodeSharePayload / decodeSharePayload ──────────────────────────────────
+
+describe("share payloads", () => {
+  it("round-trip a project with URL-safe characters only", async () => {
+    const payload = await encodeSharePayload(project)
+    expect(payload).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(await decodeSharePayload(payload, now)).toEqual(project)
+  })
+
+  it("leave the sender's scrap out", async () => {
+    const scrap = [{ materialType: "board" as const, nominalSizeId: "2x4", stockLength: 60, quantity: 1 }]
+    const decoded = await decodeSharePayload(await encodeSharePayload({ ...project, scrap }), now)
+    expect(decoded).not.toHaveProperty("scrap")
+  })
+
+  it("validate groups like an imported file and fill the report", async () => {
+    const withBadCut = {
+      ...project,
+      groups: [{ ...project.groups[0], cuts: [...project.groups[0].cuts, { length: -1, quantity: 1, materialType: "board" as const }] }],
+    }
+    const report = createImportReport()
+    const decoded = await decodeSharePayload(await encodeSharePayload(withBadCut), now, report)
+    expect(decoded?.groups[0].cuts).toHaveLength(1)
+    expect(report.droppedItems).toHaveLength(1)
+  })
+
+  it("return null for damaged payloads", async () => {
+    const payload = await encodeSharePayload(project)
+    expect(await decodeSharePayload(payload.slice(0, 20), now)).toBeNull()
+    expect(await decodeSharePayload("not base64!", now)).toBeNull()
+  })
+})
+
+// ── Links ────────────────────────────────────────────────────────────────────
+
+describe("createShareLink / readSharePayload", () => {
+  it("put the payload in the fragment and read it back", async () => {
+    const link = await createShareLink(project, "https://example.com/app/?x=1#old")
+    const url = new URL(link)
+    expect(`${url.origin}${url.pathname}${url.search}`).toBe("https://example.com/app/?x=1")
+    expect(readSharePayload(url.hash)).toBe(await encodeSharePayload(project))
+  })
+
+  it("return null for fragments without a project", () => {
+    expect(readSharePayload("")).toBeNull()
+    expect(readSharePayload("#section")).toBeNull()
+    expect(readSharePayload("#project=")).toBeNull()
+  })
+})
@@ -1,10 +1,22 @@
 import { describe, it, expect } from "vitest"
 import {
   formatStockLength,
+  formatSheetSize,
   shortNominalName,
   STOCK_PROFILES,
 } from "../stock-profiles"
 
+describe("formatSheetSize", () => {
+  it("formats whole-foot sheets in feet", () => {
+    expect(formatSheetSize(48, 96)).toBe("4×8 ft")
+    expect(formatSheetSize(60, 60)).toBe("5×5 ft")
+  })
+
+  it("falls back to inches when a side is not whole feet", () => {
+    expect(formatSheetSize(49, 97)).toBe('49" × 97"')
+  })
+})
+
 describe("formatStockLength", () => {
   it("formats 96 inches as 8 ft", () => {
     expect(formatStockLength(96)).toBe("8 ft")
@@ -0,0 +1,253 @@
+import { isValidLength, isValidQuantity, mergeCuts, parseLength, type CutRequirement } from "./cuts"
+import {
+  createBoardGroup,
+  createSheetGroup,
+  mergeSheetPieces,
+  type MaterialGroup,
+  type SheetPiece,
+} from "./material-groups"
+import { STOCK_PROFILES, shortNominalName, type MaterialType } from "./stock-profiles"
+
+/** Cut list columns the importer understands. */
+export type CutListField = "name" | "length" | "width" | "quantity" | "nominalSize" | "materialType"
+
+export const CUT_LIST_FIELDS: { field: CutListField; label: string }[] = [
+  { field: "name", label: "Part name" },
+  { field: "length", label: "Length" },
+  { field: "width", label: "Width (sheet parts)" },
+  { field: "quantity", label: "Quantity" },
+  { field: "nominalSize", label: "Nominal size / thickness" },
+  { field: "materialType", label: "Material type" },
+]
+
+/** Column index for each field; unmapped fields are left out. */
+export type ColumnMapping = Partial<Record<CutListField, number>>
+
+/** A row that could not be imported. */
+export interface CutListRowError {
+  /** Row number in the file (1-based, header included); the line number unless a cell spans lines. */
+  line: number
+  /** Part name from the row, when mapped and not empty. */
+  name?: string
+  message: string
+}
+
+export interface CutListImport {
+  groups: MaterialGroup[]
+  /** Rows turned into cuts or sheet pieces. */
+  importedRows: number
+  errors: CutListRowError[]
+}
+
+export interface CutListImportOptions {
+  /** Skip the first row. Default true. */
+  hasHeader?: boolean
+  /** Board spec for board rows with an empty nominal size. Without it such rows are errors. */
+  defaultBoardSpecId?: string
+}
+
+/** Header words recognised for each field, compared after normalizeHeader. */
+const HEADER_SYNONYMS: Record<CutListField, string[]> = {
+  name: ["name", "part", "partname", "description", "label", "item"],
+  length: ["length", "len", "l", "lengthin", "lengthinches"],
+  width: ["width", "w", "widthin", "widthinches"],
+  quantity: ["quantity", "qty", "count", "pcs", "pieces", "number"],
+  nominalSize: ["nominalsize", "nominal", "size", "stock", "profile", "thickness"],
+  materialType: ["materialtype", "type", "material", "kind"],
+}
+
+const SHEET_WORDS = ["sheet", "plywood", "panel", "mdf", "osb", "sheetgoods"]
+const BOARD_WORDS = ["board", "lumber", "dimensional", "hardwood", "linear"]
+
+const DEFAULT_SHEET_THICKNESS = '3/4"'
+
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/[^a-z]/g, "")
+}
+
+function normalizeSize(text: string): string {
+  return text.toLowerCase().replace(/×/g, "x").replace(/[\s"”]/g, "")
+}
+
+/**
+ * Split delimited text into rows of cells. Tab-separated when the first line has a tab,
+ * semicolon-separated when it has semicolons but no commas, comma-separated otherwise.
+ * Handles quoted cells with doubled quotes and line breaks. Blank lines are kept as empty rows
+ * so row numbers match the file's lines.
+ */
+export function parseDelimitedText(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  const delimiter = firstLine.includes("\t")
+    ? "\t"
+    : firstLine.includes(";") && !firstLine.includes(",")
+      ? ";"
+      : ","
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true
+    } else if (ch === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+/** Map columns to fields by their header text. Each column is used at most once. */
+export function guessColumnMapping(header: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<number>()
+  for (const { field } of CUT_LIST_FIELDS) {
+    const index = header.findIndex(
+      (h, i) => !used.has(i) && HEADER_SYNONYMS[field].includes(normalizeHeader(h))
+    )
+    if (index !== -1) {
+      mapping[field] = index
+      used.add(index)
+    }
+  }
+  return mapping
+}
+
+/** Board spec id for a nominal size as people write it ("2x4", "2 × 4", "4/4 hardwood"), or null. */
+export function matchBoardSpecId(text: string): string | null {
+  const key = normalizeSize(text)
+  if (!key) return null
+  const profile = STOCK_PROFILES.find(
+    (p) =>
+      normalizeSize(p.id) === key ||
+      normalizeSize(p.name) === key ||
+      normalizeSize(shortNominalName(p.name)) === key
+  )
+  return profile?.id ?? null
+}
+
+function parseMaterialType(text: string): MaterialType | null {
+  const key = normalizeHeader(text)
+  if (SHEET_WORDS.includes(key)) return "sheet"
+  if (BOARD_WORDS.includes(key)) return "board"
+  return null
+}
+
+/** Length in inches; accepts what parseLength does plus a trailing " or in. */
+function parseInches(text: string): number {
+  return parseLength(text.trim().replace(/\s*("|”|in\.?|inches)$/i, ""))
+}
+
+/**
+ * Turn parsed rows into material groups: one board group per nominal size (matched against
+ * STOCK_PROFILES) and one sheet group per thickness. Rows are sheet parts when the material type
+ * says so, or when there is no material type column and the row has a width. Part names are kept
+ * on cuts and pieces; equal cuts and pieces with the same name are merged. Blank rows are
+ * skipped; every other row that cannot be imported is reported with its line number and reason.
+ */
+export function importCutList(
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: CutListImportOptions = {}
+): CutListImport {
+  const { hasHeader = true, defaultBoardSpecId } = options
+  const cutsBySpec = new Map<string, CutRequirement[]>()
+  const piecesByThickness = new Map<string, SheetPiece[]>()
+  const errors: CutListRowError[] = []
+  let importedRows = 0
+
+  rows.forEach((row, index) => {
+    if (hasHeader && index === 0) return
+    if (row.every((cell) => !cell.trim())) return
+    const cell = (field: CutListField) => {
+      const column = mapping[field]
+      return column === undefined ? "" : (row[column] ?? "").trim()
+    }
+    const name = cell("name")
+    const fail = (message: string) => {
+      errors.push({ line: index + 1, ...(name ? { name } : {}), message })
+    }
+
+    const lengthText = cell("length")
+    const length = parseInches(lengthText)
+    if (!isValidLength(length)) {
+      fail(lengthText ? `length "${lengthText}" is not a valid length` : "length is missing")
+      return
+    }
+    const quantityText = cell("quantity")
+    const quantity = quantityText ? Number(quantityText) : 1
+    if (!/^\d+$/.test(quantityText || "1") || !isValidQuantity(quantity)) {
+      fail(`quantity "${quantityText}" is not a positive whole number`)
+      return
+    }
+
+    const typeText = cell("materialType")
+    const widthText = cell("width")
+    let materialType: MaterialType
+    if (typeText) {
+      const parsed = parseMaterialType(typeText)
+      if (!parsed) {
+        fail(`material type "${typeText}" is not board or sheet`)
+        return
+      }
+      materialType = parsed
+    } else {
+      materialType = mapping.materialType === undefined && widthText ? "sheet" : "board"
+    }
+
+    const sizeText = cell("nominalSize")
+    if (materialType === "sheet") {
+      const width = parseInches(widthText)
+      if (!isValidLength(width)) {
+        fail(widthText ? `width "${widthText}" is not a valid length` : "width is missing for a sheet part")
+        return
+      }
+      const thickness = sizeText || DEFAULT_SHEET_THICKNESS
+      const pieces = piecesByThickness.get(thickness) ?? []
+      pieces.push({ width, height: length, quantity, ...(name && { name }) })
+      piecesByThickness.set(thickness, pieces)
+    } else {
+      const specId = sizeText ? matchBoardSpecId(sizeText) : (defaultBoardSpecId ?? null)
+      if (!specId) {
+        fail(sizeText ? `nominal size "${sizeText}" is not a known board size` : "nominal size is missing")
+        return
+      }
+      const cuts = cutsBySpec.get(specId) ?? []
+      cuts.push({ length, quantity, materialType: "board", ...(name && { name }) })
+      cutsBySpec.set(specId, cuts)
+    }
+    importedRows++
+  })
+
+  const boardGroups = STOCK_PROFILES.filter((p) => cutsBySpec.has(p.id)).map((p) => ({
+    ...createBoardGroup({ boardSpecId: p.id }),
+    cuts: mergeCuts(cutsBySpec.get(p.id) ?? []),
+  }))
+  const sheetGroups = [...piecesByThickness].map(([thickness, pieces]) => ({
+    ...createSheetGroup({ sheetThickness: thickness, label: `${thickness} plywood` }),
+    sheetPieces: mergeSheetPieces(pieces),
+  }))
+  return { groups: [...boardGroups, ...sheetGroups], importedRows, errors }
+}
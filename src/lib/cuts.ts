@@ -7,6 +7,8 @@ export interface CutRequirement {
   quantity: number
   /** Material kind; defaults to 'board' when omitted */
   materialType?: MaterialType
+  /** Part name (e.g. "Apron"), usually from an imported cut list. Cuts with different names are kept apart. */
+  name?: string
 }
 
 /** Normalize materialType to a concrete value (default 'board') */
@@ -19,25 +21,28 @@ export function normalizeMaterialType(
   }
 }
 
-/** Merge cuts by (length, materialType): sum quantities, sort by length descending */
+/** Merge cuts by (length, materialType, name): sum quantities, sort by length descending */
 export function mergeCuts(cuts: CutRequirement[]): CutRequirement[] {
-  const key = (length: number, materialType: MaterialType) =>
-    `${length}:${materialType}`
-  const byKey = new Map<string, { length: number; quantity: number; materialType: MaterialType }>()
+  const key = (length: number, materialType: MaterialType, name: string) =>
+    `${length}:${materialType}:${name}`
+  const byKey = new Map<string, CutRequirement & { materialType: MaterialType }>()
   for (const c of cuts) {
     if (!isValidLength(c.length) || !isValidQuantity(c.quantity)) continue
     const mt = c.materialType ?? DEFAULT_MATERIAL_TYPE
-    const k = key(c.length, mt)
+    const k = key(c.length, mt, c.name ?? "")
     const existing = byKey.get(k)
     if (existing) {
       existing.quantity += c.quantity
     } else {
-      byKey.set(k, { length: c.length, quantity: c.quantity, materialType: mt })
+      byKey.set(k, {
+        length: c.length,
+        quantity: c.quantity,
+        materialType: mt,
+        ...(c.name && { name: c.name }),
+      })
     }
   }
-  return [...byKey.values()]
-    .sort((a, b) => b.length - a.length)
-    .map(({ length, quantity, materialType }) => ({ length, quantity, materialType }))
+  return [...byKey.values()].sort((a, b) => b.length - a.length)
 }
 
 /** Return cuts for a single material type (e.g. for optimizer input). Defaults missing materialType to 'board'. */
@@ -0,0 +1,90 @@
+/** A group that could not be recovered and was left out of the import. */
+export interface SkippedGroup {
+  /** Position in the file's groups array (0-based). */
+  groupIndex: number
+  reason: string
+}
+
+/** Lists inside a group whose entries are validated one by one. */
+export type GroupItemList = "cuts" | "sheetPieces" | "customAllowedLengths"
+
+/** One entry dropped from a group that was otherwise imported. */
+export interface DroppedItem {
+  groupIndex: number
+  groupLabel: string
+  list: GroupItemList
+  /** Position in the list (0-based). */
+  itemIndex: number
+  reason: string
+}
+
+/** A group field that was missing or invalid and replaced by a default. */
+export interface DefaultedField {
+  groupIndex: number
+  groupLabel: string
+  /** Key as written in the file, so users can find it. */
+  field: string
+  /** Value found in the file; undefined when the field was missing. */
+  value: unknown
+  defaultValue: unknown
+}
+
+/** Everything the group parser left out or changed while reading a file. */
+export interface ImportReport {
+  skippedGroups: SkippedGroup[]
+  droppedItems: DroppedItem[]
+  defaultedFields: DefaultedField[]
+}
+
+export function createImportReport(): ImportReport {
+  return { skippedGroups: [], droppedItems: [], defaultedFields: [] }
+}
+
+export function hasImportIssues(report: ImportReport): boolean {
+  return (
+    report.skippedGroups.length > 0 ||
+    report.droppedItems.length > 0 ||
+    report.defaultedFields.length > 0
+  )
+}
+
+const ITEM_NAMES: Record<GroupItemList, string> = {
+  cuts: "cut",
+  sheetPieces: "sheet piece",
+  customAllowedLengths: "allowed length",
+}
+
+/** Short JSON rendering of a value from the file, for messages. */
+export function describeImportValue(value: unknown): string {
+  const json = JSON.stringify(value)
+  if (json === undefined) return String(value)
+  return json.length > 40 ? `${json.slice(0, 39)}…` : json
+}
+
+function groupName(groupIndex: number, groupLabel: string): string {
+  return groupLabel.trim() ? `"${groupLabel}"` : `Group ${groupIndex + 1}`
+}
+
+/** One human-readable line per issue, groups first, in file order. Item numbers are 1-based. */
+export function describeImportReport(report: ImportReport): string[] {
+  return [
+    ...report.skippedGroups.map(
+      (s) => `Group ${s.groupIndex + 1} skipped: ${s.reason}.`
+    ),
+    ...report.droppedItems.map(
+      (d) =>
+        `${groupName(d.groupIndex, d.groupLabel)}: ${ITEM_NAMES[d.list]} ${d.itemIndex + 1} dropped: ${d.reason}.`
+    ),
+    ...report.defaultedFields.map((f) => {
+      const found =
+        f.value === undefined
+          ? "is missing"
+          : `${describeImportValue(f.value)} is invalid`
+      const used =
+        f.defaultValue === null
+          ? "left unset"
+          : `used ${describeImportValue(f.defaultValue)}`
+      return `${groupName(f.groupIndex, f.groupLabel)}: ${f.field} ${found}; ${used}.`
+    }),
+  ]
+}
@@ -1,4 +1,5 @@
 import type { CutRequirement } from "./cuts"
+import type { OptimizationObjective } from "./optimizer"
 import {
   DEFAULT_MAX_BOARD_LENGTH_INCHES,
   STOCK_PROFILES,
@@ -8,11 +9,30 @@ import {
 /** Discriminator for material kinds. */
 export type MaterialType = "board" | "sheet"
 
+/**
+ * Grain constraint for a sheet piece. A sheet's face grain runs along its height (length).
+ * - "length": the piece's height runs along the sheet's length (with the grain)
+ * - "width": the piece's height runs along the sheet's width (across the grain)
+ * - "any": free to rotate
+ */
+export type SheetGrain = "length" | "width" | "any"
+
+/** Grain options for pickers, in display order. */
+export const SHEET_GRAIN_OPTIONS: { value: SheetGrain; label: string }[] = [
+  { value: "any", label: "Any (free to rotate)" },
+  { value: "length", label: "Along sheet length" },
+  { value: "width", label: "Along sheet width" },
+]
+
 /** One plywood/sheet piece: width × height, quantity. Dimensions in inches. */
 export interface SheetPiece {
   width: number
   height: number
   quantity: number
+  /** Grain constraint; defaults to "any" when omitted. */
+  grain?: SheetGrain
+  /** Part name (e.g. "Side panel"), usually from an imported cut list. Pieces with different names are kept apart. */
+  name?: string
 }
 
 /**
@@ -32,6 +52,12 @@ export interface MaterialGroup {
   maxLengthPreferenceInches: number
   /** Kerf override (inches). null = use the board spec's default kerf. */
   kerfOverrideInches: number | null
+  /** End trim override (inches, per end; 0 allowed). null = use the board spec's end trim. */
+  endTrimOverrideInches: number | null
+  /** Minimum reusable offcut override (inches; 0 allowed). null = use the board spec's minScrapLength. */
+  minScrapLengthOverrideInches: number | null
+  /** What new-board packing optimizes for in this group. null = use the project's goal. */
+  optimizationGoal: OptimizationObjective | null
   /** Extra stock lengths (inches) available beyond the board spec's standard allowedLengths. */
   customAllowedLengths: number[]
   /** Length-based cuts. Used only when materialType === "board". */
@@ -41,7 +67,7 @@ export interface MaterialGroup {
   /** Width × height pieces. Used only when materialType === "sheet". */
   sheetPieces: SheetPiece[]
   /** In-progress sheet piece row. Used only when materialType === "sheet". */
-  draftSheetPiece: { width: string; height: string; quantity: string } | null
+  draftSheetPiece: { width: string; height: string; quantity: string; grain?: SheetGrain } | null
   /** Sheet stock size (inches). Used only when materialType === "sheet". */
   sheetStockWidth: number
   sheetStockHeight: number
@@ -78,6 +104,9 @@ export function createBoardGroup(
       | "boardSpecId"
       | "maxLengthPreferenceInches"
       | "kerfOverrideInches"
+      | "endTrimOverrideInches"
+      | "minScrapLengthOverrideInches"
+      | "optimizationGoal"
       | "customAllowedLengths"
     >
   >
@@ -91,6 +120,9 @@ export function createBoardGroup(
     boardSpecId,
     maxLengthPreferenceInches: overrides?.maxLengthPreferenceInches ?? DEFAULT_MAX_BOARD_LENGTH_INCHES,
     kerfOverrideInches: overrides?.kerfOverrideInches ?? null,
+    endTrimOverrideInches: overrides?.endTrimOverrideInches ?? null,
+    minScrapLengthOverrideInches: overrides?.minScrapLengthOverrideInches ?? null,
+    optimizationGoal: overrides?.optimizationGoal ?? null,
     customAllowedLengths: overrides?.customAllowedLengths ?? [],
     cuts: [],
     draftCut: null,
@@ -121,6 +153,9 @@ export function createSheetGroup(
     boardSpecId: DEFAULT_BOARD_SPEC_ID,
     maxLengthPreferenceInches: DEFAULT_MAX_BOARD_LENGTH_INCHES,
     kerfOverrideInches: null,
+    endTrimOverrideInches: null,
+    minScrapLengthOverrideInches: null,
+    optimizationGoal: null,
     customAllowedLengths: [],
     cuts: [],
     draftCut: null,
@@ -132,17 +167,33 @@ export function createSheetGroup(
   }
 }
 
-/** Merge sheet pieces by (width, height): sum quantities, sort by area descending. */
+/** Grain of a piece with the "any" default applied. */
+export function getSheetGrain(piece: SheetPiece): SheetGrain {
+  return piece.grain ?? "any"
+}
+
+/**
+ * Merge sheet pieces by (width, height, grain, name): sum quantities, sort by area descending.
+ * grain is kept only when constrained and name only when set, so free unnamed pieces stay
+ * { width, height, quantity }.
+ */
 export function mergeSheetPieces(pieces: SheetPiece[]): SheetPiece[] {
   const byKey = new Map<string, SheetPiece>()
   for (const p of pieces) {
     if (p.width <= 0 || p.height <= 0 || p.quantity <= 0 || !Number.isInteger(p.quantity)) continue
-    const k = `${p.width}:${p.height}`
+    const grain = getSheetGrain(p)
+    const k = `${p.width}:${p.height}:${grain}:${p.name ?? ""}`
     const existing = byKey.get(k)
     if (existing) {
       existing.quantity += p.quantity
     } else {
-      byKey.set(k, { width: p.width, height: p.height, quantity: p.quantity })
+      byKey.set(k, {
+        width: p.width,
+        height: p.height,
+        quantity: p.quantity,
+        ...(grain !== "any" && { grain }),
+        ...(p.name && { name: p.name }),
+      })
     }
   }
   return [...byKey.values()].sort((a, b) => b.width * b.height - a.width * a.height)
@@ -0,0 +1,42 @@
+import { mergeScrapBoards, mergeScrapSheets, type ScrapEntry } from "./optimizer"
+import type { ProjectResult } from "./project-result"
+import { DEFAULT_MIN_SCRAP_LENGTH_INCHES, MIN_SHEET_SCRAP_SIDE_INCHES } from "./stock-profiles"
+
+/**
+ * Reusable offcuts a plan leaves behind, as scrap entries ready to merge into the inventory:
+ * board leftovers and rectangular sheet offcuts. Sizes are rounded down to whole inches so a
+ * stored piece is never smaller than recorded; pieces that fall below the reusable threshold
+ * after rounding are dropped. A board offcut still carries the board's far-end trim, which is
+ * counted in its length since reusing the piece trims both ends again. Offcuts from scrap count too: the consumed piece leaves them behind.
+ * Sheet offcuts keep their orientation on the sheet, so the grain still runs along the height.
+ */
+export function collectOffcuts(result: ProjectResult): ScrapEntry[] {
+  const boardOffcuts = result.diagrams.flatMap((diagram) => {
+    if (diagram.materialType !== "board" || !diagram.boardSpecId) return []
+    const nominalSizeId = diagram.boardSpecId
+    const minScrapLength = diagram.minScrapLengthInches ?? DEFAULT_MIN_SCRAP_LENGTH_INCHES
+    return diagram.boards.flatMap((board) => {
+      const reusable = Math.floor(board.scrapRemaining + 1e-6)
+      if (reusable <= 0 || reusable < minScrapLength) return []
+      // The far end's trim is still on the offcut; reuse trims it off again, so keep it here
+      const stockLength = Math.floor(board.scrapRemaining + board.endTrim + 1e-6)
+      return [{ nominalSizeId, stockLength, quantity: 1 }]
+    })
+  })
+  const sheetOffcuts = result.diagrams.flatMap((diagram) => {
+    if (diagram.materialType !== "sheet" || !diagram.sheetThickness?.trim()) return []
+    const thickness = diagram.sheetThickness
+    return (diagram.sheets ?? []).flatMap((sheet) =>
+      sheet.offcuts.flatMap((offcut) => {
+        const width = Math.floor(offcut.width + 1e-6)
+        const height = Math.floor(offcut.height + 1e-6)
+        if (Math.min(width, height) < MIN_SHEET_SCRAP_SIDE_INCHES) return []
+        return [{ width, height, thickness, quantity: 1 }]
+      })
+    )
+  })
+  return [
+    ...mergeScrapBoards(boardOffcuts).map((s) => ({ ...s, materialType: "board" as const })),
+    ...mergeScrapSheets(sheetOffcuts).map((s) => ({ ...s, materialType: "sheet" as const })),
+  ]
+}
@@ -0,0 +1,227 @@
+import { isValidLength, isValidQuantity, mergeCuts, parseLength, type CutRequirement } from "./cuts"
+import { matchBoardSpecId, type CutListImport, type CutListRowError } from "./csv-import"
+import {
+  createBoardGroup,
+  createSheetGroup,
+  getBoardGroupLabel,
+  mergeSheetPieces,
+  type MaterialGroup,
+  type SheetPiece,
+} from "./material-groups"
+import { STOCK_PROFILES, type BoardSpec } from "./stock-profiles"
+
+/** Columns read from an OpenCutList cut list export. */
+type OpenCutListField =
+  | "name"
+  | "count"
+  | "length"
+  | "width"
+  | "thickness"
+  | "material"
+  | "materialType"
+
+/**
+ * Header words for each column, compared lowercased with everything but letters removed. Cutting
+ * dimensions (with oversize allowances) are preferred over the part's bounding box.
+ */
+const OPEN_CUT_LIST_HEADERS: Record<OpenCutListField, string[]> = {
+  name: ["name", "partname"],
+  count: ["count", "quantity", "qty"],
+  length: ["cuttinglength", "length", "bboxlength"],
+  width: ["cuttingwidth", "width", "bboxwidth"],
+  thickness: ["cuttingthickness", "thickness", "bboxthickness"],
+  material: ["materialname", "material"],
+  materialType: ["materialtype"],
+}
+
+/** How a part's material is cut, from OpenCutList's material type. */
+type PartKind = "dimensional" | "solidWood" | "sheet"
+
+const PART_KINDS: Record<string, PartKind> = {
+  dimensional: "dimensional",
+  solidwood: "solidWood",
+  sheetgood: "sheet",
+  sheetgoods: "sheet",
+}
+
+/** Slack (inches) when comparing a part's section to a board's actual size. */
+const SIZE_TOLERANCE_INCHES = 1 / 32
+
+const INCHES_PER_UNIT: Record<string, number> = { mm: 1 / 25.4, cm: 10 / 25.4, m: 1000 / 25.4 }
+
+function headerKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z]/g, "")
+}
+
+function columnIndex(header: string[], field: OpenCutListField): number {
+  for (const word of OPEN_CUT_LIST_HEADERS[field]) {
+    const index = header.findIndex((h) => headerKey(h) === word)
+    if (index !== -1) return index
+  }
+  return -1
+}
+
+/** True when a header row looks like an OpenCutList export (material type plus part dimensions). */
+export function isOpenCutListExport(header: string[]): boolean {
+  const fields: OpenCutListField[] = ["materialType", "count", "length", "width", "thickness"]
+  return fields.every((field) => columnIndex(header, field) !== -1)
+}
+
+function parseInchText(text: string): number {
+  // Decimal comma, as in exports from models using a European locale
+  return parseLength(text.replace(/"$/, "").trim().replace(/^(\d+),(\d+)$/, "$1.$2"))
+}
+
+/**
+ * A length as SketchUp formats it, in inches: `23 5/8"`, `1' 11 5/8"`, `600 mm`, `60 cm`,
+ * `0.6 m`, or a bare number (inches). A leading "~" (rounded value) is ignored. NaN when the
+ * text is not a length.
+ */
+export function parseModelLength(text: string): number {
+  const s = text.trim().replace(/^~\s*/, "")
+  const metric = s.match(/^(\d+(?:[.,]\d+)?)\s*(mm|cm|m)$/i)
+  if (metric) return Number(metric[1].replace(",", ".")) * INCHES_PER_UNIT[metric[2].toLowerCase()]
+  const feet = s.match(/^(\d+(?:[.,]\d+)?)'\s*-?\s*(.*)$/)
+  if (feet) {
+    const inches = feet[2] ? parseInchText(feet[2]) : 0
+    return Number(feet[1].replace(",", ".")) * 12 + inches
+  }
+  return parseInchText(s)
+}
+
+function formatInches(value: number): string {
+  return `${Math.round(value * 100) / 100}"`
+}
+
+/**
+ * Board spec for a part section: the thinnest spec at least as thick as the part, then the
+ * narrowest at least as wide (ripped parts go to the next wider board). Dimensional parts only
+ * match specs with a fixed width; solid wood parts only match random-width (hardwood) specs.
+ */
+function matchBoardSpecBySize(kind: PartKind, thickness: number, width: number): BoardSpec | null {
+  const candidates = STOCK_PROFILES.filter(
+    (p) =>
+      p.actualThickness !== undefined &&
+      (kind === "solidWood" ? p.actualWidth === undefined : p.actualWidth !== undefined) &&
+      p.actualThickness >= thickness - SIZE_TOLERANCE_INCHES &&
+      (p.actualWidth === undefined || p.actualWidth >= width - SIZE_TOLERANCE_INCHES)
+  )
+  candidates.sort(
+    (a, b) =>
+      (a.actualThickness ?? 0) - (b.actualThickness ?? 0) ||
+      (a.actualWidth ?? 0) - (b.actualWidth ?? 0)
+  )
+  return candidates[0] ?? null
+}
+
+/**
+ * Turn an OpenCutList cut list export (parsed rows, header first) into material groups.
+ * Dimensional and solid wood parts become cuts in board groups, matched to STOCK_PROFILES by
+ * material name ("2x4") or else by thickness and width; sheet good parts become pieces in one
+ * sheet group per material and thickness. Part names are kept on cuts and pieces. Parts of other
+ * material types (edge banding, hardware, veneer) or that fit no board size are reported with
+ * their row number, as are rows with unreadable dimensions or counts.
+ */
+export function importOpenCutList(rows: string[][]): CutListImport {
+  const header = rows[0] ?? []
+  const column = Object.fromEntries(
+    (Object.keys(OPEN_CUT_LIST_HEADERS) as OpenCutListField[]).map((f) => [f, columnIndex(header, f)])
+  ) as Record<OpenCutListField, number>
+  const boards = new Map<string, { material: string; spec: BoardSpec; cuts: CutRequirement[] }>()
+  const sheets = new Map<string, { material: string; thickness: string; pieces: SheetPiece[] }>()
+  const errors: CutListRowError[] = []
+  let importedRows = 0
+
+  rows.slice(1).forEach((row, index) => {
+    if (row.every((cell) => !cell.trim())) return
+    const cell = (field: OpenCutListField) =>
+      column[field] === -1 ? "" : (row[column[field]] ?? "").trim()
+    const name = cell("name")
+    const fail = (message: string) => {
+      errors.push({ line: index + 2, ...(name ? { name } : {}), message })
+    }
+
+    const countText = cell("count")
+    const count = countText ? Number(countText) : 1
+    if (!/^\d+$/.test(countText || "1") || !isValidQuantity(count)) {
+      fail(`count "${countText}" is not a positive whole number`)
+      return
+    }
+    const dimensions: Record<"length" | "width" | "thickness", number> = {
+      length: 0,
+      width: 0,
+      thickness: 0,
+    }
+    for (const field of ["length", "width", "thickness"] as const) {
+      const text = cell(field)
+      dimensions[field] = parseModelLength(text)
+      if (!isValidLength(dimensions[field])) {
+        fail(text ? `${field} "${text}" is not a valid length` : `${field} is missing`)
+        return
+      }
+    }
+    const { length } = dimensions
+    const thickness = Math.min(dimensions.width, dimensions.thickness)
+    const width = Math.max(dimensions.width, dimensions.thickness)
+
+    const material = cell("material")
+    const typeText = cell("materialType")
+    const kind: PartKind | undefined = PART_KINDS[headerKey(typeText)]
+    const namedSpecId = kind === "sheet" ? null : matchBoardSpecId(material)
+    if (!kind && !namedSpecId) {
+      fail(
+        typeText
+          ? `material type "${typeText}" is not lumber or sheet goods`
+          : "material type is missing"
+      )
+      return
+    }
+
+    if (kind === "sheet") {
+      const thicknessText = cell("thickness").replace(/^~\s*/, "")
+      const key = `${material}\n${thicknessText}`
+      const group = sheets.get(key) ?? { material, thickness: thicknessText, pieces: [] }
+      group.pieces.push({ width, height: length, quantity: count, ...(name && { name }) })
+      sheets.set(key, group)
+    } else {
+      const spec =
+        STOCK_PROFILES.find((p) => p.id === namedSpecId) ??
+        matchBoardSpecBySize(kind ?? "dimensional", thickness, width)
+      if (!spec) {
+        fail(`${formatInches(thickness)} × ${formatInches(width)} does not fit any board size`)
+        return
+      }
+      const key = `${material}\n${spec.id}`
+      const group = boards.get(key) ?? { material, spec, cuts: [] }
+      group.cuts.push({ length, quantity: count, materialType: "board", ...(name && { name }) })
+      boards.set(key, group)
+    }
+    importedRows++
+  })
+
+  const groups: MaterialGroup[] = [
+    ...[...boards.values()].map(({ material, spec, cuts }) => {
+      // "Oak 4/4 boards"; a material named after the size alone keeps the default label
+      const label =
+        material && matchBoardSpecId(material) !== spec.id
+          ? `${material} ${getBoardGroupLabel(spec.id)}`
+          : null
+      return {
+        ...createBoardGroup({
+          boardSpecId: spec.id,
+          ...(label && { label, isLabelUserDefined: true }),
+        }),
+        cuts: mergeCuts(cuts),
+      }
+    }),
+    ...[...sheets.values()].map(({ material, thickness, pieces }) => ({
+      ...createSheetGroup({
+        label: `${thickness} ${material || "sheet"}`,
+        isLabelUserDefined: true,
+        sheetThickness: thickness,
+      }),
+      sheetPieces: mergeSheetPieces(pieces),
+    })),
+  ]
+  return { groups, importedRows, errors }
+}
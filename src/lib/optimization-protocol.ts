@@ -0,0 +1,44 @@
+import type { MaterialGroup } from "./material-groups"
+import {
+  generateProjectResult,
+  type GenerateProjectResultOptions,
+  type OptimizationProgress,
+  type ProjectResult,
+} from "./project-result"
+
+/** Options that can cross the worker boundary (no callbacks). */
+export type WorkerOptimizationOptions = Omit<GenerateProjectResultOptions, "onProgress">
+
+/** Main thread → worker. `id` ties every response to its run. */
+export interface OptimizationRequest {
+  type: "optimize"
+  id: number
+  groups: MaterialGroup[]
+  options: WorkerOptimizationOptions
+}
+
+/** Worker → main thread. A run posts zero or more "progress", then one "result" or "error". */
+export type OptimizationResponse =
+  | { type: "progress"; id: number; progress: OptimizationProgress }
+  | { type: "result"; id: number; result: ProjectResult }
+  | { type: "error"; id: number; message: string }
+
+/**
+ * Run one optimization request and post its responses. Shared by the worker entry point
+ * and tests; never throws.
+ */
+export function handleOptimizationRequest(
+  request: OptimizationRequest,
+  post: (response: OptimizationResponse) => void
+): void {
+  const { id, groups, options } = request
+  try {
+    const result = generateProjectResult(groups, {
+      ...options,
+      onProgress: (progress) => post({ type: "progress", id, progress }),
+    })
+    post({ type: "result", id, result })
+  } catch (err) {
+    post({ type: "error", id, message: err instanceof Error ? err.message : "Optimization failed." })
+  }
+}
@@ -0,0 +1,6 @@
+import { handleOptimizationRequest, type OptimizationRequest } from "./optimization-protocol"
+
+// Worker entry point: one request per worker, see runOptimization
+self.addEventListener("message", (event: MessageEvent<OptimizationRequest>) => {
+  handleOptimizationRequest(event.data, (response) => self.postMessage(response))
+})
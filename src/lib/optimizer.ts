@@ -1,4 +1,5 @@
-import type { BoardSpec, MaterialSpec } from "./stock-profiles"
+import { getSheetGrain, type SheetGrain, type SheetPiece } from "./material-groups"
+import { DEFAULT_MIN_SCRAP_LENGTH_INCHES, type BoardSpec, type SheetSpec } from "./stock-profiles"
 
 export interface RequiredCut {
   length: number
@@ -10,6 +11,12 @@ export interface ScrapBoard {
   nominalSizeId: string
   stockLength: number
   quantity: number
+  /** Where the boards are stored (rack, bin, shed…). Omitted when not recorded. */
+  location?: string
+  /** Label of an individually tracked piece. Tracked entries always have quantity 1. */
+  pieceId?: string
+  /** Date a tracked piece entered the inventory (YYYY-MM-DD), printed on its label. */
+  addedAt?: string
 }
 
 export interface ScrapSheet {
@@ -23,10 +30,14 @@ export type ScrapEntry =
   | ({ materialType: "board" } & ScrapBoard)
   | ({ materialType: "sheet" } & ScrapSheet)
 
-/** Merge board scrap by (nominalSizeId, stockLength), sum quantities, preserve first-seen order. */
+/**
+ * Merge board scrap by (nominalSizeId, stockLength, location, pieceId), sum quantities, preserve
+ * first-seen order. Locations are trimmed; a blank location is dropped. Tracked pieces have
+ * unique IDs, so they never merge with each other or with untracked boards.
+ */
 export function mergeScrapBoards(scrap: ScrapBoard[]): ScrapBoard[] {
   const byKey = new Map<string, ScrapBoard>()
-  for (const { nominalSizeId, stockLength, quantity } of scrap) {
+  for (const { nominalSizeId, stockLength, quantity, location, pieceId, addedAt } of scrap) {
     if (
       !nominalSizeId ||
       stockLength <= 0 ||
@@ -36,12 +47,20 @@ export function mergeScrapBoards(scrap: ScrapBoard[]): ScrapBoard[] {
     ) {
       continue
     }
-    const key = `${nominalSizeId}:${stockLength}`
+    const normalizedLocation = location?.trim() || undefined
+    const key = `${nominalSizeId}:${stockLength}:${normalizedLocation ?? ""}:${pieceId ?? ""}`
     const existing = byKey.get(key)
     if (existing) {
       existing.quantity += quantity
     } else {
-      byKey.set(key, { nominalSizeId, stockLength, quantity })
+      byKey.set(key, {
+        nominalSizeId,
+        stockLength,
+        quantity,
+        ...(normalizedLocation ? { location: normalizedLocation } : {}),
+        ...(pieceId ? { pieceId } : {}),
+        ...(pieceId && addedAt ? { addedAt } : {}),
+      })
     }
   }
   return [...byKey.values()]
@@ -79,7 +98,14 @@ export function mergeScrapEntries(scrap: ScrapEntry[]): ScrapEntry[] {
   const board = mergeScrapBoards(
     scrap
       .filter((s): s is Extract<ScrapEntry, { materialType: "board" }> => s.materialType === "board")
-      .map(({ nominalSizeId, stockLength, quantity }) => ({ nominalSizeId, stockLength, quantity }))
+      .map(({ nominalSizeId, stockLength, quantity, location, pieceId, addedAt }) => ({
+        nominalSizeId,
+        stockLength,
+        quantity,
+        location,
+        pieceId,
+        addedAt,
+      }))
   ).map((s) => ({ ...s, materialType: "board" as const }))
   const sheet = mergeScrapSheets(
     scrap
@@ -89,80 +115,196 @@ export function mergeScrapEntries(scrap: ScrapEntry[]): ScrapEntry[] {
   return [...board, ...sheet]
 }
 
-/** Minimum leftover length (inches) to count as reusable scrap; below this is waste. */
-export const MIN_SCRAP_LENGTH_INCHES = 12
-
 export interface OptimizedBoard {
   stockLength: number
   cuts: number[]
   remainingWaste: number
-  /** Reusable leftover (≥ MIN_SCRAP_LENGTH_INCHES). Material-aware. */
+  /** Reusable leftover (≥ the spec's minScrapLength). Material-aware. */
   scrapRemaining: number
-  /** Unusable leftover (below MIN_SCRAP_LENGTH_INCHES). Material-aware. */
+  /** Unusable leftover (below the spec's minScrapLength). Material-aware. */
   wasteRemaining: number
   /** Whether this board came from scrap or is new (to purchase). */
   source: "scrap" | "new"
+  /** Length trimmed off each end before the first cut (inches). Cuts start after it. */
+  endTrim: number
+  /** Where to pull this board from. Present only for scrap boards with a recorded location. */
+  scrapLocation?: string
+  /** Label of the tracked scrap piece to use. Present only for individually tracked scrap. */
+  scrapPieceId?: string
+}
+
+/** One piece placed on a sheet. Coordinates are from the sheet's top-left corner, in inches. */
+export interface SheetPlacement {
+  x: number
+  y: number
+  /** Placed size along the sheet's width (after rotation). */
+  width: number
+  /** Placed size along the sheet's height (after rotation). */
+  height: number
+  /** True when the piece was turned 90° from its entered width × height. */
+  rotated: boolean
+  /** The piece's grain constraint, carried through for diagrams. */
+  grain: SheetGrain
+}
+
+/** Rectangular leftover on a sheet after all pieces and kerfs are removed. */
+export interface SheetOffcut {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface OptimizedSheet {
+  sheetWidth: number
+  sheetHeight: number
+  placements: SheetPlacement[]
+  /** Leftover rectangles, largest first. Every one is reachable with guillotine cuts. */
+  offcuts: SheetOffcut[]
+  /** Sheet area not covered by pieces (square inches), including kerf. */
+  remainingArea: number
+  /** Whether this sheet came from scrap or is new (to purchase). */
+  source: "scrap" | "new"
 }
 
+/**
+ * Why a requested cut or piece is missing from the plan.
+ * "exceeds-stock": longer than every stock length (or too big for the sheet, given its grain).
+ * "invalid-length" / "invalid-quantity": the entry itself is unusable.
+ * "unknown-spec": the group's board spec does not exist, so nothing was optimized.
+ */
+export type UnplacedReason = "exceeds-stock" | "invalid-length" | "invalid-quantity" | "unknown-spec"
+
+/** A requested cut (board) or piece (sheet) the optimizer could not place, with how many. */
+export type UnplacedCut =
+  | { materialType: "board"; length: number; quantity: number; reason: UnplacedReason }
+  | { materialType: "sheet"; width: number; height: number; quantity: number; reason: UnplacedReason }
+
 export interface OptimizerInput {
   requiredCuts: RequiredCut[]
   allowedStockLengths: number[]
   kerfInches: number
 }
 
+/** Default node budget for the exact board search. Large enough for typical furniture cut lists. */
+export const DEFAULT_EXACT_SEARCH_MAX_NODES = 50_000
+
+export interface ExactSearchOptions {
+  /**
+   * Maximum branch-and-bound nodes to explore. A node budget (not a wall-clock limit) keeps
+   * results identical across machines. Default DEFAULT_EXACT_SEARCH_MAX_NODES.
+   */
+  maxNodes?: number
+}
+
+/**
+ * What the new-board phase minimizes.
+ * "boards": board count, then total stock length. "cost": purchase cost over every allowed
+ * length, then boards past the preferred max length, then board count.
+ * "scrap": board count and total stock length, then leftover concentrated into as few, as long
+ * reusable offcuts as possible.
+ */
+export type OptimizationObjective = "boards" | "cost" | "scrap"
+
+/** How hard to search for fewer boards: heuristic only, or the exact search with a node budget. */
+export type SearchEffort = "quick" | "standard" | "thorough"
+
+/** Search efforts in the order offered in the UI, with the exact search budget each one uses. */
+export const SEARCH_EFFORT_OPTIONS: {
+  id: SearchEffort
+  name: string
+  exactSearch: ExactSearchOptions | false
+}[] = [
+  { id: "quick", name: "Quick", exactSearch: false },
+  { id: "standard", name: "Standard", exactSearch: { maxNodes: DEFAULT_EXACT_SEARCH_MAX_NODES } },
+  { id: "thorough", name: "Thorough", exactSearch: { maxNodes: DEFAULT_EXACT_SEARCH_MAX_NODES * 10 } },
+]
+
+/** Objectives in the order offered in the UI. */
+export const OPTIMIZATION_OBJECTIVE_OPTIONS: { id: OptimizationObjective; name: string }[] = [
+  { id: "boards", name: "Fewest boards" },
+  { id: "cost", name: "Lowest cost" },
+  { id: "scrap", name: "Most reusable scrap" },
+]
+
 export interface OptimizeCutsOptions {
   /** Board scrap pile (already filtered/matched by board spec). Used first before new boards. */
   scrap?: ScrapBoard[]
+  /** Sheet scrap pile (already matched by thickness). Used first before new sheets. */
+  scrapSheets?: ScrapSheet[]
   /** Preferred max board length (inches). Prefer boards ≤ this; if a cut exceeds it, use smallest that fits. */
   preferredMaxLengthInches?: number
+  /** Run the exact new-board search on top of the heuristic. Omit for heuristic only. */
+  exactSearch?: ExactSearchOptions
+  /** Default "boards". "cost" uses stockPrices and falls back to "boards" when none are given. "scrap" also uses the spec's minScrapLength. */
+  objective?: OptimizationObjective
+  /** Price of one new board per stock length (inches → price) for this spec. */
+  stockPrices?: Record<number, number>
 }
 
 /**
  * Generic dispatcher: routes to the material-specific solver based on profile.materialType.
- * Extension point: add a case for "sheet" and implement optimizeSheetCuts() when needed.
+ * Boards take length-based cuts; sheets take width × height pieces.
  */
 export function optimizeCuts(
   requiredCuts: RequiredCut[],
-  profile: MaterialSpec,
+  profile: BoardSpec,
   options?: OptimizeCutsOptions
-): OptimizedBoard[] {
+): OptimizedBoard[]
+export function optimizeCuts(
+  requiredPieces: SheetPiece[],
+  profile: SheetSpec,
+  options?: OptimizeCutsOptions
+): OptimizedSheet[]
+export function optimizeCuts(
+  required: RequiredCut[] | SheetPiece[],
+  profile: BoardSpec | SheetSpec,
+  options?: OptimizeCutsOptions
+): OptimizedBoard[] | OptimizedSheet[] {
   switch (profile.materialType) {
     case "board":
-      return optimizeBoardCuts(requiredCuts, profile as BoardSpec, {
+      return optimizeBoardCuts(required as RequiredCut[], profile, {
         scrap: options?.scrap,
         preferredMaxLengthInches: options?.preferredMaxLengthInches,
+        exactSearch: options?.exactSearch,
+        objective: options?.objective,
+        stockPrices: options?.stockPrices,
       })
     case "sheet":
-      // Extension point: implement optimizeSheetCuts(requiredCuts, profile as SheetSpec, options)
-      return []
+      return optimizeSheetCuts(required as SheetPiece[], profile, { scrap: options?.scrapSheets })
     default:
       return []
   }
 }
 
 /** Classify remaining length into scrap (reusable) vs waste. Material-aware. */
-function classifyRemaining(remainingWaste: number): {
+function classifyRemaining(
+  remainingWaste: number,
+  minScrapLength: number
+): {
   scrapRemaining: number
   wasteRemaining: number
 } {
   const r = Math.max(0, Math.round(remainingWaste * 1e6) / 1e6)
-  if (r >= MIN_SCRAP_LENGTH_INCHES) {
+  if (r > 0 && r >= minScrapLength) {
     return { scrapRemaining: r, wasteRemaining: 0 }
   }
   return { scrapRemaining: 0, wasteRemaining: r }
 }
 
 function toOptimizedBoard(
-  board: { stockLength: number; cuts: number[] },
+  board: { stockLength: number; cuts: number[]; location?: string; pieceId?: string },
   source: "scrap" | "new",
-  kerfInches: number
+  kerfInches: number,
+  endTrim: number,
+  minScrapLength: number
 ): OptimizedBoard {
   const used =
     board.cuts.length === 0
       ? 0
       : board.cuts.reduce((s, c) => s + c, 0) + (board.cuts.length - 1) * kerfInches
-  const remainingWaste = Math.max(0, board.stockLength - used)
-  const { scrapRemaining, wasteRemaining } = classifyRemaining(remainingWaste)
+  const remainingWaste = Math.max(0, board.stockLength - 2 * endTrim - used)
+  const { scrapRemaining, wasteRemaining } = classifyRemaining(remainingWaste, minScrapLength)
   return {
     stockLength: board.stockLength,
     cuts: [...board.cuts],
@@ -170,6 +312,9 @@ function toOptimizedBoard(
     scrapRemaining,
     wasteRemaining,
     source,
+    endTrim,
+    ...(board.location ? { scrapLocation: board.location } : {}),
+    ...(board.pieceId ? { scrapPieceId: board.pieceId } : {}),
   }
 }
 
@@ -177,12 +322,12 @@ function toOptimizedBoard(
  * Place cuts onto a fixed pool of boards (e.g. scrap). Does not create new boards.
  * Returns placed boards and list of cut lengths that did not fit.
  */
-function placeCutsOntoBoards(
+function placeCutsOntoBoards<T extends { stockLength: number; cuts: number[] }>(
   sortedCuts: number[],
-  boardPool: { stockLength: number; cuts: number[] }[],
+  boardPool: T[],
   kerfInches: number
-): { boards: { stockLength: number; cuts: number[] }[]; unassigned: number[] } {
-  const boards = boardPool.map((b) => ({ stockLength: b.stockLength, cuts: [...b.cuts] }))
+): { boards: T[]; unassigned: number[] } {
+  const boards = boardPool.map((b) => ({ ...b, cuts: [...b.cuts] }))
   const unassigned: number[] = []
 
   function usedLength(cuts: number[]): number {
@@ -222,19 +367,21 @@ function placeCutsOntoBoards(
 /**
  * Place cuts onto new boards from allowedLengths using best-fit-decreasing.
  * Prefers boards ≤ preferredMaxLengthInches; falls back to smallest that fits.
- * Cuts that exceed all allowed lengths are silently skipped.
+ * firstChoiceLength, when given, is opened ahead of every other length it fits.
+ * Cuts that exceed all allowed lengths are skipped; findUnplacedBoardCuts reports them.
  */
 function placeCutsOntoNewBoards(
   orderedCuts: number[],
   allowedLengths: number[],
   kerfInches: number,
-  preferredMaxLengthInches?: number
+  preferredMaxLengthInches?: number,
+  firstChoiceLength?: number
 ): { stockLength: number; cuts: number[] }[] {
   if (allowedLengths.length === 0 || orderedCuts.length === 0) return []
   const preferred = preferredMaxLengthInches ?? Infinity
   const sortedStock = [...allowedLengths].sort((a, b) => {
-    const aPrefer = a <= preferred ? 0 : 1
-    const bPrefer = b <= preferred ? 0 : 1
+    const aPrefer = a === firstChoiceLength ? -1 : a <= preferred ? 0 : 1
+    const bPrefer = b === firstChoiceLength ? -1 : b <= preferred ? 0 : 1
     if (aPrefer !== bPrefer) return aPrefer - bPrefer
     return a - b
   })
@@ -274,7 +421,7 @@ function placeCutsOntoNewBoards(
       continue
     }
     const stockLength = shortestStockThatFits(cut)
-    if (stockLength === null) continue // cut exceeds all stock lengths
+    if (stockLength === null) continue // cut exceeds all stock lengths; reported by findUnplacedBoardCuts
     boards.push({ stockLength, cuts: [cut] })
   }
   return boards
@@ -303,47 +450,299 @@ export function candidateOrderings(cuts: number[]): number[][] {
   return [desc, asc, interleaved]
 }
 
-/** Compare two new-board results: prefer fewer boards, then less total stock consumed. */
+/** Price of one new board by stock length. Present only for the "cost" objective. */
+type StockPriceFn = (stockLength: number) => number
+
+/** Leftover settings for the "scrap" objective. Present only for that objective. */
+interface ScrapGoal {
+  minScrapLength: number
+  kerfInches: number
+}
+
+/**
+ * Resolve the price function for the "cost" objective. Lengths missing from stockPrices are
+ * estimated at the average per-inch price of the priced lengths. Returns undefined (board-count
+ * objective) when the objective is "boards" or nothing is priced.
+ */
+function resolveStockPriceFn(
+  objective: OptimizationObjective | undefined,
+  stockPrices: Record<number, number> | undefined
+): StockPriceFn | undefined {
+  if (objective !== "cost" || !stockPrices) return undefined
+  const priced = Object.entries(stockPrices)
+    .map(([length, price]) => ({ length: Number(length), price }))
+    .filter(({ length, price }) => length > 0 && Number.isFinite(price) && price >= 0)
+  if (priced.length === 0) return undefined
+  const perInch = priced.reduce((s, p) => s + p.price / p.length, 0) / priced.length
+  const byLength = new Map(priced.map((p) => [p.length, p.price]))
+  return (stockLength) => byLength.get(stockLength) ?? stockLength * perInch
+}
+
+/**
+ * Score of a new-board result, compared lexicographically (lower is better):
+ * [board count, total length], or [cost, boards over the preferred max length, board count,
+ * total length] with a price function. scoreOf appends leftoverScore for the "scrap" objective.
+ */
+function newBoardScore(
+  count: number,
+  totalLength: number,
+  cost: number,
+  priceOf?: StockPriceFn,
+  overPreferred = 0
+): number[] {
+  return priceOf ? [cost, overPreferred, count, totalLength] : [count, totalLength]
+}
+
+/**
+ * [−reusable leftover, −sum of squared leftovers]: more length in offcuts of at least
+ * minScrapLength first, then leftover gathered into fewer, longer pieces.
+ */
+function leftoverScore(boards: { stockLength: number; cuts: number[] }[], goal: ScrapGoal): number[] {
+  let reusable = 0
+  let concentration = 0
+  for (const board of boards) {
+    const used = board.cuts.reduce((s, c) => s + c, 0) + Math.max(0, board.cuts.length - 1) * goal.kerfInches
+    const leftover = Math.max(0, roundInches(board.stockLength - used))
+    if (leftover > 0 && leftover >= goal.minScrapLength) reusable += leftover
+    concentration += leftover * leftover
+  }
+  return [-reusable, -concentration]
+}
+
+/** Lexicographic a < b. Costs are sums of decimals, so near-equal values tie. */
+function isScoreLower(a: number[], b: number[]): boolean {
+  for (let i = 0; i < a.length; i++) {
+    if (Math.abs(a[i] - b[i]) > 1e-9) return a[i] < b[i]
+  }
+  return false
+}
+
+function scoreOf(
+  boards: { stockLength: number; cuts: number[] }[],
+  priceOf?: StockPriceFn,
+  scrapGoal?: ScrapGoal,
+  preferredMax = Infinity
+): number[] {
+  const totalLength = boards.reduce((s, board) => s + board.stockLength, 0)
+  const cost = priceOf ? boards.reduce((s, board) => s + priceOf(board.stockLength), 0) : 0
+  const overPreferred = boards.filter((board) => board.stockLength > preferredMax).length
+  const score = newBoardScore(boards.length, totalLength, cost, priceOf, overPreferred)
+  return scrapGoal ? [...score, ...leftoverScore(boards, scrapGoal)] : score
+}
+
+/**
+ * Compare two new-board results: prefer fewer boards, then less total stock consumed.
+ * With a price function, prefer the cheaper purchase first, then fewer boards over the preferred
+ * max length; with a scrap goal, break ties by longer reusable offcuts.
+ */
 function isNewBoardResultBetter(
   a: { stockLength: number; cuts: number[] }[],
-  b: { stockLength: number; cuts: number[] }[]
+  b: { stockLength: number; cuts: number[] }[],
+  priceOf?: StockPriceFn,
+  scrapGoal?: ScrapGoal,
+  preferredMax = Infinity
 ): boolean {
-  if (a.length !== b.length) return a.length < b.length
-  const totalA = a.reduce((s, board) => s + board.stockLength, 0)
-  const totalB = b.reduce((s, board) => s + board.stockLength, 0)
-  return totalA < totalB
+  return isScoreLower(
+    scoreOf(a, priceOf, scrapGoal, preferredMax),
+    scoreOf(b, priceOf, scrapGoal, preferredMax)
+  )
 }
 
 /**
  * Run multiple packing strategies on unassigned cuts and return the best result.
+ * With a price function, every allowed length is also tried as the first-choice stock, so a
+ * cheaper long board can replace several short ones even past the preferred max length, which
+ * then only breaks ties in cost.
  */
 function bestNewBoardResult(
   unassigned: number[],
   allowedLengths: number[],
   kerfInches: number,
-  preferredMaxLengthInches?: number
+  preferredMaxLengthInches?: number,
+  priceOf?: StockPriceFn,
+  scrapGoal?: ScrapGoal
 ): { stockLength: number; cuts: number[] }[] {
   if (unassigned.length === 0) return []
+  const preferred = preferredMaxLengthInches ?? Infinity
+  const firstChoices: (number | undefined)[] = priceOf ? [undefined, ...allowedLengths] : [undefined]
   let best: { stockLength: number; cuts: number[] }[] | null = null
-  for (const ordering of candidateOrderings(unassigned)) {
-    const result = placeCutsOntoNewBoards(ordering, allowedLengths, kerfInches, preferredMaxLengthInches)
-    if (!best || isNewBoardResultBetter(result, best)) {
-      best = result
+  for (const firstChoice of firstChoices) {
+    for (const ordering of candidateOrderings(unassigned)) {
+      const result = placeCutsOntoNewBoards(
+        ordering,
+        allowedLengths,
+        kerfInches,
+        preferredMaxLengthInches,
+        firstChoice
+      )
+      if (!best || isNewBoardResultBetter(result, best, priceOf, scrapGoal, preferred)) {
+        best = result
+      }
     }
   }
   return best ?? []
 }
 
+/**
+ * Stock lengths a new board may use when its longest cut is `cut`: every preferred length
+ * that fits, or else the single shortest length that fits (same rule as the heuristic).
+ */
+function candidateStockLengths(
+  cut: number,
+  ascendingLengths: number[],
+  preferredMaxLengthInches: number
+): number[] {
+  const fitting = ascendingLengths.filter((l) => l >= cut)
+  const preferred = fitting.filter((l) => l <= preferredMaxLengthInches)
+  return preferred.length > 0 ? preferred : fitting.slice(0, 1)
+}
+
+/**
+ * Branch-and-bound search for the new-board phase. Minimizes board count, then total stock
+ * length (or cost first, with a price function) — the same order as isNewBoardResultBetter —
+ * starting from the heuristic's result as the incumbent. Cuts are assigned longest first to an open board (tightest fit first) or to a
+ * new board of each candidate length. Boards in identical states are tried once.
+ *
+ * Returns the best layout found. When the node budget runs out before the search finishes,
+ * that is the heuristic layout unless the search already improved on it. With a price function
+ * every length is a candidate for a new board, not just the preferred ones.
+ */
+function exactNewBoardResult(
+  unassigned: number[],
+  allowedLengths: number[],
+  kerfInches: number,
+  incumbent: { stockLength: number; cuts: number[] }[],
+  maxNodes: number,
+  preferredMaxLengthInches?: number,
+  priceOf?: StockPriceFn,
+  scrapGoal?: ScrapGoal
+): { stockLength: number; cuts: number[] }[] {
+  const preferred = preferredMaxLengthInches ?? Infinity
+  // The cost objective may buy past the preferred max length when that is cheaper
+  const candidateMax = priceOf ? Infinity : preferred
+  const ascendingLengths = [...allowedLengths].sort((a, b) => a - b)
+  const longestStock = ascendingLengths[ascendingLengths.length - 1]
+  const shortestStock = ascendingLengths[0]
+  // Cuts longer than every stock length are dropped, matching the heuristic
+  const items = unassigned.filter((c) => c <= longestStock).sort((a, b) => b - a)
+  if (items.length === 0) return incumbent
+
+  // With kerf added to every cut and to every board, packing is plain bin packing
+  const capacity = longestStock + kerfInches
+  const remainingDemand: number[] = new Array(items.length + 1).fill(0)
+  for (let i = items.length - 1; i >= 0; i--) {
+    remainingDemand[i] = remainingDemand[i + 1] + items[i] + kerfInches
+  }
+
+  const cheapestBoard = priceOf ? Math.min(...ascendingLengths.map(priceOf)) : 0
+  let best = incumbent
+  let bestScore = scoreOf(incumbent, priceOf, scrapGoal, preferred)
+  let nodes = 0
+
+  const boards: { stockLength: number; cuts: number[]; used: number }[] = []
+  let currentTotal = 0
+  let currentCost = 0
+  let currentOverPreferred = 0
+
+  function fits(board: { stockLength: number; cuts: number[]; used: number }, cut: number): boolean {
+    const needKerf = board.cuts.length > 0 ? kerfInches : 0
+    return board.stockLength - board.used >= cut + needKerf
+  }
+
+  function search(i: number): void {
+    if (nodes >= maxNodes) return
+    nodes += 1
+
+    if (i === items.length) {
+      const score = scrapGoal
+        ? scoreOf(boards, priceOf, scrapGoal, preferred)
+        : newBoardScore(boards.length, currentTotal, currentCost, priceOf, currentOverPreferred)
+      if (isScoreLower(score, bestScore)) {
+        best = boards.map((b) => ({ stockLength: b.stockLength, cuts: [...b.cuts] }))
+        bestScore = score
+      }
+      return
+    }
+
+    // Lower bound: demand that open boards cannot absorb needs at least this many more boards
+    let openSpace = 0
+    for (const b of boards) {
+      openSpace += b.stockLength - b.used
+    }
+    const extraBoards = Math.max(0, Math.ceil((remainingDemand[i] - openSpace) / capacity - 1e-9))
+    const bound = newBoardScore(
+      boards.length + extraBoards,
+      currentTotal + extraBoards * shortestStock,
+      currentCost + extraBoards * cheapestBoard,
+      priceOf,
+      currentOverPreferred
+    )
+    // Leftover terms have no useful bound; only count and length prune
+    if (scrapGoal) bound.push(-Infinity, -Infinity)
+    if (!isScoreLower(bound, bestScore)) return
+
+    const cut = items[i]
+
+    // Existing boards, tightest fit first; skip boards whose state matches one already tried
+    const order = boards
+      .map((board, index) => ({ board, index }))
+      .filter(({ board }) => fits(board, cut))
+      .sort((a, b) => (a.board.stockLength - a.board.used) - (b.board.stockLength - b.board.used) || a.index - b.index)
+    const tried = new Set<string>()
+    for (const { board } of order) {
+      const key = `${board.stockLength}:${board.used}`
+      if (tried.has(key)) continue
+      tried.add(key)
+      const prevUsed = board.used
+      board.used += board.cuts.length > 0 ? cut + kerfInches : cut
+      board.cuts.push(cut)
+      search(i + 1)
+      board.cuts.pop()
+      board.used = prevUsed
+    }
+
+    // New board of each candidate length
+    for (const stockLength of candidateStockLengths(cut, ascendingLengths, candidateMax)) {
+      const price = priceOf ? priceOf(stockLength) : 0
+      const over = stockLength > preferred ? 1 : 0
+      boards.push({ stockLength, cuts: [cut], used: cut })
+      currentTotal += stockLength
+      currentCost += price
+      currentOverPreferred += over
+      search(i + 1)
+      currentOverPreferred -= over
+      currentCost -= price
+      currentTotal -= stockLength
+      boards.pop()
+    }
+  }
+
+  search(0)
+  return best
+}
+
 /**
  * 1D cutting stock optimizer for board material.
  * Scrap-first: places cuts onto scrap boards first, then new boards from allowedLengths.
+ * spec.endTrim is removed from both ends of every board (scrap and new) before packing.
+ * Leftovers of at least spec.minScrapLength are reported as scrap, shorter ones as waste.
  * Minimizes number of boards; prefers shorter stock when tie-breaking.
+ * With objective "cost" and stockPrices, minimizes the purchase cost of new boards instead,
+ * over every allowed length; preferredMaxLengthInches then only breaks ties.
+ * With objective "scrap", ties in count and length go to layouts with longer reusable offcuts.
+ * With options.exactSearch, a budgeted branch-and-bound search refines the new-board phase.
  * Deterministic: same input always yields same output.
  */
 export function optimizeBoardCuts(
   requiredCuts: RequiredCut[],
   spec: BoardSpec,
-  options?: { scrap?: ScrapBoard[]; preferredMaxLengthInches?: number }
+  options?: {
+    scrap?: ScrapBoard[]
+    preferredMaxLengthInches?: number
+    exactSearch?: ExactSearchOptions
+    objective?: OptimizationObjective
+    stockPrices?: Record<number, number>
+  }
 ): OptimizedBoard[] {
   const { allowedLengths, kerf } = spec
   const kerfInches = kerf
@@ -364,13 +763,44 @@ export function optimizeBoardCuts(
   const sortedCuts = [...cutsList].sort((a, b) => b - a)
   const result: OptimizedBoard[] = []
 
+  // Pack against usable lengths (stock minus both end trims), then map back to stock lengths
+  const endTrim = spec.endTrim !== undefined && spec.endTrim > 0 ? spec.endTrim : 0
+  const minScrapLength =
+    spec.minScrapLength !== undefined && spec.minScrapLength >= 0
+      ? spec.minScrapLength
+      : DEFAULT_MIN_SCRAP_LENGTH_INCHES
+  const stockByUsable = new Map<number, number>()
+  const toUsable = (stockLength: number): number => {
+    const usable = roundInches(stockLength - 2 * endTrim)
+    stockByUsable.set(usable, stockLength)
+    return usable
+  }
+  const toResult = (
+    board: { stockLength: number; cuts: number[]; location?: string; pieceId?: string },
+    source: "scrap" | "new"
+  ) =>
+    toOptimizedBoard(
+      { ...board, stockLength: stockByUsable.get(board.stockLength) ?? board.stockLength },
+      source,
+      kerfInches,
+      endTrim,
+      minScrapLength
+    )
+
   // Phase 1: place onto scrap (boards only)
   const scrap = options?.scrap ?? []
-  const scrapPool: { stockLength: number; cuts: number[] }[] = []
-  for (const { stockLength, quantity } of scrap) {
+  const scrapPool: { stockLength: number; cuts: number[]; location?: string; pieceId?: string }[] = []
+  for (const { stockLength, quantity, location, pieceId } of scrap) {
     if (stockLength <= 0 || quantity <= 0 || !Number.isFinite(stockLength) || !Number.isInteger(quantity)) continue
+    const usable = toUsable(stockLength)
+    if (usable <= 0) continue
     for (let i = 0; i < quantity; i++) {
-      scrapPool.push({ stockLength, cuts: [] })
+      scrapPool.push({
+        stockLength: usable,
+        cuts: [],
+        location: location?.trim() || undefined,
+        pieceId: pieceId || undefined,
+      })
     }
   }
   const { boards: scrapBoardsUsed, unassigned } = placeCutsOntoBoards(
@@ -379,23 +809,389 @@ export function optimizeBoardCuts(
     kerfInches
   )
   for (const board of scrapBoardsUsed) {
-    result.push(toOptimizedBoard(board, "scrap", kerfInches))
+    result.push(toResult(board, "scrap"))
   }
 
   // Phase 2: remaining cuts onto new boards — try multiple orderings, keep best
-  const newBoards = bestNewBoardResult(
+  const usableLengths = allowedLengths.map(toUsable).filter((l) => l > 0)
+  const preferredUsable =
+    options?.preferredMaxLengthInches !== undefined
+      ? options.preferredMaxLengthInches - 2 * endTrim
+      : undefined
+  const usablePrices = options?.stockPrices
+    ? Object.fromEntries(
+        Object.entries(options.stockPrices).map(([length, price]) => [toUsable(Number(length)), price])
+      )
+    : undefined
+  const priceOf = resolveStockPriceFn(options?.objective, usablePrices)
+  const scrapGoal = options?.objective === "scrap" ? { minScrapLength, kerfInches } : undefined
+  const heuristicBoards = bestNewBoardResult(
     unassigned,
-    allowedLengths,
+    usableLengths,
     kerfInches,
-    options?.preferredMaxLengthInches
+    preferredUsable,
+    priceOf,
+    scrapGoal
   )
+  const newBoards = options?.exactSearch
+    ? exactNewBoardResult(
+        unassigned,
+        usableLengths,
+        kerfInches,
+        heuristicBoards,
+        options.exactSearch.maxNodes ?? DEFAULT_EXACT_SEARCH_MAX_NODES,
+        preferredUsable,
+        priceOf,
+        scrapGoal
+      )
+    : heuristicBoards
   for (const board of newBoards) {
-    result.push(toOptimizedBoard(board, "new", kerfInches))
+    result.push(toResult(board, "new"))
   }
 
   return result
 }
 
+// ── Sheet (2D) solver ────────────────────────────────────────────────────────
+
+interface FreeRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface SheetInProgress {
+  width: number
+  height: number
+  source: "scrap" | "new"
+  free: FreeRect[]
+  placements: SheetPlacement[]
+}
+
+interface PieceInstance {
+  width: number
+  height: number
+  grain: SheetGrain
+}
+
+/** Round to 1e-6 so repeated kerf subtraction doesn't leave float dust. */
+function roundInches(value: number): number {
+  return Math.round(value * 1e6) / 1e6
+}
+
+/**
+ * Orientations a piece may be placed in. The sheet's grain runs along its height (y), so
+ * "length" pieces stay as entered, "width" pieces are always turned, "any" may go either way.
+ */
+function allowedOrientations(piece: PieceInstance): { w: number; h: number; rotated: boolean }[] {
+  const upright = { w: piece.width, h: piece.height, rotated: false }
+  const turned = { w: piece.height, h: piece.width, rotated: true }
+  switch (piece.grain) {
+    case "length":
+      return [upright]
+    case "width":
+      return [turned]
+    default:
+      return piece.width === piece.height ? [upright] : [upright, turned]
+  }
+}
+
+/**
+ * Find the best free rectangle for a piece on one sheet (best short side fit).
+ * Tries every orientation the grain allows. Lower score is better; ties keep the first candidate.
+ */
+function findSheetPosition(
+  sheet: SheetInProgress,
+  piece: PieceInstance
+): { freeIndex: number; rotated: boolean; score: number } | null {
+  let best: { freeIndex: number; rotated: boolean; score: number } | null = null
+  const orientations = allowedOrientations(piece)
+  sheet.free.forEach((rect, freeIndex) => {
+    for (const { w, h, rotated } of orientations) {
+      if (w > rect.width || h > rect.height) continue
+      const score = Math.min(rect.width - w, rect.height - h)
+      if (!best || score < best.score) {
+        best = { freeIndex, rotated, score }
+      }
+    }
+  })
+  return best
+}
+
+/**
+ * Place a piece in the top-left corner of a free rectangle and split the rest with one
+ * guillotine cut. The kerf is taken from the cut side; a piece flush with the edge of
+ * the free rectangle needs no kerf on that side. The split keeps the larger leftover whole.
+ */
+function placeOnSheet(
+  sheet: SheetInProgress,
+  freeIndex: number,
+  piece: PieceInstance,
+  rotated: boolean,
+  kerfInches: number
+): void {
+  const width = rotated ? piece.height : piece.width
+  const height = rotated ? piece.width : piece.height
+  const [rect] = sheet.free.splice(freeIndex, 1)
+  sheet.placements.push({ x: rect.x, y: rect.y, width, height, rotated, grain: piece.grain })
+
+  const usedWidth = Math.min(rect.width, width + kerfInches)
+  const usedHeight = Math.min(rect.height, height + kerfInches)
+  const rightWidth = roundInches(rect.width - usedWidth)
+  const bottomHeight = roundInches(rect.height - usedHeight)
+
+  // Vertical split: right strip runs the full height. Horizontal: bottom strip runs the full width.
+  const splitVertically = rightWidth * rect.height >= rect.width * bottomHeight
+  const right: FreeRect = {
+    x: roundInches(rect.x + usedWidth),
+    y: rect.y,
+    width: rightWidth,
+    height: splitVertically ? rect.height : usedHeight,
+  }
+  const bottom: FreeRect = {
+    x: rect.x,
+    y: roundInches(rect.y + usedHeight),
+    width: splitVertically ? usedWidth : rect.width,
+    height: bottomHeight,
+  }
+  for (const next of [right, bottom]) {
+    if (next.width > 0 && next.height > 0) sheet.free.push(next)
+  }
+}
+
+function openSheet(width: number, height: number, source: "scrap" | "new"): SheetInProgress {
+  return { width, height, source, free: [{ x: 0, y: 0, width, height }], placements: [] }
+}
+
+/**
+ * Place pieces (in the given order) onto as many sheets as needed.
+ * Scrap sheets start out open, so pieces land on them first. Each piece goes to the
+ * best-fitting free rectangle across all open sheets; a new sheet is opened only when no
+ * open sheet can take it. Pieces larger than the sheet are skipped.
+ * Returns only the sheets that received pieces, scrap sheets first.
+ */
+function placePiecesOntoSheets(
+  orderedPieces: PieceInstance[],
+  sheetWidth: number,
+  sheetHeight: number,
+  kerfInches: number,
+  scrapSheets: { width: number; height: number }[] = []
+): SheetInProgress[] {
+  const sheets = scrapSheets.map((s) => openSheet(s.width, s.height, "scrap"))
+  const blank = openSheet(sheetWidth, sheetHeight, "new")
+
+  for (const piece of orderedPieces) {
+    let target: { sheet: SheetInProgress; freeIndex: number; rotated: boolean } | null = null
+    let bestScore = Infinity
+    for (const sheet of sheets) {
+      const position = findSheetPosition(sheet, piece)
+      if (position && position.score < bestScore) {
+        bestScore = position.score
+        target = { sheet, ...position }
+      }
+    }
+    if (!target) {
+      const position = findSheetPosition(blank, piece)
+      if (!position) continue // does not fit the sheet in any allowed orientation; see findUnplacedSheetPieces
+      const sheet = openSheet(sheetWidth, sheetHeight, "new")
+      sheets.push(sheet)
+      target = { sheet, ...position }
+    }
+    placeOnSheet(target.sheet, target.freeIndex, piece, target.rotated, kerfInches)
+  }
+  return sheets.filter((sheet) => sheet.placements.length > 0)
+}
+
+/**
+ * @internal exported for testing
+ * Orderings tried by the sheet solver: area, longest side, width and height, each descending.
+ * Ties fall back to the remaining dimensions so the order is fully deterministic.
+ */
+export function sheetPieceOrderings<T extends { width: number; height: number }>(pieces: T[]): T[][] {
+  const byDims = (a: T, b: T) => b.width - a.width || b.height - a.height
+  const area = (p: T) => p.width * p.height
+  const longest = (p: T) => Math.max(p.width, p.height)
+  return [
+    [...pieces].sort((a, b) => area(b) - area(a) || byDims(a, b)),
+    [...pieces].sort((a, b) => longest(b) - longest(a) || area(b) - area(a) || byDims(a, b)),
+    [...pieces].sort(byDims),
+    [...pieces].sort((a, b) => b.height - a.height || b.width - a.width),
+  ]
+}
+
+function largestFreeArea(sheets: SheetInProgress[]): number {
+  let largest = 0
+  for (const sheet of sheets) {
+    for (const rect of sheet.free) largest = Math.max(largest, rect.width * rect.height)
+  }
+  return largest
+}
+
+function countNewSheets(sheets: SheetInProgress[]): number {
+  return sheets.filter((sheet) => sheet.source === "new").length
+}
+
+/**
+ * Compare two sheet layouts: prefer fewer new sheets, then fewer sheets overall (scrap kept
+ * whole), then one larger (more reusable) offcut.
+ */
+function isSheetResultBetter(a: SheetInProgress[], b: SheetInProgress[]): boolean {
+  const newA = countNewSheets(a)
+  const newB = countNewSheets(b)
+  if (newA !== newB) return newA < newB
+  if (a.length !== b.length) return a.length < b.length
+  return largestFreeArea(a) > largestFreeArea(b)
+}
+
+/**
+ * 2D guillotine-cut optimizer for sheet material (plywood, MDF).
+ * Every layout can be cut with edge-to-edge table saw or track saw cuts.
+ * Pieces may be rotated 90° unless their grain constraint forbids it (sheet grain runs along
+ * the sheet height, for scrap sheets too). Tries several piece orderings and keeps the best layout.
+ * Scrap sheets in options.scrap (already matched by thickness) are filled before new sheets.
+ * Pieces that do not fit on a stock or scrap sheet in any allowed orientation are skipped.
+ * Deterministic: same input always yields same output.
+ */
+export function optimizeSheetCuts(
+  requiredPieces: SheetPiece[],
+  spec: SheetSpec,
+  options?: { scrap?: ScrapSheet[] }
+): OptimizedSheet[] {
+  const { sheetWidth, sheetHeight, kerf } = spec
+  if (
+    !(sheetWidth > 0) ||
+    !(sheetHeight > 0) ||
+    !Number.isFinite(sheetWidth) ||
+    !Number.isFinite(sheetHeight) ||
+    kerf < 0
+  ) {
+    return []
+  }
+
+  const pieces: PieceInstance[] = []
+  for (const piece of requiredPieces) {
+    const { width, height, quantity } = piece
+    if (
+      width <= 0 ||
+      height <= 0 ||
+      !Number.isFinite(width) ||
+      !Number.isFinite(height) ||
+      quantity <= 0 ||
+      !Number.isInteger(quantity)
+    ) {
+      continue
+    }
+    const grain = getSheetGrain(piece)
+    for (let i = 0; i < quantity; i++) {
+      pieces.push({ width, height, grain })
+    }
+  }
+  if (pieces.length === 0) return []
+
+  const scrapSheets = mergeScrapSheets(options?.scrap ?? []).flatMap((s) =>
+    Array.from({ length: s.quantity }, () => ({ width: s.width, height: s.height }))
+  )
+
+  let best: SheetInProgress[] | null = null
+  for (const ordering of sheetPieceOrderings(pieces)) {
+    const result = placePiecesOntoSheets(ordering, sheetWidth, sheetHeight, kerf, scrapSheets)
+    if (!best || isSheetResultBetter(result, best)) {
+      best = result
+    }
+  }
+
+  return (best ?? []).map((sheet) => {
+    const pieceArea = sheet.placements.reduce((s, p) => s + p.width * p.height, 0)
+    return {
+      sheetWidth: sheet.width,
+      sheetHeight: sheet.height,
+      placements: sheet.placements,
+      offcuts: [...sheet.free].sort(
+        (a, b) => b.width * b.height - a.width * a.height || a.y - b.y || a.x - b.x
+      ),
+      remainingArea: roundInches(Math.max(0, sheet.width * sheet.height - pieceArea)),
+      source: sheet.source,
+    }
+  })
+}
+
+// ── Unplaced cuts ────────────────────────────────────────────────────────────
+
+/**
+ * Requested board cuts missing from a result of optimizeBoardCuts, in input order.
+ * Invalid entries are reported as such; valid cuts not found on any board exceeded every
+ * stock length (and every scrap board).
+ */
+export function findUnplacedBoardCuts(
+  requiredCuts: RequiredCut[],
+  boards: OptimizedBoard[]
+): Extract<UnplacedCut, { materialType: "board" }>[] {
+  const placedByLength = new Map<number, number>()
+  for (const cut of boards.flatMap((b) => b.cuts)) {
+    placedByLength.set(cut, (placedByLength.get(cut) ?? 0) + 1)
+  }
+
+  const unplaced: Extract<UnplacedCut, { materialType: "board" }>[] = []
+  for (const { length, quantity } of requiredCuts) {
+    if (!(length > 0) || !Number.isFinite(length)) {
+      unplaced.push({ materialType: "board", length, quantity, reason: "invalid-length" })
+      continue
+    }
+    if (!(quantity > 0) || !Number.isInteger(quantity)) {
+      unplaced.push({ materialType: "board", length, quantity, reason: "invalid-quantity" })
+      continue
+    }
+    const placed = Math.min(quantity, placedByLength.get(length) ?? 0)
+    placedByLength.set(length, (placedByLength.get(length) ?? 0) - placed)
+    if (placed < quantity) {
+      unplaced.push({ materialType: "board", length, quantity: quantity - placed, reason: "exceeds-stock" })
+    }
+  }
+  return unplaced
+}
+
+/**
+ * Requested sheet pieces missing from a result of optimizeSheetCuts, in input order.
+ * Placements are matched back to pieces by their entered (unrotated) size.
+ */
+export function findUnplacedSheetPieces(
+  requiredPieces: SheetPiece[],
+  sheets: OptimizedSheet[]
+): Extract<UnplacedCut, { materialType: "sheet" }>[] {
+  const sizeKey = (width: number, height: number) => `${width}x${height}`
+  const placedBySize = new Map<string, number>()
+  for (const p of sheets.flatMap((s) => s.placements)) {
+    const key = p.rotated ? sizeKey(p.height, p.width) : sizeKey(p.width, p.height)
+    placedBySize.set(key, (placedBySize.get(key) ?? 0) + 1)
+  }
+
+  const unplaced: Extract<UnplacedCut, { materialType: "sheet" }>[] = []
+  for (const { width, height, quantity } of requiredPieces) {
+    if (!(width > 0) || !(height > 0) || !Number.isFinite(width) || !Number.isFinite(height)) {
+      unplaced.push({ materialType: "sheet", width, height, quantity, reason: "invalid-length" })
+      continue
+    }
+    if (!(quantity > 0) || !Number.isInteger(quantity)) {
+      unplaced.push({ materialType: "sheet", width, height, quantity, reason: "invalid-quantity" })
+      continue
+    }
+    const key = sizeKey(width, height)
+    const placed = Math.min(quantity, placedBySize.get(key) ?? 0)
+    placedBySize.set(key, (placedBySize.get(key) ?? 0) - placed)
+    if (placed < quantity) {
+      unplaced.push({
+        materialType: "sheet",
+        width,
+        height,
+        quantity: quantity - placed,
+        reason: "exceeds-stock",
+      })
+    }
+  }
+  return unplaced
+}
+
 /**
  * @deprecated Use optimizeCuts(requiredCuts, boardSpec, options) or optimizeBoardCuts() instead.
  */
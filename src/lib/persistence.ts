@@ -4,6 +4,11 @@ import {
   STOCK_PROFILES,
 } from "./stock-profiles"
 import type { MaterialGroup, SheetPiece } from "./material-groups"
+import {
+  describeImportValue,
+  type GroupItemList,
+  type ImportReport,
+} from "./import-report"
 
 export const GROUPS_STORAGE_KEY = "cut-optimizer-groups"
 
@@ -17,9 +22,23 @@ export function serializeGroups(groups: MaterialGroup[]): object[] {
  * Applies defaults for any missing or invalid fields so that data saved before
  * new fields were added continues to load correctly.
  * Returns null if the value is not recoverable as a group.
+ *
+ * When a `report` is passed, records why the group was skipped, which list
+ * entries were dropped and which fields were defaulted. Missing fields are only
+ * recorded when the group's material type relies on them; older files simply
+ * predate the rest.
  */
-export function parseGroupFromUnknown(raw: unknown): MaterialGroup | null {
-  if (typeof raw !== "object" || raw === null) return null
+export function parseGroupFromUnknown(
+  raw: unknown,
+  report?: ImportReport,
+  groupIndex = 0
+): MaterialGroup | null {
+  const skip = (reason: string): null => {
+    report?.skippedGroups.push({ groupIndex, reason })
+    return null
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw))
+    return skip("not an object")
   const obj = raw as Record<string, unknown>
 
   const id = typeof obj.id === "string" && obj.id ? obj.id : null
@@ -29,89 +48,195 @@ export function parseGroupFromUnknown(raw: unknown): MaterialGroup | null {
       ? obj.materialType
       : null
 
-  if (!id || label === null || !materialType) return null
+  if (!id) return skip("missing id")
+  if (label === null) return skip("missing label")
+  if (!materialType)
+    return skip(
+      `materialType ${describeImportValue(obj.materialType)} is not "board" or "sheet"`
+    )
+
+  const defaulted = <T>(
+    field: string,
+    defaultValue: T,
+    required = false
+  ): T => {
+    const value = obj[field]
+    if (report && (required || (value !== undefined && value !== null))) {
+      report.defaultedFields.push({
+        groupIndex,
+        groupLabel: label,
+        field,
+        value,
+        defaultValue,
+      })
+    }
+    return defaultValue
+  }
+  const dropped = (list: GroupItemList, itemIndex: number, reason: string) => {
+    report?.droppedItems.push({
+      groupIndex,
+      groupLabel: label,
+      list,
+      itemIndex,
+      reason,
+    })
+  }
+  const isBoard = materialType === "board"
+  const isSheet = materialType === "sheet"
 
   const boardSpecId =
     typeof obj.boardSpecId === "string" && obj.boardSpecId
       ? obj.boardSpecId
-      : (STOCK_PROFILES[0]?.id ?? "2x4")
+      : defaulted("boardSpecId", STOCK_PROFILES[0]?.id ?? "2x4", isBoard)
 
   const isLabelUserDefined =
-    typeof obj.isLabelUserDefined === "boolean" ? obj.isLabelUserDefined : false
+    typeof obj.isLabelUserDefined === "boolean"
+      ? obj.isLabelUserDefined
+      : defaulted("isLabelUserDefined", false)
 
   const maxLengthPreferenceInches =
     typeof obj.maxLengthPreferenceInches === "number" &&
     obj.maxLengthPreferenceInches > 0
       ? obj.maxLengthPreferenceInches
-      : DEFAULT_MAX_BOARD_LENGTH_INCHES
+      : defaulted("maxLengthPreferenceInches", DEFAULT_MAX_BOARD_LENGTH_INCHES)
 
   const kerfOverrideInches =
     typeof obj.kerfOverrideInches === "number" && obj.kerfOverrideInches > 0
       ? obj.kerfOverrideInches
-      : null
+      : defaulted("kerfOverrideInches", null)
+
+  const endTrimOverrideInches =
+    typeof obj.endTrimOverrideInches === "number" &&
+    Number.isFinite(obj.endTrimOverrideInches) &&
+    obj.endTrimOverrideInches >= 0
+      ? obj.endTrimOverrideInches
+      : defaulted("endTrimOverrideInches", null)
+
+  const minScrapLengthOverrideInches =
+    typeof obj.minScrapLengthOverrideInches === "number" &&
+    Number.isFinite(obj.minScrapLengthOverrideInches) &&
+    obj.minScrapLengthOverrideInches >= 0
+      ? obj.minScrapLengthOverrideInches
+      : defaulted("minScrapLengthOverrideInches", null)
+
+  const optimizationGoal =
+    obj.optimizationGoal === "boards" ||
+    obj.optimizationGoal === "cost" ||
+    obj.optimizationGoal === "scrap"
+      ? obj.optimizationGoal
+      : defaulted("optimizationGoal", null)
 
   const customAllowedLengths = Array.isArray(obj.customAllowedLengths)
-    ? obj.customAllowedLengths.filter(
-        (l): l is number =>
-          typeof l === "number" && Number.isFinite(l) && l > 0
-      )
-    : []
+    ? obj.customAllowedLengths.filter((l, i): l is number => {
+        if (typeof l === "number" && Number.isFinite(l) && l > 0) return true
+        dropped(
+          "customAllowedLengths",
+          i,
+          `${describeImportValue(l)} is not a positive number`
+        )
+        return false
+      })
+    : defaulted("customAllowedLengths", [])
 
   const cuts: CutRequirement[] = Array.isArray(obj.cuts)
-    ? obj.cuts.flatMap((c): CutRequirement[] => {
-        if (typeof c !== "object" || c === null) return []
+    ? obj.cuts.flatMap((c, i): CutRequirement[] => {
+        if (typeof c !== "object" || c === null) {
+          dropped("cuts", i, "not an object")
+          return []
+        }
         const cut = c as Record<string, unknown>
-        if (
-          !isValidLength(cut.length) ||
-          !isValidQuantity(cut.quantity)
-        )
+        if (!isValidLength(cut.length)) {
+          dropped(
+            "cuts",
+            i,
+            `length ${describeImportValue(cut.length)} is not a positive number`
+          )
+          return []
+        }
+        if (!isValidQuantity(cut.quantity)) {
+          dropped(
+            "cuts",
+            i,
+            `quantity ${describeImportValue(cut.quantity)} is not a positive whole number`
+          )
           return []
+        }
         const mt =
           cut.materialType === "sheet" ? ("sheet" as const) : ("board" as const)
+        const name = typeof cut.name === "string" ? cut.name.trim() : ""
         return [
           {
-            length: cut.length as number,
-            quantity: cut.quantity as number,
+            length: cut.length,
+            quantity: cut.quantity,
             materialType: mt,
+            ...(name && { name }),
           },
         ]
       })
-    : []
+    : defaulted("cuts", [], isBoard)
 
   const sheetPieces: SheetPiece[] = Array.isArray(obj.sheetPieces)
-    ? obj.sheetPieces.flatMap((p): SheetPiece[] => {
-        if (typeof p !== "object" || p === null) return []
+    ? obj.sheetPieces.flatMap((p, i): SheetPiece[] => {
+        if (typeof p !== "object" || p === null) {
+          dropped("sheetPieces", i, "not an object")
+          return []
+        }
         const piece = p as Record<string, unknown>
-        if (typeof piece.width !== "number" || piece.width <= 0) return []
-        if (typeof piece.height !== "number" || piece.height <= 0) return []
+        if (typeof piece.width !== "number" || piece.width <= 0) {
+          dropped(
+            "sheetPieces",
+            i,
+            `width ${describeImportValue(piece.width)} is not a positive number`
+          )
+          return []
+        }
+        if (typeof piece.height !== "number" || piece.height <= 0) {
+          dropped(
+            "sheetPieces",
+            i,
+            `height ${describeImportValue(piece.height)} is not a positive number`
+          )
+          return []
+        }
         if (
           typeof piece.quantity !== "number" ||
           !Number.isInteger(piece.quantity) ||
           piece.quantity <= 0
-        )
+        ) {
+          dropped(
+            "sheetPieces",
+            i,
+            `quantity ${describeImportValue(piece.quantity)} is not a positive whole number`
+          )
           return []
+        }
+        const grain =
+          piece.grain === "length" || piece.grain === "width" ? piece.grain : null
+        const name = typeof piece.name === "string" ? piece.name.trim() : ""
         return [
           {
             width: piece.width,
             height: piece.height,
             quantity: piece.quantity,
+            ...(grain && { grain }),
+            ...(name && { name }),
           },
         ]
       })
-    : []
+    : defaulted("sheetPieces", [], isSheet)
 
   const sheetStockWidth =
     typeof obj.sheetStockWidth === "number" && obj.sheetStockWidth > 0
       ? obj.sheetStockWidth
-      : 48
+      : defaulted("sheetStockWidth", 48, isSheet)
   const sheetStockHeight =
     typeof obj.sheetStockHeight === "number" && obj.sheetStockHeight > 0
       ? obj.sheetStockHeight
-      : 96
+      : defaulted("sheetStockHeight", 96, isSheet)
   const sheetThickness =
     typeof obj.sheetThickness === "string" && obj.sheetThickness
       ? obj.sheetThickness
-      : '3/4"'
+      : defaulted("sheetThickness", '3/4"', isSheet)
 
   return {
     id,
@@ -121,6 +246,9 @@ export function parseGroupFromUnknown(raw: unknown): MaterialGroup | null {
     boardSpecId,
     maxLengthPreferenceInches,
     kerfOverrideInches,
+    endTrimOverrideInches,
+    minScrapLengthOverrideInches,
+    optimizationGoal,
     customAllowedLengths,
     cuts,
     draftCut: null,
@@ -135,31 +263,376 @@ export function parseGroupFromUnknown(raw: unknown): MaterialGroup | null {
 /**
  * Parse a JSON-decoded value (from storage or file import) as an array of MaterialGroups.
  * Returns null if the value cannot be parsed into at least one valid group.
+ * Pass a `report` to collect what was skipped, dropped or defaulted.
  */
-export function parseGroupsFromJSON(data: unknown): MaterialGroup[] | null {
+export function parseGroupsFromJSON(
+  data: unknown,
+  report?: ImportReport
+): MaterialGroup[] | null {
   if (!Array.isArray(data) || data.length === 0) return null
   const groups = data
-    .map(parseGroupFromUnknown)
+    .map((raw, i) => parseGroupFromUnknown(raw, report, i))
     .filter((g): g is MaterialGroup => g !== null)
   return groups.length > 0 ? groups : null
 }
 
-/** Persist groups to localStorage. Silently ignores storage errors. */
-export function saveGroupsToStorage(groups: MaterialGroup[]): void {
+// ── Storage ───────────────────────────────────────────────────────────────────
+
+/**
+ * Asynchronous key-value store that holds the app's data, with JSON strings as
+ * values. IndexedDB in the browser; in memory for tests.
+ */
+export interface StorageBackend {
+  /** Every stored entry. Read once, when the app starts. */
+  getAll(): Promise<Map<string, string>>
+  /** Rejects when the value could not be written (e.g. the quota is used up). */
+  set(key: string, value: string): Promise<void>
+  remove(key: string): Promise<void>
+}
+
+/**
+ * Synchronous storage the load and save helpers use. Reads never throw and
+ * return null when the key is missing. Writes never throw either: failures are
+ * reported to the listeners registered with onStorageError.
+ */
+export interface AppStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+/** A write that did not reach storage. */
+export interface StorageWriteFailure {
+  key: string
+  message: string
+}
+
+/** A key written or removed by another tab of the app. */
+export interface StorageChange {
+  key: string
+  /** The new value; null when the key was removed. */
+  value: string | null
+  /**
+   * True when this tab's copy was not the value the other tab replaced: both
+   * tabs changed the key at about the same time and this tab's change was
+   * overwritten.
+   */
+  diverged: boolean
+}
+
+/** Set once the localStorage data has been copied into a backend. */
+export const STORAGE_MIGRATED_KEY = "cut-optimizer-storage-migrated"
+
+/** Keys written by this app start with this prefix. */
+const STORAGE_KEY_PREFIX = "cut-optimizer"
+
+const IDB_DATABASE_NAME = "cut-optimizer"
+const IDB_STORE_NAME = "entries"
+
+/** BroadcastChannel on which tabs announce their writes. */
+export const STORAGE_CHANNEL_NAME = "cut-optimizer-storage"
+
+/** What a tab posts for each write: the key, its new value and the value it replaced. */
+interface StorageMessage {
+  key: string
+  value: string | null
+  previous: string | null
+}
+
+const storageErrorListeners = new Set<(failure: StorageWriteFailure) => void>()
+
+/** Subscribe to failed writes. Returns the unsubscribe function. */
+export function onStorageError(
+  listener: (failure: StorageWriteFailure) => void
+): () => void {
+  storageErrorListeners.add(listener)
+  return () => {
+    storageErrorListeners.delete(listener)
+  }
+}
+
+function reportStorageError(key: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error)
+  for (const listener of storageErrorListeners) listener({ key, message })
+}
+
+const storageChangeListeners = new Set<(change: StorageChange) => void>()
+
+/** Subscribe to writes made by other tabs. Returns the unsubscribe function. */
+export function onStorageChange(
+  listener: (change: StorageChange) => void
+): () => void {
+  storageChangeListeners.add(listener)
+  return () => {
+    storageChangeListeners.delete(listener)
+  }
+}
+
+function reportStorageChange(change: StorageChange): void {
+  for (const listener of storageChangeListeners) listener(change)
+}
+
+function parseStorageMessage(data: unknown): StorageMessage | null {
+  if (typeof data !== "object" || data === null) return null
+  const obj = data as Record<string, unknown>
+  const isValue = (v: unknown) => typeof v === "string" || v === null
+  if (typeof obj.key !== "string" || !isValue(obj.value) || !isValue(obj.previous)) {
+    return null
+  }
+  return obj as unknown as StorageMessage
+}
+
+/**
+ * The value this tab last wrote or received for each localStorage key. A write from
+ * another tab that replaced a different value means both tabs changed the key.
+ */
+const localStorageValues = new Map<string, string | null>()
+
+/**
+ * Report other tabs' localStorage writes, for when there is no backend. Keys this
+ * tab has not written or received are never reported as diverged.
+ */
+function listenToLocalStorage(): void {
+  window.addEventListener("storage", (event) => {
+    if (event.storageArea !== localStorage) return
+    if (!event.key?.startsWith(STORAGE_KEY_PREFIX)) return
+    const current = localStorageValues.get(event.key)
+    localStorageValues.set(event.key, event.newValue)
+    reportStorageChange({
+      key: event.key,
+      value: event.newValue,
+      diverged:
+        current !== undefined &&
+        current !== event.oldValue &&
+        current !== event.newValue,
+    })
+  })
+}
+
+/** AppStorage over window.localStorage, used until (or instead of) a backend. */
+const localAppStorage: AppStorage = {
+  getItem: (key) => {
+    try {
+      return localStorage.getItem(key)
+    } catch {
+      return null
+    }
+  },
+  setItem: (key, value) => {
+    try {
+      localStorage.setItem(key, value)
+      localStorageValues.set(key, value)
+    } catch (err) {
+      reportStorageError(key, err)
+    }
+  },
+  removeItem: (key) => {
+    try {
+      localStorage.removeItem(key)
+      localStorageValues.set(key, null)
+    } catch (err) {
+      reportStorageError(key, err)
+    }
+  },
+}
+
+let appStorage: AppStorage = localAppStorage
+
+/** Storage used by the load and save helpers. localStorage until setAppStorage is called. */
+export function getAppStorage(): AppStorage {
+  return appStorage
+}
+
+/** Switch the load and save helpers to `storage`. Call before the app first reads its data. */
+export function setAppStorage(storage: AppStorage | null): void {
+  appStorage = storage ?? localAppStorage
+}
+
+/**
+ * AppStorage over a backend: reads come from `entries` (the backend's content
+ * when the app started) and writes update them at once, then go to the backend
+ * in the background.
+ *
+ * With a `channel`, every write is announced to the other tabs, and their
+ * announcements update this tab's copy and are reported to onStorageChange
+ * listeners.
+ */
+export function createCachedStorage(
+  backend: StorageBackend,
+  entries: Map<string, string>,
+  channel?: BroadcastChannel
+): AppStorage {
+  const cache = new Map(entries)
+  channel?.addEventListener("message", (event: MessageEvent<unknown>) => {
+    const message = parseStorageMessage(event.data)
+    if (!message) return
+    const current = cache.get(message.key) ?? null
+    if (message.value === null) cache.delete(message.key)
+    else cache.set(message.key, message.value)
+    reportStorageChange({
+      key: message.key,
+      value: message.value,
+      diverged: current !== message.previous && current !== message.value,
+    })
+  })
+  const announce = (key: string, value: string | null) => {
+    const message: StorageMessage = { key, value, previous: cache.get(key) ?? null }
+    channel?.postMessage(message)
+  }
+  return {
+    getItem: (key) => cache.get(key) ?? null,
+    setItem: (key, value) => {
+      announce(key, value)
+      cache.set(key, value)
+      backend.set(key, value).catch((err: unknown) => reportStorageError(key, err))
+    },
+    removeItem: (key) => {
+      announce(key, null)
+      cache.delete(key)
+      backend.remove(key).catch((err: unknown) => reportStorageError(key, err))
+    },
+  }
+}
+
+/** In-memory backend, for tests. */
+export function createMemoryBackend(
+  initial: Record<string, string> = {}
+): StorageBackend {
+  const data = new Map(Object.entries(initial))
+  return {
+    getAll: () => Promise.resolve(new Map(data)),
+    set: (key, value) => {
+      data.set(key, value)
+      return Promise.resolve()
+    },
+    remove: (key) => {
+      data.delete(key)
+      return Promise.resolve()
+    },
+  }
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"))
+  })
+}
+
+/** Resolves when the transaction commits; rejects when it fails or aborts (quota errors abort). */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed"))
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"))
+  })
+}
+
+/** Open (creating if needed) the app's IndexedDB database as a backend. */
+export async function createIndexedDBBackend(
+  factory: IDBFactory = indexedDB
+): Promise<StorageBackend> {
+  const request = factory.open(IDB_DATABASE_NAME, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(IDB_STORE_NAME)
+  }
+  const db = await requestResult(request)
+  const write = (change: (store: IDBObjectStore) => void) => {
+    const tx = db.transaction(IDB_STORE_NAME, "readwrite")
+    change(tx.objectStore(IDB_STORE_NAME))
+    return transactionDone(tx)
+  }
+  return {
+    getAll: async () => {
+      const store = db.transaction(IDB_STORE_NAME).objectStore(IDB_STORE_NAME)
+      const [keys, values] = await Promise.all([
+        requestResult(store.getAllKeys()),
+        requestResult(store.getAll()),
+      ])
+      const entries = new Map<string, string>()
+      keys.forEach((key, i) => {
+        if (typeof key === "string" && typeof values[i] === "string") {
+          entries.set(key, values[i] as string)
+        }
+      })
+      return entries
+    },
+    set: (key, value) => write((store) => store.put(value, key)),
+    remove: (key) => write((store) => store.delete(key)),
+  }
+}
+
+/**
+ * Copy this app's localStorage entries into a backend, once. `entries` is the
+ * backend's current content; keys already in it win. The localStorage copies
+ * are left in place. Returns the backend's content after the migration.
+ */
+export async function migrateLocalStorage(
+  backend: StorageBackend,
+  entries: Map<string, string>,
+  source: Storage = localStorage
+): Promise<Map<string, string>> {
+  if (entries.has(STORAGE_MIGRATED_KEY)) return entries
+  const migrated = new Map(entries)
+  for (let i = 0; i < source.length; i++) {
+    const key = source.key(i)
+    if (!key?.startsWith(STORAGE_KEY_PREFIX) || migrated.has(key)) continue
+    const value = source.getItem(key)
+    if (value === null) continue
+    await backend.set(key, value)
+    migrated.set(key, value)
+  }
+  const at = new Date().toISOString()
+  await backend.set(STORAGE_MIGRATED_KEY, at)
+  migrated.set(STORAGE_MIGRATED_KEY, at)
+  return migrated
+}
+
+/**
+ * Open the app's storage: IndexedDB, filled from localStorage on first use.
+ * Falls back to localStorage when IndexedDB is unavailable (e.g. some private
+ * browsing modes) or the migration fails. Either way, writes from other tabs
+ * are reported to onStorageChange listeners.
+ */
+export async function openAppStorage(): Promise<AppStorage> {
   try {
-    localStorage.setItem(
-      GROUPS_STORAGE_KEY,
-      JSON.stringify(serializeGroups(groups))
-    )
+    const backend = await createIndexedDBBackend()
+    const entries = await migrateLocalStorage(backend, await backend.getAll())
+    const channel =
+      typeof BroadcastChannel === "function"
+        ? new BroadcastChannel(STORAGE_CHANNEL_NAME)
+        : undefined
+    return createCachedStorage(backend, entries, channel)
   } catch {
-    // ignore quota / security errors
+    listenToLocalStorage()
+    return localAppStorage
   }
 }
 
-/** Load groups from localStorage. Returns null if nothing is stored or data is invalid. */
-export function loadGroupsFromStorage(): MaterialGroup[] | null {
+/**
+ * Persist groups. `key` defaults to the pre-library single-project key.
+ * Write failures are reported to onStorageError listeners.
+ */
+export function saveGroupsToStorage(
+  groups: MaterialGroup[],
+  key: string = GROUPS_STORAGE_KEY
+): void {
+  getAppStorage().setItem(key, JSON.stringify(serializeGroups(groups)))
+}
+
+/** Load groups. Returns null if nothing is stored or data is invalid. */
+export function loadGroupsFromStorage(
+  key: string = GROUPS_STORAGE_KEY
+): MaterialGroup[] | null {
+  return parseStoredGroups(getAppStorage().getItem(key))
+}
+
+/**
+ * Parse groups as saveGroupsToStorage writes them, e.g. a StorageChange value.
+ * Returns null for null or invalid data.
+ */
+export function parseStoredGroups(raw: string | null): MaterialGroup[] | null {
   try {
-    const raw = localStorage.getItem(GROUPS_STORAGE_KEY)
     if (!raw) return null
     return parseGroupsFromJSON(JSON.parse(raw) as unknown)
   } catch {
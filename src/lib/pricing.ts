@@ -0,0 +1,97 @@
+import { getAppStorage } from "./persistence"
+
+export const PRICES_STORAGE_KEY = "cut-optimizer-prices"
+
+/**
+ * What the user pays per stock board, keyed by board spec id, then stock length (inches).
+ * Lengths without an entry are unpriced.
+ */
+export type PriceTable = Record<string, Record<number, number>>
+
+/** Valid price: finite and ≥ 0 (free boards are allowed). */
+export function isValidPrice(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+}
+
+/** Parse a user-typed price such as "12.48" or "$12.48". Returns NaN when unreadable. */
+export function parsePrice(input: string): number {
+  const trimmed = input.trim().replace(/^\$/, "").trim()
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(trimmed)) return NaN
+  return Number(trimmed)
+}
+
+/** Format a price as US dollars, e.g. 12.5 → "$12.50". */
+export function formatPrice(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+/** Price of one board of this spec and length, or undefined when unpriced. */
+export function getStockPrice(
+  table: PriceTable,
+  boardSpecId: string,
+  stockLength: number
+): number | undefined {
+  const price = table[boardSpecId]?.[stockLength]
+  return isValidPrice(price) ? price : undefined
+}
+
+/**
+ * Set or clear (price = null) the price of one spec and length. Returns a new table;
+ * specs left with no prices are removed.
+ */
+export function setStockPrice(
+  table: PriceTable,
+  boardSpecId: string,
+  stockLength: number,
+  price: number | null
+): PriceTable {
+  const forSpec = { ...table[boardSpecId] }
+  if (price === null) {
+    delete forSpec[stockLength]
+  } else {
+    forSpec[stockLength] = price
+  }
+  const next = { ...table }
+  if (Object.keys(forSpec).length === 0) {
+    delete next[boardSpecId]
+  } else {
+    next[boardSpecId] = forSpec
+  }
+  return next
+}
+
+/**
+ * Parse an unknown value (from storage) as a PriceTable.
+ * Drops entries with non-positive lengths or invalid prices rather than rejecting the table.
+ */
+export function parsePriceTableFromUnknown(raw: unknown): PriceTable {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return {}
+  const table: PriceTable = {}
+  for (const [specId, byLength] of Object.entries(raw as Record<string, unknown>)) {
+    if (!specId || typeof byLength !== "object" || byLength === null || Array.isArray(byLength)) continue
+    const prices: Record<number, number> = {}
+    for (const [lengthKey, price] of Object.entries(byLength as Record<string, unknown>)) {
+      const length = Number(lengthKey)
+      if (!Number.isFinite(length) || length <= 0 || !isValidPrice(price)) continue
+      prices[length] = price
+    }
+    if (Object.keys(prices).length > 0) table[specId] = prices
+  }
+  return table
+}
+
+/** Persist the price table. Write failures are reported to onStorageError listeners. */
+export function savePriceTableToStorage(table: PriceTable): void {
+  getAppStorage().setItem(PRICES_STORAGE_KEY, JSON.stringify(table))
+}
+
+/** Load the price table. Returns {} if nothing is stored or data is invalid. */
+export function loadPriceTableFromStorage(): PriceTable {
+  try {
+    const raw = getAppStorage().getItem(PRICES_STORAGE_KEY)
+    if (!raw) return {}
+    return parsePriceTableFromUnknown(JSON.parse(raw) as unknown)
+  } catch {
+    return {}
+  }
+}
@@ -0,0 +1,191 @@
+import type { MaterialGroup } from "./material-groups"
+import { mergeScrapEntries, type OptimizationObjective, type ScrapEntry } from "./optimizer"
+import type { ImportReport } from "./import-report"
+import { getAppStorage, parseGroupsFromJSON, serializeGroups } from "./persistence"
+import { parseScrapEntryFromUnknown } from "./scrap-ledger"
+
+/**
+ * Current project file format. Bump it whenever the envelope or group shape changes in a way
+ * parseGroupFromUnknown cannot default, and add the upgrade from the previous version to
+ * MIGRATIONS.
+ * 1: bare array of groups (files exported before the envelope existed).
+ * 2: envelope with name, timestamps, groups, optional scrap and settings.
+ */
+export const PROJECT_FORMAT_VERSION = 2
+
+/** Metadata of the single project kept before the project library (see project-library.ts). */
+export const PROJECT_META_STORAGE_KEY = "cut-optimizer-project"
+
+export const DEFAULT_PROJECT_NAME = "Untitled project"
+
+/** Run settings saved with a project. Missing fields keep the app's current setting. */
+export interface ProjectSettings {
+  objective?: OptimizationObjective
+  useScrap?: boolean
+}
+
+/** Everything about a project except its groups. */
+export interface ProjectMeta {
+  name: string
+  /** ISO 8601. */
+  createdAt: string
+  /** ISO 8601. */
+  modifiedAt: string
+}
+
+/** A project as the app uses it. */
+export interface Project extends ProjectMeta {
+  groups: MaterialGroup[]
+  /** Scrap inventory shipped with the project. Omitted when the file has none. */
+  scrap?: ScrapEntry[]
+  settings?: ProjectSettings
+}
+
+/** The JSON written to disk for the current format version. */
+export interface ProjectFile extends ProjectMeta {
+  formatVersion: number
+  groups: object[]
+  scrap?: ScrapEntry[]
+  settings?: ProjectSettings
+}
+
+type RawProjectFile = Record<string, unknown> & { formatVersion: number }
+
+/** Upgrades from version n to n + 1, keyed by n. Each one only has to know its two versions. */
+const MIGRATIONS: Record<number, (file: RawProjectFile) => RawProjectFile> = {
+  1: (file) => ({
+    formatVersion: 2,
+    name: DEFAULT_PROJECT_NAME,
+    groups: file.groups,
+  }),
+}
+
+/** Build the file for a project, stamped with the current format version. */
+export function createProjectFile(project: Project): ProjectFile {
+  return {
+    formatVersion: PROJECT_FORMAT_VERSION,
+    name: project.name,
+    createdAt: project.createdAt,
+    modifiedAt: project.modifiedAt,
+    groups: serializeGroups(project.groups),
+    ...(project.scrap && project.scrap.length > 0 ? { scrap: project.scrap } : {}),
+    ...(project.settings ? { settings: project.settings } : {}),
+  }
+}
+
+/**
+ * Format version of a JSON-decoded project file: 1 for a legacy bare array, the envelope's
+ * formatVersion otherwise. Returns null when the value is neither.
+ */
+export function readProjectFormatVersion(data: unknown): number | null {
+  if (Array.isArray(data)) return 1
+  if (typeof data !== "object" || data === null) return null
+  const version = (data as Record<string, unknown>).formatVersion
+  return typeof version === "number" && Number.isInteger(version) && version >= 1 ? version : null
+}
+
+/**
+ * @internal exported for testing
+ * Upgrade a JSON-decoded project file to the current format version, one migration at a time.
+ * Returns null for unrecognized data and for files from a newer version of the app.
+ */
+export function migrateProjectFile(data: unknown): RawProjectFile | null {
+  const version = readProjectFormatVersion(data)
+  if (version === null || version > PROJECT_FORMAT_VERSION) return null
+  let file: RawProjectFile = Array.isArray(data)
+    ? { formatVersion: 1, groups: data }
+    : { ...(data as Record<string, unknown>), formatVersion: version }
+  while (file.formatVersion < PROJECT_FORMAT_VERSION) {
+    const migrate = MIGRATIONS[file.formatVersion]
+    if (!migrate) return null
+    file = migrate(file)
+  }
+  return file
+}
+
+function parseSettings(raw: unknown): ProjectSettings | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined
+  const obj = raw as Record<string, unknown>
+  const settings: ProjectSettings = {}
+  if (obj.objective === "boards" || obj.objective === "cost" || obj.objective === "scrap") {
+    settings.objective = obj.objective
+  }
+  if (typeof obj.useScrap === "boolean") settings.useScrap = obj.useScrap
+  return Object.keys(settings).length > 0 ? settings : undefined
+}
+
+function parseTimestamp(raw: unknown, fallback: string): string {
+  return typeof raw === "string" && !Number.isNaN(Date.parse(raw)) ? raw : fallback
+}
+
+/**
+ * Parse a JSON-decoded project file of any known version (including legacy bare arrays).
+ * Missing names and timestamps default to DEFAULT_PROJECT_NAME and `now`.
+ * Returns null if the file has no valid group or comes from a newer format version.
+ * Pass a `report` to collect the groups, entries and fields the parser skipped or defaulted.
+ */
+export function parseProjectFile(
+  data: unknown,
+  now: Date = new Date(),
+  report?: ImportReport
+): Project | null {
+  const file = migrateProjectFile(data)
+  if (!file) return null
+  const groups = parseGroupsFromJSON(file.groups, report)
+  if (!groups) return null
+
+  const createdAt = parseTimestamp(file.createdAt, now.toISOString())
+  const scrap = Array.isArray(file.scrap)
+    ? mergeScrapEntries(
+        file.scrap.map(parseScrapEntryFromUnknown).filter((s): s is ScrapEntry => s !== null)
+      )
+    : []
+  const settings = parseSettings(file.settings)
+  return {
+    name: typeof file.name === "string" && file.name.trim() ? file.name.trim() : DEFAULT_PROJECT_NAME,
+    createdAt,
+    modifiedAt: parseTimestamp(file.modifiedAt, createdAt),
+    groups,
+    ...(scrap.length > 0 ? { scrap } : {}),
+    ...(settings ? { settings } : {}),
+  }
+}
+
+/**
+ * Download file name for a project (e.g. "Garage shelves" → "garage-shelves.json").
+ * Pass `extension` for other exports of the project (e.g. "csv").
+ */
+export function projectFileName(name: string, extension: string = "json"): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+  return `${slug || "cut-plan"}.${extension}`
+}
+
+// ── Storage ──────────────────────────────────────────────────────────────────
+
+/** New project metadata, created and modified `now`. */
+export function createProjectMeta(now: Date = new Date()): ProjectMeta {
+  const at = now.toISOString()
+  return { name: DEFAULT_PROJECT_NAME, createdAt: at, modifiedAt: at }
+}
+
+/**
+ * Load the metadata saved before the project library existed. Read once, when the library is
+ * created. Returns null if nothing is stored or data is invalid.
+ */
+export function loadProjectMetaFromStorage(): ProjectMeta | null {
+  try {
+    const raw = getAppStorage().getItem(PROJECT_META_STORAGE_KEY)
+    if (!raw) return null
+    const obj = JSON.parse(raw) as unknown
+    if (typeof obj !== "object" || obj === null) return null
+    const meta = obj as Record<string, unknown>
+    if (typeof meta.name !== "string") return null
+    const createdAt = parseTimestamp(meta.createdAt, new Date().toISOString())
+    return { name: meta.name, createdAt, modifiedAt: parseTimestamp(meta.modifiedAt, createdAt) }
+  } catch {
+    return null
+  }
+}
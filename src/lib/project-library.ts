@@ -0,0 +1,191 @@
+import {
+  GROUPS_STORAGE_KEY,
+  getAppStorage,
+  loadGroupsFromStorage,
+  saveGroupsToStorage,
+} from "./persistence"
+import {
+  DEFAULT_PROJECT_NAME,
+  createProjectMeta,
+  loadProjectMetaFromStorage,
+  type ProjectMeta,
+} from "./project-file"
+import type { ProjectResult } from "./project-result"
+
+export const PROJECT_LIBRARY_STORAGE_KEY = "cut-optimizer-library"
+
+const RESULT_STORAGE_KEY = "cut-optimizer-result"
+
+/** One project in the library. Its groups and last result are stored under keys derived from `id`. */
+export interface ProjectLibraryEntry extends ProjectMeta {
+  id: string
+}
+
+/** All saved projects, in creation order, and the one open in the app. */
+export interface ProjectLibrary {
+  activeId: string
+  projects: ProjectLibraryEntry[]
+}
+
+/** Storage key for a project's groups. */
+export function projectGroupsStorageKey(id: string): string {
+  return `${GROUPS_STORAGE_KEY}:${id}`
+}
+
+/** Storage key for a project's last result. */
+export function projectResultStorageKey(id: string): string {
+  return `${RESULT_STORAGE_KEY}:${id}`
+}
+
+/** Generate a project ID. `random` is injectable for tests. */
+export function createProjectId(random: () => number = Math.random): string {
+  return `project-${Date.now().toString(36)}-${Math.floor(random() * 36 ** 4).toString(36)}`
+}
+
+/** New library entry with a fresh ID, created and modified `now`. */
+export function createLibraryEntry(
+  name: string = DEFAULT_PROJECT_NAME,
+  now: Date = new Date(),
+  random: () => number = Math.random
+): ProjectLibraryEntry {
+  return { ...createProjectMeta(now), name, id: createProjectId(random) }
+}
+
+/** The open project. Falls back to the first one if activeId is stale. */
+export function getActiveProject(library: ProjectLibrary): ProjectLibraryEntry {
+  return library.projects.find((p) => p.id === library.activeId) ?? library.projects[0]
+}
+
+/** Append a project and make it the open one. */
+export function addProjectToLibrary(
+  library: ProjectLibrary,
+  entry: ProjectLibraryEntry
+): ProjectLibrary {
+  return { activeId: entry.id, projects: [...library.projects, entry] }
+}
+
+/** Apply `update` to one project's metadata. The ID is kept. */
+export function updateProjectInLibrary(
+  library: ProjectLibrary,
+  id: string,
+  update: (meta: ProjectMeta) => ProjectMeta
+): ProjectLibrary {
+  return {
+    ...library,
+    projects: library.projects.map((p) => (p.id === id ? { ...update(p), id } : p)),
+  }
+}
+
+/**
+ * Remove a project. If it was open, the next project (or the previous one, for the last in the
+ * list) opens instead. The last remaining project cannot be removed; the library is returned
+ * unchanged.
+ */
+export function removeProjectFromLibrary(library: ProjectLibrary, id: string): ProjectLibrary {
+  const index = library.projects.findIndex((p) => p.id === id)
+  if (index === -1 || library.projects.length <= 1) return library
+  const projects = library.projects.filter((p) => p.id !== id)
+  const activeId =
+    library.activeId === id ? projects[Math.min(index, projects.length - 1)].id : library.activeId
+  return { activeId, projects }
+}
+
+/** Name for a copy of `name` not already in `taken`: "Bench (copy)", then "Bench (copy 2)", … */
+export function duplicateProjectName(name: string, taken: Iterable<string>): string {
+  const names = new Set(taken)
+  const base = `${name.trim() || DEFAULT_PROJECT_NAME} (copy`
+  if (!names.has(`${base})`)) return `${base})`
+  let n = 2
+  while (names.has(`${base} ${n})`)) n++
+  return `${base} ${n})`
+}
+
+// ── Storage ──────────────────────────────────────────────────────────────────
+
+function parseLibraryEntry(raw: unknown): ProjectLibraryEntry | null {
+  if (typeof raw !== "object" || raw === null) return null
+  const obj = raw as Record<string, unknown>
+  if (typeof obj.id !== "string" || !obj.id || typeof obj.name !== "string") return null
+  if (typeof obj.createdAt !== "string" || typeof obj.modifiedAt !== "string") return null
+  return { id: obj.id, name: obj.name, createdAt: obj.createdAt, modifiedAt: obj.modifiedAt }
+}
+
+/** Persist the library index. Write failures are reported to onStorageError listeners. */
+export function saveProjectLibraryToStorage(library: ProjectLibrary): void {
+  getAppStorage().setItem(PROJECT_LIBRARY_STORAGE_KEY, JSON.stringify(library))
+}
+
+/** Load the library index. Returns null if nothing is stored or no project entry is valid. */
+export function loadProjectLibraryFromStorage(): ProjectLibrary | null {
+  try {
+    const raw = getAppStorage().getItem(PROJECT_LIBRARY_STORAGE_KEY)
+    if (!raw) return null
+    const obj = JSON.parse(raw) as unknown
+    if (typeof obj !== "object" || obj === null) return null
+    const data = obj as Record<string, unknown>
+    if (!Array.isArray(data.projects)) return null
+    const projects = data.projects
+      .map(parseLibraryEntry)
+      .filter((p): p is ProjectLibraryEntry => p !== null)
+    if (projects.length === 0) return null
+    const activeId = projects.some((p) => p.id === data.activeId)
+      ? (data.activeId as string)
+      : projects[0].id
+    return { activeId, projects }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Load the library, creating it on first run. The first library adopts the single project kept
+ * under the pre-library keys (groups and project metadata), which are left in place untouched.
+ */
+export function loadOrCreateProjectLibrary(now: Date = new Date()): ProjectLibrary {
+  const stored = loadProjectLibraryFromStorage()
+  if (stored) return stored
+  const meta = loadProjectMetaFromStorage() ?? createProjectMeta(now)
+  const entry: ProjectLibraryEntry = { ...meta, id: createProjectId() }
+  const legacyGroups = loadGroupsFromStorage()
+  if (legacyGroups) saveGroupsToStorage(legacyGroups, projectGroupsStorageKey(entry.id))
+  const library = { activeId: entry.id, projects: [entry] }
+  saveProjectLibraryToStorage(library)
+  return library
+}
+
+/**
+ * Persist a project's last result, or forget it when `result` is null. Write failures are
+ * reported to onStorageError listeners.
+ */
+export function saveProjectResultToStorage(id: string, result: ProjectResult | null): void {
+  const storage = getAppStorage()
+  if (result) storage.setItem(projectResultStorageKey(id), JSON.stringify(result))
+  else storage.removeItem(projectResultStorageKey(id))
+}
+
+/**
+ * Load a project's last result. Returns null if nothing is stored or the data does not have the
+ * shape of a ProjectResult. Results are only ever written by this app, so the check is shallow.
+ */
+export function loadProjectResultFromStorage(id: string): ProjectResult | null {
+  try {
+    const raw = getAppStorage().getItem(projectResultStorageKey(id))
+    if (!raw) return null
+    const obj = JSON.parse(raw) as unknown
+    if (typeof obj !== "object" || obj === null) return null
+    const result = obj as Record<string, unknown>
+    const lists = ["shoppingList", "shoppingListSheets", "cutListRecap", "diagrams", "unplacedCuts"]
+    if (!lists.every((key) => Array.isArray(result[key]))) return null
+    if (typeof result.hasUnpricedItems !== "boolean") return null
+    if (result.totalCost !== null && typeof result.totalCost !== "number") return null
+    return obj as ProjectResult
+  } catch {
+    return null
+  }
+}
+
+/** Delete a project's groups and last result. */
+export function removeProjectDataFromStorage(id: string): void {
+  getAppStorage().removeItem(projectGroupsStorageKey(id))
+  getAppStorage().removeItem(projectResultStorageKey(id))
+}
@@ -1,7 +1,26 @@
 import type { CutRequirement } from "./cuts"
 import type { MaterialGroup, SheetPiece } from "./material-groups"
-import { optimizeCuts, type OptimizedBoard, type ScrapEntry } from "./optimizer"
-import { STOCK_PROFILES, NOMINAL_SIZE_ORDER } from "./stock-profiles"
+import {
+  findUnplacedBoardCuts,
+  findUnplacedSheetPieces,
+  optimizeCuts,
+  type ExactSearchOptions,
+  type OptimizationObjective,
+  type OptimizedBoard,
+  type OptimizedSheet,
+  type ScrapEntry,
+  type UnplacedCut,
+} from "./optimizer"
+import { getStockPrice, type PriceTable } from "./pricing"
+import { findDiagramScrap, subtractScrap } from "./scrap-accounting"
+import {
+  DEFAULT_END_TRIM_INCHES,
+  DEFAULT_MIN_SCRAP_LENGTH_INCHES,
+  DEFAULT_KERF_INCHES,
+  STOCK_PROFILES,
+  NOMINAL_SIZE_ORDER,
+  type SheetSpec,
+} from "./stock-profiles"
 
 /** Shopping list entry for one nominal size (board spec): what to buy. */
 export interface ShoppingListEntry {
@@ -9,8 +28,8 @@ export interface ShoppingListEntry {
   nominalSizeId: string
   /** Display name (e.g. "2×4 dimensional"). */
   nominalSizeName: string
-  /** Count per stock length. */
-  items: { stockLength: number; count: number }[]
+  /** Count per stock length, with price per board and line total when the length is priced. */
+  items: { stockLength: number; count: number; unitPrice?: number; lineTotal?: number }[]
 }
 
 /** Cut list recap for one material group: what the user entered. */
@@ -29,14 +48,29 @@ export interface DiagramGroup {
   groupLabel: string
   boardSpecId?: string
   boards: OptimizedBoard[]
+  /** Sheet layouts. Present only for sheet groups. */
+  sheets?: OptimizedSheet[]
+  /** Sheet thickness (e.g. "3/4\""). Present only for sheet groups. */
+  sheetThickness?: string
   kerfInches: number
   /** Preferred max length (inches) for board groups; used to show "exceeds preference" in UI. */
   preferredMaxLengthInches?: number
-  /** When "sheet", show "Optimization coming soon" instead of board count. */
+  /** Shortest leftover (inches) counted as reusable scrap. Present only for board groups. */
+  minScrapLengthInches?: number
+  /** Total length (inches) of reusable offcuts left by this plan. Present only for board groups. */
+  reusableScrapInches?: number
+  /** When "sheet", render sheet layouts instead of board strips. */
   materialType?: "board" | "sheet"
 }
 
-/** Sheet/shopping entry: plywood group, sheet count only (no optimization yet). */
+/** Cuts one material group asked for that are not in the plan. */
+export interface UnplacedCutGroup {
+  groupId: string
+  groupLabel: string
+  cuts: UnplacedCut[]
+}
+
+/** Sheet/shopping entry: plywood group, number of stock sheets to buy. */
 export interface ShoppingListSheetEntry {
   groupId: string
   groupLabel: string
@@ -50,29 +84,60 @@ export interface ShoppingListSheetEntry {
 export interface ProjectResult {
   /** What to buy (boards), grouped by nominal size. */
   shoppingList: ShoppingListEntry[]
-  /** What to buy (sheets), one entry per plywood group. Sheet count only; optimization coming soon. */
+  /** What to buy (sheets), one entry per plywood group. */
   shoppingListSheets: ShoppingListSheetEntry[]
   /** What the user entered, grouped by material group. */
   cutListRecap: CutListRecapGroup[]
   /** Cut diagrams, grouped by material group. */
   diagrams: DiagramGroup[]
+  /** Requested cuts missing from the plan; only groups with at least one. */
+  unplacedCuts: UnplacedCutGroup[]
+  /** Sum of all priced shopping list lines; null when nothing to buy is priced. */
+  totalCost: number | null
+  /** True when some board to buy has no price, so totalCost is a partial sum. */
+  hasUnpricedItems: boolean
+  /** Scrap ledger transaction that committed this plan; set by Commit plan, saved with the result. */
+  commitTransactionId?: string
+}
+
+/** Progress through a project, reported as each material group starts optimizing. */
+export interface OptimizationProgress {
+  /** Groups finished so far. */
+  completedGroups: number
+  totalGroups: number
+  /** Label of the group now being optimized. */
+  currentGroupLabel: string
 }
 
 export interface GenerateProjectResultOptions {
   /** Global scrap inventory (material-aware). Used when "Use scrap inventory" is on. Default []. */
   scrap?: ScrapEntry[]
+  /** Exact board search budget. Default {} (on, default budget); false = heuristic only. */
+  exactSearch?: ExactSearchOptions | false
+  /** Board prices per spec and stock length. Default {}. */
+  priceTable?: PriceTable
+  /**
+   * Project-wide goal for new-board packing; a group's optimizationGoal overrides it.
+   * Default "boards"; "cost" uses priceTable.
+   */
+  objective?: OptimizationObjective
+  /** Called before each group is optimized. */
+  onProgress?: (progress: OptimizationProgress) => void
 }
 
 /**
  * Run optimization per group and aggregate into a single project result.
- * Each group is optimized independently; output is unified.
- * Pass options.scrap when the user has "Use scrap inventory" enabled.
+ * Groups are optimized in order; output is unified.
+ * Pass options.scrap when the user has "Use scrap inventory" enabled. Scrap a group cuts from
+ * (boards, labelled pieces and sheets) is not offered to later groups.
  */
 export function generateProjectResult(
   groups: MaterialGroup[],
   options?: GenerateProjectResultOptions
 ): ProjectResult {
-  const scrap = options?.scrap ?? []
+  let scrap = options?.scrap ?? []
+  const exactSearch = options?.exactSearch === false ? undefined : (options?.exactSearch ?? {})
+  const priceTable = options?.priceTable ?? {}
   const shoppingByNominal = new Map<
     string,
     { name: string; byLength: Map<number, number> }
@@ -80,8 +145,17 @@ export function generateProjectResult(
   const shoppingListSheets: ShoppingListSheetEntry[] = []
   const cutListRecap: CutListRecapGroup[] = []
   const diagrams: DiagramGroup[] = []
+  const unplacedCuts: UnplacedCutGroup[] = []
+  const reportUnplaced = (group: MaterialGroup, cuts: UnplacedCut[]) => {
+    if (cuts.length > 0) unplacedCuts.push({ groupId: group.id, groupLabel: group.label, cuts })
+  }
 
-  for (const group of groups) {
+  for (const [index, group] of groups.entries()) {
+    options?.onProgress?.({
+      completedGroups: index,
+      totalGroups: groups.length,
+      currentGroupLabel: group.label,
+    })
     cutListRecap.push({
       groupId: group.id,
       groupLabel: group.label,
@@ -90,19 +164,39 @@ export function generateProjectResult(
     })
 
     if (group.materialType === "sheet") {
+      const sheetSpec: SheetSpec = {
+        id: group.id,
+        name: group.label,
+        materialType: "sheet",
+        sheetWidth: group.sheetStockWidth,
+        sheetHeight: group.sheetStockHeight,
+        kerf: group.kerfOverrideInches ?? DEFAULT_KERF_INCHES,
+      }
+      const thickness = group.sheetThickness.trim()
+      const sheets = optimizeCuts(group.sheetPieces, sheetSpec, {
+        scrapSheets: scrap.filter(
+          (s): s is Extract<ScrapEntry, { materialType: "sheet" }> =>
+            s.materialType === "sheet" && s.thickness.trim() === thickness
+        ),
+      })
+      reportUnplaced(group, findUnplacedSheetPieces(group.sheetPieces, sheets))
       diagrams.push({
         groupId: group.id,
         groupLabel: group.label,
         boardSpecId: undefined,
         boards: [],
-        kerfInches: 0,
+        sheets,
+        sheetThickness: group.sheetThickness,
+        kerfInches: sheetSpec.kerf,
         materialType: "sheet",
       })
-      if (group.sheetPieces.length > 0) {
+      scrap = subtractScrap(scrap, findDiagramScrap(diagrams[diagrams.length - 1])).remaining
+      const sheetCount = sheets.filter((s) => s.source === "new").length
+      if (sheetCount > 0) {
         shoppingListSheets.push({
           groupId: group.id,
           groupLabel: group.label,
-          sheetCount: 0,
+          sheetCount,
           sheetWidth: group.sheetStockWidth,
           sheetHeight: group.sheetStockHeight,
           thickness: group.sheetThickness,
@@ -114,6 +208,18 @@ export function generateProjectResult(
     const boardSpec = STOCK_PROFILES.find((p) => p.id === group.boardSpecId)
     const boardCuts = group.cuts.filter((c) => (c.materialType ?? "board") === "board")
 
+    if (!boardSpec) {
+      reportUnplaced(
+        group,
+        boardCuts.map((c) => ({
+          materialType: "board" as const,
+          length: c.length,
+          quantity: c.quantity,
+          reason: "unknown-spec" as const,
+        }))
+      )
+    }
+
     if (!boardSpec || boardCuts.length === 0) {
       diagrams.push({
         groupId: group.id,
@@ -122,6 +228,11 @@ export function generateProjectResult(
         boards: [],
         kerfInches: group.kerfOverrideInches ?? boardSpec?.kerf ?? 0,
         preferredMaxLengthInches: group.maxLengthPreferenceInches,
+        minScrapLengthInches:
+          group.minScrapLengthOverrideInches ??
+          boardSpec?.minScrapLength ??
+          DEFAULT_MIN_SCRAP_LENGTH_INCHES,
+        reusableScrapInches: 0,
         materialType: "board",
       })
       continue
@@ -138,6 +249,11 @@ export function generateProjectResult(
       ...boardSpec,
       allowedLengths: effectiveAllowedLengths,
       kerf: group.kerfOverrideInches ?? boardSpec.kerf,
+      endTrim: group.endTrimOverrideInches ?? boardSpec.endTrim ?? DEFAULT_END_TRIM_INCHES,
+      minScrapLength:
+        group.minScrapLengthOverrideInches ??
+        boardSpec.minScrapLength ??
+        DEFAULT_MIN_SCRAP_LENGTH_INCHES,
     }
 
     const boards = optimizeCuts(boardCuts, effectiveSpec, {
@@ -147,7 +263,11 @@ export function generateProjectResult(
             s.materialType === "board" && s.nominalSizeId === boardSpec.id
         ),
       preferredMaxLengthInches: group.maxLengthPreferenceInches,
+      exactSearch,
+      objective: group.optimizationGoal ?? options?.objective,
+      stockPrices: priceTable[boardSpec.id],
     })
+    reportUnplaced(group, findUnplacedBoardCuts(boardCuts, boards))
     diagrams.push({
       groupId: group.id,
       groupLabel: group.label,
@@ -155,8 +275,12 @@ export function generateProjectResult(
       boards,
       kerfInches: effectiveSpec.kerf,
       preferredMaxLengthInches: group.maxLengthPreferenceInches,
+      minScrapLengthInches: effectiveSpec.minScrapLength,
+      reusableScrapInches:
+        Math.round(boards.reduce((s, b) => s + b.scrapRemaining, 0) * 1e6) / 1e6,
       materialType: "board",
     })
+    scrap = subtractScrap(scrap, findDiagramScrap(diagrams[diagrams.length - 1])).remaining
 
     const toPurchase = boards.filter((b) => b.source === "new")
     if (toPurchase.length === 0) continue
@@ -172,9 +296,20 @@ export function generateProjectResult(
   }
 
   const shoppingList: ShoppingListEntry[] = []
+  let totalCost: number | null = null
+  let hasUnpricedItems = false
   for (const [nominalSizeId, { name, byLength }] of shoppingByNominal) {
     const items = [...byLength.entries()]
-      .map(([stockLength, count]) => ({ stockLength, count }))
+      .map(([stockLength, count]) => {
+        const unitPrice = getStockPrice(priceTable, nominalSizeId, stockLength)
+        if (unitPrice === undefined) {
+          hasUnpricedItems = true
+          return { stockLength, count }
+        }
+        const lineTotal = Math.round(unitPrice * count * 100) / 100
+        totalCost = Math.round(((totalCost ?? 0) + lineTotal) * 100) / 100
+        return { stockLength, count, unitPrice, lineTotal }
+      })
       .sort((a, b) => a.stockLength - b.stockLength)
     shoppingList.push({ nominalSizeId, nominalSizeName: name, items })
   }
@@ -191,5 +326,8 @@ export function generateProjectResult(
     shoppingListSheets,
     cutListRecap,
     diagrams,
+    unplacedCuts,
+    totalCost,
+    hasUnpricedItems,
   }
 }
@@ -0,0 +1,154 @@
+import type { ProjectResult } from "./project-result"
+
+/** A CSV cell: text, a number, or empty (undefined). */
+export type CsvCell = string | number | undefined
+
+export interface ShoppingListCsvOptions {
+  /** Boards added to every stock length line, as with the results view's insurance board. Default 0. */
+  extraBoardsPerLength?: number
+}
+
+/**
+ * Join rows into CSV text (RFC 4180): comma-separated, CRLF line endings, cells quoted when they
+ * hold a comma, quote or line break. Numbers are written as plain decimals without units, so
+ * spreadsheets read them as numbers.
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n"
+}
+
+function csvCell(value: CsvCell): string {
+  if (value === undefined) return ""
+  const text = typeof value === "number" ? formatNumber(value) : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Round away float noise (29.499999… → 29.5) without forcing a fixed number of decimals. */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 10000) / 10000)
+}
+
+/**
+ * Shopping list: one row per board stock length and one per sheet group, with counts and, for
+ * priced boards, unit price and line total.
+ */
+export function shoppingListCsv(result: ProjectResult, options: ShoppingListCsvOptions = {}): string {
+  const extra = options.extraBoardsPerLength ?? 0
+  const rows: CsvCell[][] = [
+    ["Type", "Material", "Thickness", "Length (in)", "Width (in)", "Count", "Unit price", "Line total"],
+  ]
+  for (const entry of result.shoppingList) {
+    for (const item of entry.items) {
+      const count = item.count + extra
+      rows.push([
+        "Board",
+        entry.nominalSizeName,
+        undefined,
+        item.stockLength,
+        undefined,
+        count,
+        item.unitPrice === undefined ? undefined : item.unitPrice.toFixed(2),
+        item.unitPrice === undefined ? undefined : (item.unitPrice * count).toFixed(2),
+      ])
+    }
+  }
+  for (const entry of result.shoppingListSheets) {
+    rows.push([
+      "Sheet",
+      entry.groupLabel,
+      entry.thickness,
+      entry.sheetHeight,
+      entry.sheetWidth,
+      entry.sheetCount,
+      undefined,
+      undefined,
+    ])
+  }
+  return toCsv(rows)
+}
+
+/**
+ * Cut list recap: one row per cut length or sheet piece size, per group. The columns match what
+ * the CSV cut list import recognises, so the file can be imported back.
+ */
+export function cutListRecapCsv(result: ProjectResult): string {
+  const rows: CsvCell[][] = [
+    ["Group", "Part name", "Material type", "Nominal size", "Length (in)", "Width (in)", "Quantity"],
+  ]
+  for (const recap of result.cutListRecap) {
+    const diagram = result.diagrams.find((d) => d.groupId === recap.groupId)
+    for (const cut of recap.cuts) {
+      rows.push([
+        recap.groupLabel,
+        cut.name,
+        "board",
+        diagram?.boardSpecId,
+        cut.length,
+        undefined,
+        cut.quantity,
+      ])
+    }
+    for (const piece of recap.sheetPieces) {
+      rows.push([
+        recap.groupLabel,
+        piece.name,
+        "sheet",
+        diagram?.sheetThickness,
+        piece.height,
+        piece.width,
+        piece.quantity,
+      ])
+    }
+  }
+  return toCsv(rows)
+}
+
+/**
+ * Board layouts: one row per board (and per sheet) in the plan, numbered within its group, with
+ * its cuts in cutting order. Boards show reusable scrap and waste in inches; sheets show the
+ * area left over in square inches.
+ */
+export function boardLayoutsCsv(result: ProjectResult): string {
+  const rows: CsvCell[][] = [
+    [
+      "Group",
+      "Board",
+      "Source",
+      "Stock length (in)",
+      "Stock width (in)",
+      "Cuts (in)",
+      "Scrap (in)",
+      "Waste (in)",
+      "Leftover area (sq in)",
+    ],
+  ]
+  for (const diagram of result.diagrams) {
+    diagram.boards.forEach((board, i) => {
+      rows.push([
+        diagram.groupLabel,
+        i + 1,
+        board.source,
+        board.stockLength,
+        undefined,
+        board.cuts.map(formatNumber).join("; "),
+        board.scrapRemaining,
+        board.wasteRemaining,
+        undefined,
+      ])
+    })
+    diagram.sheets?.forEach((sheet, i) => {
+      rows.push([
+        diagram.groupLabel,
+        i + 1,
+        sheet.source,
+        sheet.sheetHeight,
+        sheet.sheetWidth,
+        sheet.placements.map((p) => `${formatNumber(p.width)} x ${formatNumber(p.height)}`).join("; "),
+        undefined,
+        undefined,
+        sheet.remainingArea,
+      ])
+    })
+  }
+  return toCsv(rows)
+}
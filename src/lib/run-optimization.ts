@@ -0,0 +1,86 @@
+import type { MaterialGroup } from "./material-groups"
+import type {
+  OptimizationRequest,
+  OptimizationResponse,
+  WorkerOptimizationOptions,
+} from "./optimization-protocol"
+import {
+  generateProjectResult,
+  type OptimizationProgress,
+  type ProjectResult,
+} from "./project-result"
+
+export interface RunOptimizationOptions extends WorkerOptimizationOptions {
+  /** Called before each material group is optimized. */
+  onProgress?: (progress: OptimizationProgress) => void
+  /** Abort to cancel the run; the promise then resolves to null. */
+  signal?: AbortSignal
+}
+
+let nextRequestId = 0
+
+/**
+ * Optimize a project off the main thread. Uses a fresh Web Worker per run when Worker exists
+ * (browsers) and falls back to generateProjectResult on the calling thread otherwise (tests).
+ * Resolves to null when cancelled through options.signal; rejects when optimization fails.
+ */
+export function runOptimization(
+  groups: MaterialGroup[],
+  options: RunOptimizationOptions = {}
+): Promise<ProjectResult | null> {
+  const { onProgress, signal, ...workerOptions } = options
+  if (signal?.aborted) return Promise.resolve(null)
+
+  if (typeof Worker === "undefined") {
+    return new Promise((resolve) => {
+      const result = generateProjectResult(groups, { ...workerOptions, onProgress })
+      resolve(signal?.aborted ? null : result)
+    })
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./optimization.worker.ts", import.meta.url), {
+      type: "module",
+    })
+    const request: OptimizationRequest = {
+      type: "optimize",
+      id: ++nextRequestId,
+      groups,
+      options: workerOptions,
+    }
+
+    // Terminating is the only way to stop a synchronous solver mid-run
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener("abort", onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      resolve(null)
+    }
+    signal?.addEventListener("abort", onAbort)
+
+    worker.addEventListener("message", (event: MessageEvent<OptimizationResponse>) => {
+      const response = event.data
+      if (response.id !== request.id) return
+      switch (response.type) {
+        case "progress":
+          onProgress?.(response.progress)
+          break
+        case "result":
+          finish()
+          resolve(response.result)
+          break
+        case "error":
+          finish()
+          reject(new Error(response.message))
+          break
+      }
+    })
+    worker.addEventListener("error", (event) => {
+      finish()
+      reject(new Error(event.message || "Optimization worker failed to start."))
+    })
+    worker.postMessage(request)
+  })
+}
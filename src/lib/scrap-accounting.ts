@@ -0,0 +1,146 @@
+import { mergeScrapEntries, type ScrapEntry } from "./optimizer"
+import { collectOffcuts } from "./offcuts"
+import type { DiagramGroup, ProjectResult } from "./project-result"
+
+/** What committing a plan did to the scrap inventory; enough to roll it back. */
+export interface PlanCommit {
+  /** Scrap taken out of the inventory because the plan cuts from it. */
+  consumed: ScrapEntry[]
+  /** Offcuts the plan leaves behind, added to the inventory. */
+  produced: ScrapEntry[]
+}
+
+/** One stop on the pick list: what to pull from one storage location. */
+export interface PickListStop {
+  /** null for scrap stored without a location. */
+  location: string | null
+  entries: ScrapEntry[]
+}
+
+function scrapKey(entry: ScrapEntry): string {
+  return entry.materialType === "board"
+    ? `board:${entry.nominalSizeId}:${entry.stockLength}:${entry.location ?? ""}:${entry.pieceId ?? ""}`
+    : `sheet:${entry.width}:${entry.height}:${entry.thickness.trim()}`
+}
+
+/** Scrap one group's diagram cuts from, one entry per board or sheet (not merged). */
+export function findDiagramScrap(diagram: DiagramGroup): ScrapEntry[] {
+  const used: ScrapEntry[] = []
+  if (diagram.materialType === "sheet") {
+    if (!diagram.sheetThickness) return used
+    for (const sheet of diagram.sheets ?? []) {
+      if (sheet.source !== "scrap") continue
+      used.push({
+        materialType: "sheet",
+        width: sheet.sheetWidth,
+        height: sheet.sheetHeight,
+        thickness: diagram.sheetThickness,
+        quantity: 1,
+      })
+    }
+    return used
+  }
+  if (!diagram.boardSpecId) return used
+  for (const board of diagram.boards) {
+    if (board.source !== "scrap") continue
+    used.push({
+      materialType: "board",
+      nominalSizeId: diagram.boardSpecId,
+      stockLength: board.stockLength,
+      quantity: 1,
+      location: board.scrapLocation,
+      pieceId: board.scrapPieceId,
+    })
+  }
+  return used
+}
+
+/**
+ * Scrap a plan cuts from: boards merged by board spec, length, location and piece ID, then sheets merged
+ * by size and thickness.
+ */
+export function findConsumedScrap(result: ProjectResult): ScrapEntry[] {
+  return mergeScrapEntries(result.diagrams.flatMap(findDiagramScrap))
+}
+
+/**
+ * Scrap to pull before cutting, grouped by storage location: locations in alphabetical order,
+ * then scrap without a location.
+ */
+export function buildPickList(result: ProjectResult): PickListStop[] {
+  const byLocation = new Map<string | null, ScrapEntry[]>()
+  for (const entry of findConsumedScrap(result)) {
+    const location = (entry.materialType === "board" ? entry.location : undefined) ?? null
+    byLocation.set(location, [...(byLocation.get(location) ?? []), entry])
+  }
+  return [...byLocation.entries()]
+    .map(([location, entries]) => ({ location, entries }))
+    .sort((a, b) =>
+      a.location === null ? 1 : b.location === null ? -1 : a.location.localeCompare(b.location)
+    )
+}
+
+/**
+ * Take entries out of an inventory. Quantities never go below zero, so `removed` can be less
+ * than asked when the inventory changed since the plan was generated; `missing` is the rest.
+ * Empty entries are dropped.
+ */
+export function subtractScrap(
+  inventory: ScrapEntry[],
+  entries: ScrapEntry[]
+): { remaining: ScrapEntry[]; removed: ScrapEntry[]; missing: ScrapEntry[] } {
+  const asked = mergeScrapEntries(entries)
+  const toRemove = new Map<string, number>()
+  for (const entry of asked) {
+    toRemove.set(scrapKey(entry), entry.quantity)
+  }
+  const remaining: ScrapEntry[] = []
+  const removed: ScrapEntry[] = []
+  for (const entry of mergeScrapEntries(inventory)) {
+    const key = scrapKey(entry)
+    const take = Math.min(entry.quantity, toRemove.get(key) ?? 0)
+    if (take > 0) {
+      toRemove.set(key, (toRemove.get(key) ?? 0) - take)
+      removed.push({ ...entry, quantity: take })
+    }
+    if (entry.quantity > take) remaining.push({ ...entry, quantity: entry.quantity - take })
+  }
+  const missing = asked
+    .map((entry) => ({ ...entry, quantity: toRemove.get(scrapKey(entry)) ?? 0 }))
+    .filter((entry) => entry.quantity > 0)
+  return { remaining, removed, missing }
+}
+
+/**
+ * Apply a plan to the inventory: remove the scrap it cuts from and add its offcuts.
+ * Pass `produced` to record a different set of offcuts (e.g. none, when the user discards them).
+ * `missing` is scrap the plan cuts from that the inventory no longer holds, so the plan and the
+ * inventory do not match.
+ */
+export function commitPlan(
+  inventory: ScrapEntry[],
+  result: ProjectResult,
+  produced: ScrapEntry[] = collectOffcuts(result)
+): { inventory: ScrapEntry[]; commit: PlanCommit; missing: ScrapEntry[] } {
+  const { remaining, removed, missing } = subtractScrap(inventory, findConsumedScrap(result))
+  const mergedProduced = mergeScrapEntries(produced)
+  return {
+    inventory: mergeScrapEntries([...remaining, ...mergedProduced]),
+    commit: { consumed: removed, produced: mergedProduced },
+    missing,
+  }
+}
+
+/**
+ * Undo a commit: take its offcuts back out and return the consumed scrap. Changes made to the
+ * inventory since the commit are kept; offcuts already used elsewhere are not removed twice.
+ */
+export function rollbackCommit(inventory: ScrapEntry[], commit: PlanCommit): ScrapEntry[] {
+  const { remaining } = subtractScrap(inventory, commit.produced)
+  return mergeScrapEntries([...remaining, ...commit.consumed])
+}
+
+/** Total pieces across entries. */
+export function countScrap(entries: ScrapEntry[]): number {
+  return entries.reduce((sum, entry) => sum + entry.quantity, 0)
+}
@@ -0,0 +1,336 @@
+import { mergeScrapEntries, type ScrapEntry } from "./optimizer"
+import { getAppStorage } from "./persistence"
+import { subtractScrap } from "./scrap-accounting"
+import { STOCK_PROFILES } from "./stock-profiles"
+
+export const SCRAP_LEDGER_STORAGE_KEY = "cut-optimizer-scrap-ledger"
+
+/** Oldest transactions are dropped past this many, so storage stays small. */
+export const MAX_LEDGER_TRANSACTIONS = 200
+
+/**
+ * Why a scrap quantity changed. "added" and "produced" increase the inventory,
+ * "consumed" and "discarded" decrease it.
+ */
+export type ScrapChangeKind = "added" | "consumed" | "produced" | "discarded"
+
+/** One change to one inventory entry. entry.quantity is always positive. */
+export interface ScrapChange {
+  kind: ScrapChangeKind
+  entry: ScrapEntry
+}
+
+/** A group of changes made together (one edit, one plan commit). */
+export interface ScrapTransaction {
+  id: string
+  /** When the transaction was recorded (ISO 8601). */
+  at: string
+  changes: ScrapChange[]
+  /** The plan that consumed or produced the scrap, for plan commits. */
+  planLabel?: string
+  /** Short description for edits that are not plan commits (e.g. a rollback). */
+  note?: string
+  /** ID of the transaction this one cancels, for plan rollbacks. */
+  reverts?: string
+}
+
+/** Inventory plus the transactions that led to it. `redo` holds undone transactions, newest first. */
+export interface ScrapLedgerState {
+  inventory: ScrapEntry[]
+  history: ScrapTransaction[]
+  redo: ScrapTransaction[]
+}
+
+let transactionCounter = 0
+
+/**
+ * A new transaction ID, for callers that need to know it before recording the transaction. The
+ * random part keeps IDs from two tabs recording in the same millisecond apart.
+ */
+export function createScrapTransactionId(random: () => number = Math.random): string {
+  transactionCounter += 1
+  const suffix = Math.floor(random() * 36 ** 8).toString(36)
+  return `scrap-tx-${transactionCounter}-${Date.now()}-${suffix}`
+}
+
+function isIncrease(kind: ScrapChangeKind): boolean {
+  return kind === "added" || kind === "produced"
+}
+
+/** Kind of the change that cancels a change of each kind. */
+const INVERSE_KIND: Record<ScrapChangeKind, ScrapChangeKind> = {
+  added: "discarded",
+  discarded: "added",
+  produced: "consumed",
+  consumed: "produced",
+}
+
+function inverseChange(change: ScrapChange): ScrapChange {
+  return { kind: INVERSE_KIND[change.kind], entry: change.entry }
+}
+
+/**
+ * Apply changes in order. Decreases never take more than the inventory holds; `applied` records
+ * what actually changed, so undoing it restores the inventory exactly.
+ */
+export function applyScrapChanges(
+  inventory: ScrapEntry[],
+  changes: ScrapChange[]
+): { inventory: ScrapEntry[]; applied: ScrapChange[] } {
+  let current = mergeScrapEntries(inventory)
+  const applied: ScrapChange[] = []
+  for (const change of changes) {
+    if (isIncrease(change.kind)) {
+      const [entry] = mergeScrapEntries([change.entry])
+      if (!entry) continue
+      current = mergeScrapEntries([...current, entry])
+      applied.push({ kind: change.kind, entry })
+    } else {
+      const { remaining, removed } = subtractScrap(current, [change.entry])
+      current = remaining
+      for (const entry of removed) applied.push({ kind: change.kind, entry })
+    }
+  }
+  return { inventory: current, applied }
+}
+
+/**
+ * Changes that turn `prev` into `next`: "added" for new or increased entries,
+ * "discarded" for removed or decreased ones. Used for manual inventory edits.
+ */
+export function diffScrapInventories(prev: ScrapEntry[], next: ScrapEntry[]): ScrapChange[] {
+  const { removed: kept } = subtractScrap(next, prev)
+  const { remaining: added } = subtractScrap(next, kept)
+  const { remaining: discarded } = subtractScrap(prev, kept)
+  return [
+    ...discarded.map((entry) => ({ kind: "discarded" as const, entry })),
+    ...added.map((entry) => ({ kind: "added" as const, entry })),
+  ]
+}
+
+/**
+ * Apply changes and record them as one transaction. Clears the redo stack. Returns `state`
+ * unchanged when nothing actually changed. `details.id` defaults to a new ID.
+ */
+export function recordScrapTransaction(
+  state: ScrapLedgerState,
+  changes: ScrapChange[],
+  details: { id?: string; planLabel?: string; note?: string; reverts?: string } = {},
+  now: Date = new Date()
+): ScrapLedgerState {
+  const { inventory, applied } = applyScrapChanges(state.inventory, changes)
+  if (applied.length === 0) return state
+  const { id, ...rest } = details
+  const transaction: ScrapTransaction = {
+    ...rest,
+    id: id ?? createScrapTransactionId(),
+    at: now.toISOString(),
+    changes: applied,
+  }
+  return {
+    inventory,
+    history: [...state.history, transaction].slice(-MAX_LEDGER_TRANSACTIONS),
+    redo: [],
+  }
+}
+
+/** Revert the newest transaction and move it to the redo stack. */
+export function undoScrapTransaction(state: ScrapLedgerState): ScrapLedgerState {
+  const last = state.history[state.history.length - 1]
+  if (!last) return state
+  const inverse = [...last.changes].reverse().map(inverseChange)
+  return {
+    inventory: applyScrapChanges(state.inventory, inverse).inventory,
+    history: state.history.slice(0, -1),
+    redo: [last, ...state.redo],
+  }
+}
+
+/**
+ * Whether a transaction's changes still count: it is in the history and not reverted. One
+ * missing from the history was undone, unless the history is full and it may have been dropped
+ * as the oldest; then it is assumed to count, so a plan is never committed twice.
+ */
+export function isScrapTransactionInEffect(state: ScrapLedgerState, id: string): boolean {
+  if (state.history.some((tx) => tx.reverts === id)) return false
+  if (state.history.some((tx) => tx.id === id)) return true
+  return (
+    state.history.length >= MAX_LEDGER_TRANSACTIONS && !state.redo.some((tx) => tx.id === id)
+  )
+}
+
+/**
+ * Record a transaction that cancels an earlier one, keeping everything recorded since. Returns
+ * `state` unchanged when that transaction is no longer in the history (undone or dropped) or
+ * was already reverted.
+ */
+export function revertScrapTransaction(
+  state: ScrapLedgerState,
+  id: string,
+  details: { note?: string } = {},
+  now: Date = new Date()
+): ScrapLedgerState {
+  const transaction = state.history.find((tx) => tx.id === id)
+  if (!transaction || state.history.some((tx) => tx.reverts === id)) return state
+  return recordScrapTransaction(
+    state,
+    [...transaction.changes].reverse().map(inverseChange),
+    { ...details, reverts: id },
+    now
+  )
+}
+
+/** Re-apply the most recently undone transaction. */
+export function redoScrapTransaction(state: ScrapLedgerState): ScrapLedgerState {
+  const [next, ...rest] = state.redo
+  if (!next) return state
+  return {
+    inventory: applyScrapChanges(state.inventory, next.changes).inventory,
+    history: [...state.history, next].slice(-MAX_LEDGER_TRANSACTIONS),
+    redo: rest,
+  }
+}
+
+/**
+ * Combine this tab's ledger with one another tab saved at the same time, so neither tab's
+ * transactions are lost. Transactions only this tab recorded (those after the newest one both
+ * ledgers share) are re-applied on top of the other tab's inventory, so scrap consumed in both
+ * tabs is taken out once for each. The redo stack is cleared.
+ */
+export function mergeScrapLedgers(
+  local: ScrapLedgerState,
+  remote: Pick<ScrapLedgerState, "inventory" | "history">
+): ScrapLedgerState {
+  const remoteIds = new Set(remote.history.map((tx) => tx.id))
+  let lastShared = local.history.length - 1
+  while (lastShared >= 0 && !remoteIds.has(local.history[lastShared].id)) lastShared--
+  const localOnly = local.history.slice(lastShared + 1).filter((tx) => !remoteIds.has(tx.id))
+  let inventory = remote.inventory
+  const reapplied: ScrapTransaction[] = []
+  for (const tx of localOnly) {
+    const result = applyScrapChanges(inventory, tx.changes)
+    inventory = result.inventory
+    if (result.applied.length > 0) reapplied.push({ ...tx, changes: result.applied })
+  }
+  return {
+    inventory,
+    history: [...remote.history, ...reapplied].slice(-MAX_LEDGER_TRANSACTIONS),
+    redo: [],
+  }
+}
+
+// ── Storage ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parse one unknown value as a ScrapEntry. Entries saved before scrap was material-aware
+ * (length and quantity only) load as boards of the first stock profile.
+ * Returns null if the value is not recoverable.
+ */
+export function parseScrapEntryFromUnknown(raw: unknown): ScrapEntry | null {
+  if (typeof raw !== "object" || raw === null) return null
+  const candidate = raw as Record<string, unknown>
+  if (
+    candidate.materialType === "board" &&
+    typeof candidate.nominalSizeId === "string" &&
+    typeof candidate.stockLength === "number" &&
+    typeof candidate.quantity === "number"
+  ) {
+    return {
+      materialType: "board",
+      nominalSizeId: candidate.nominalSizeId,
+      stockLength: candidate.stockLength,
+      quantity: candidate.quantity,
+      ...(typeof candidate.location === "string" && candidate.location.trim()
+        ? { location: candidate.location.trim() }
+        : {}),
+      ...(typeof candidate.pieceId === "string" && candidate.pieceId
+        ? {
+            pieceId: candidate.pieceId,
+            ...(typeof candidate.addedAt === "string" ? { addedAt: candidate.addedAt } : {}),
+          }
+        : {}),
+    }
+  }
+  if (
+    candidate.materialType === "sheet" &&
+    typeof candidate.width === "number" &&
+    typeof candidate.height === "number" &&
+    typeof candidate.thickness === "string" &&
+    typeof candidate.quantity === "number"
+  ) {
+    return {
+      materialType: "sheet",
+      width: candidate.width,
+      height: candidate.height,
+      thickness: candidate.thickness,
+      quantity: candidate.quantity,
+    }
+  }
+  if (typeof candidate.stockLength === "number" && typeof candidate.quantity === "number") {
+    return {
+      materialType: "board",
+      nominalSizeId: STOCK_PROFILES[0]?.id ?? "2x4",
+      stockLength: candidate.stockLength,
+      quantity: candidate.quantity,
+    }
+  }
+  return null
+}
+
+function parseScrapChange(raw: unknown): ScrapChange | null {
+  if (typeof raw !== "object" || raw === null) return null
+  const obj = raw as Record<string, unknown>
+  const kind =
+    obj.kind === "added" || obj.kind === "consumed" || obj.kind === "produced" || obj.kind === "discarded"
+      ? obj.kind
+      : null
+  const parsed = parseScrapEntryFromUnknown(obj.entry)
+  // Merging drops entries with non-positive or non-integer quantities
+  const [entry] = parsed ? mergeScrapEntries([parsed]) : []
+  return kind && entry ? { kind, entry } : null
+}
+
+/**
+ * Parse an unknown value (from storage) as ledger history.
+ * Drops malformed transactions and changes rather than rejecting the history.
+ */
+export function parseScrapHistoryFromUnknown(raw: unknown): ScrapTransaction[] {
+  if (!Array.isArray(raw)) return []
+  const history: ScrapTransaction[] = []
+  for (const item of raw) {
+    if (typeof item !== "object" || item === null) continue
+    const obj = item as Record<string, unknown>
+    if (typeof obj.id !== "string" || typeof obj.at !== "string" || !Array.isArray(obj.changes)) continue
+    const changes = obj.changes.map(parseScrapChange).filter((c): c is ScrapChange => c !== null)
+    if (changes.length === 0) continue
+    history.push({
+      id: obj.id,
+      at: obj.at,
+      changes,
+      ...(typeof obj.planLabel === "string" ? { planLabel: obj.planLabel } : {}),
+      ...(typeof obj.note === "string" ? { note: obj.note } : {}),
+      ...(typeof obj.reverts === "string" ? { reverts: obj.reverts } : {}),
+    })
+  }
+  return history.slice(-MAX_LEDGER_TRANSACTIONS)
+}
+
+/** Persist ledger history. Write failures are reported to onStorageError listeners. */
+export function saveScrapHistoryToStorage(history: ScrapTransaction[]): void {
+  getAppStorage().setItem(SCRAP_LEDGER_STORAGE_KEY, JSON.stringify(history))
+}
+
+/** Load ledger history. Returns [] if nothing is stored or data is invalid. */
+export function loadScrapHistoryFromStorage(): ScrapTransaction[] {
+  return parseStoredScrapHistory(getAppStorage().getItem(SCRAP_LEDGER_STORAGE_KEY))
+}
+
+/** Parse history as saveScrapHistoryToStorage writes it. Returns [] for null or invalid JSON. */
+export function parseStoredScrapHistory(raw: string | null): ScrapTransaction[] {
+  try {
+    if (!raw) return []
+    return parseScrapHistoryFromUnknown(JSON.parse(raw) as unknown)
+  } catch {
+    return []
+  }
+}
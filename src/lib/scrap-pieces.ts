@@ -0,0 +1,92 @@
+import { mergeScrapEntries, type ScrapEntry } from "./optimizer"
+import type { ScrapLedgerState } from "./scrap-ledger"
+
+/** Characters used in piece IDs: no 0/O or 1/I, so handwritten and printed labels read back reliably. */
+const PIECE_ID_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+
+/** Length of a generated piece ID. 32⁴ ≈ one million IDs, plenty for a shop's scrap pile. */
+export const PIECE_ID_LENGTH = 4
+
+/** A tracked board offcut: one physical piece with its own label. */
+export type TrackedScrapPiece = Extract<ScrapEntry, { materialType: "board" }> & {
+  pieceId: string
+}
+
+export function isTrackedPiece(entry: ScrapEntry): entry is TrackedScrapPiece {
+  return entry.materialType === "board" && !!entry.pieceId
+}
+
+/** Generate a short piece ID not in `taken`. `random` is injectable for tests. */
+export function generatePieceId(taken: ReadonlySet<string>, random: () => number = Math.random): string {
+  for (;;) {
+    let id = ""
+    for (let i = 0; i < PIECE_ID_LENGTH; i++) {
+      id += PIECE_ID_ALPHABET[Math.floor(random() * PIECE_ID_ALPHABET.length)]
+    }
+    if (!taken.has(id)) return id
+  }
+}
+
+/**
+ * Piece IDs the ledger knows about: in the inventory, in history and in the redo stack. New IDs
+ * avoid all of them, so a consumed piece that is rolled back or redone never shares a label.
+ */
+export function usedPieceIds(state: ScrapLedgerState): Set<string> {
+  const ids = new Set<string>()
+  const transactions = [...state.history, ...state.redo]
+  const entries = [...state.inventory, ...transactions.flatMap((tx) => tx.changes.map((c) => c.entry))]
+  for (const entry of entries) {
+    if (isTrackedPiece(entry)) ids.add(entry.pieceId)
+  }
+  return ids
+}
+
+/** Local calendar date as YYYY-MM-DD, the format of ScrapBoard.addedAt. */
+export function toPieceDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Split board scrap into individually tracked pieces of quantity 1. Pieces that already have an
+ * ID keep it; every other board gets a new ID, unique across `entries` and `taken`, dated
+ * `addedAt`. Sheet scrap is returned unchanged.
+ */
+export function assignScrapPieceIds(
+  entries: ScrapEntry[],
+  addedAt: Date = new Date(),
+  taken: Iterable<string> = [],
+  random: () => number = Math.random
+): ScrapEntry[] {
+  const used = new Set(taken)
+  for (const entry of entries) {
+    if (isTrackedPiece(entry)) used.add(entry.pieceId)
+  }
+  const date = toPieceDate(addedAt)
+  return entries.flatMap((entry): ScrapEntry[] => {
+    if (entry.materialType !== "board") return [entry]
+    const pieces: ScrapEntry[] = []
+    for (let i = 0; i < entry.quantity; i++) {
+      if (i === 0 && entry.pieceId) {
+        pieces.push({ ...entry, quantity: 1 })
+        continue
+      }
+      const pieceId = generatePieceId(used, random)
+      used.add(pieceId)
+      pieces.push({ ...entry, quantity: 1, pieceId, addedAt: date })
+    }
+    return pieces
+  })
+}
+
+/** Drop piece IDs and dates so equal boards merge back into counted entries. */
+export function untrackScrapPieces(entries: ScrapEntry[]): ScrapEntry[] {
+  return mergeScrapEntries(
+    entries.map((entry) =>
+      entry.materialType === "board"
+        ? { ...entry, pieceId: undefined, addedAt: undefined }
+        : entry
+    )
+  )
+}
@@ -0,0 +1,63 @@
+import type { ImportReport } from "./import-report"
+import { createProjectFile, parseProjectFile, type Project } from "./project-file"
+
+/** Fragment parameter holding a shared project: `#project=<payload>`. */
+export const SHARE_FRAGMENT_PARAM = "project"
+
+async function transform(bytes: Uint8Array, stream: GenericTransformStream): Promise<Uint8Array> {
+  const piped = new Blob([bytes as BlobPart]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(piped).arrayBuffer())
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ""
+  // Chunked so String.fromCharCode never gets more arguments than the engine allows
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+/**
+ * Compressed, URL-safe payload for a project: its project file, deflated and base64url-encoded.
+ * Scrap is left out; it belongs to the sender's shop, not the plan.
+ */
+export async function encodeSharePayload(project: Project): Promise<string> {
+  const json = JSON.stringify(createProjectFile({ ...project, scrap: undefined }))
+  return toBase64Url(await transform(new TextEncoder().encode(json), new CompressionStream("deflate-raw")))
+}
+
+/**
+ * Decode a payload from encodeSharePayload and validate it like an imported file (see
+ * parseProjectFile). Returns null when the payload is damaged or holds no valid group.
+ */
+export async function decodeSharePayload(
+  payload: string,
+  now: Date = new Date(),
+  report?: ImportReport
+): Promise<Project | null> {
+  try {
+    const bytes = await transform(fromBase64Url(payload), new DecompressionStream("deflate-raw"))
+    return parseProjectFile(JSON.parse(new TextDecoder().decode(bytes)) as unknown, now, report)
+  } catch {
+    return null
+  }
+}
+
+/** Link that opens `project` in the app at `baseUrl` (any existing fragment is replaced). */
+export async function createShareLink(project: Project, baseUrl: string): Promise<string> {
+  const url = new URL(baseUrl)
+  url.hash = `${SHARE_FRAGMENT_PARAM}=${await encodeSharePayload(project)}`
+  return url.toString()
+}
+
+/** The share payload in a location hash (e.g. "#project=…"), or null if it holds none. */
+export function readSharePayload(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""))
+  return params.get(SHARE_FRAGMENT_PARAM) || null
+}
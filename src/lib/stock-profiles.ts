@@ -13,6 +13,24 @@ export interface BoardSpec extends MaterialSpec {
   materialType: "board"
   allowedLengths: number[]
   kerf: number
+  /** Trimmed off each end of every board before cutting (inches), for checked or out-of-square ends. Default 0. */
+  endTrim?: number
+  /** Shortest leftover (inches) worth keeping as scrap; shorter is waste. Default DEFAULT_MIN_SCRAP_LENGTH_INCHES. */
+  minScrapLength?: number
+  /** Actual thickness (inches) as bought, e.g. 1.5 for a 2×4. Used to match modelled parts to the spec. */
+  actualThickness?: number
+  /** Actual width (inches) as bought, e.g. 3.5 for a 2×4. Omitted for random-width stock (hardwood). */
+  actualWidth?: number
+}
+
+/** Sheet material: stock sheet size and kerf for 2D guillotine-cut optimization */
+export interface SheetSpec extends MaterialSpec {
+  materialType: "sheet"
+  /** Stock sheet width (inches), e.g. 48 for a 4×8 sheet */
+  sheetWidth: number
+  /** Stock sheet height (inches), e.g. 96 for a 4×8 sheet */
+  sheetHeight: number
+  kerf: number
 }
 
 /** @deprecated Use BoardSpec. Kept for compatibility. */
@@ -26,6 +44,8 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144],
     kerf: 0.125,
+    actualThickness: 0.75,
+    actualWidth: 3.5,
   },
   {
     id: "1x6",
@@ -33,6 +53,8 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144],
     kerf: 0.125,
+    actualThickness: 0.75,
+    actualWidth: 5.5,
   },
   {
     id: "1x8",
@@ -40,6 +62,8 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144],
     kerf: 0.125,
+    actualThickness: 0.75,
+    actualWidth: 7.25,
   },
   {
     id: "1x12",
@@ -47,6 +71,8 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144],
     kerf: 0.125,
+    actualThickness: 0.75,
+    actualWidth: 11.25,
   },
   {
     id: "2x4",
@@ -54,6 +80,9 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144, 192],
     kerf: 0.125,
+    minScrapLength: 24,
+    actualThickness: 1.5,
+    actualWidth: 3.5,
   },
   {
     id: "2x6",
@@ -61,6 +90,9 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144, 192],
     kerf: 0.125,
+    minScrapLength: 24,
+    actualThickness: 1.5,
+    actualWidth: 5.5,
   },
   {
     id: "2x8",
@@ -68,6 +100,9 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144],
     kerf: 0.125,
+    minScrapLength: 24,
+    actualThickness: 1.5,
+    actualWidth: 7.25,
   },
   {
     id: "2x10",
@@ -75,6 +110,9 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144],
     kerf: 0.125,
+    minScrapLength: 24,
+    actualThickness: 1.5,
+    actualWidth: 9.25,
   },
   {
     id: "2x12",
@@ -82,6 +120,9 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144],
     kerf: 0.125,
+    minScrapLength: 24,
+    actualThickness: 1.5,
+    actualWidth: 11.25,
   },
   {
     id: "5-4-decking",
@@ -89,6 +130,8 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144, 192],
     kerf: 0.125,
+    actualThickness: 1,
+    actualWidth: 5.5,
   },
   {
     id: "4-4-hardwood",
@@ -96,6 +139,9 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120, 144],
     kerf: 0.125,
+    endTrim: 1,
+    minScrapLength: 6,
+    actualThickness: 1,
   },
   {
     id: "6-4-hardwood",
@@ -103,12 +149,24 @@ export const STOCK_PROFILES: BoardSpec[] = [
     materialType: "board",
     allowedLengths: [96, 120],
     kerf: 0.125,
+    endTrim: 1,
+    minScrapLength: 6,
+    actualThickness: 1.5,
   },
 ]
 
 /** Default kerf in inches (1/8″). */
 export const DEFAULT_KERF_INCHES = 0.125
 
+/** Default shortest reusable offcut in inches. Framing specs keep ≥ 24″, hardwood ≥ 6″. */
+export const DEFAULT_MIN_SCRAP_LENGTH_INCHES = 12
+
+/** Shortest side in inches of a sheet offcut worth keeping as scrap. */
+export const MIN_SHEET_SCRAP_SIDE_INCHES = 12
+
+/** Default end trim in inches, per end (none). Rough hardwood specs trim 1″. */
+export const DEFAULT_END_TRIM_INCHES = 0
+
 /** Default max board length in inches (8 ft). */
 export const DEFAULT_MAX_BOARD_LENGTH_INCHES = 96
 
@@ -120,12 +178,29 @@ export const BOARD_LENGTH_PREFERENCE_OPTIONS: { feet: number; inches: number }[]
   { feet: 16, inches: 192 },
 ]
 
+/** Common stock sheet sizes (inches). Width × height, grain running along the height. */
+export const SHEET_SIZE_OPTIONS: { id: string; name: string; width: number; height: number }[] = [
+  { id: "4x8", name: "4×8 ft sheet", width: 48, height: 96 },
+  { id: "5x5", name: "5×5 ft Baltic birch", width: 60, height: 60 },
+  { id: "2x4", name: "2×4 ft project panel", width: 24, height: 48 },
+]
+
+/** Common nominal sheet thicknesses. Informational; used to match sheet scrap. */
+export const SHEET_THICKNESS_OPTIONS: string[] = ['1/8"', '1/4"', '3/8"', '1/2"', '5/8"', '3/4"', '1"']
+
 /** Format length in inches as feet (e.g. 96 → "8 ft") */
 export function formatStockLength(inches: number): string {
   const feet = inches / 12
   return feet % 1 === 0 ? `${feet} ft` : `${inches}"`
 }
 
+/** Format sheet size in inches as feet when both sides are whole feet (e.g. 48 × 96 → "4×8 ft") */
+export function formatSheetSize(width: number, height: number): string {
+  return width % 12 === 0 && height % 12 === 0
+    ? `${width / 12}×${height / 12} ft`
+    : `${width}" × ${height}"`
+}
+
 /** Short label for shopping list (e.g. "2×4 dimensional" → "2×4", "4/4 hardwood" → "4/4") */
 export function shortNominalName(fullName: string): string {
   return fullName